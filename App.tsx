@@ -1,7 +1,7 @@
 import { StatusBar } from 'expo-status-bar';
 import { NavigationContainer, DefaultTheme } from '@react-navigation/native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { RootNavigator } from './src/navigation';
+import { RootNavigator, linking, navigationRef, releasePendingLink } from './src/navigation';
 
 /**
  * Dark theme for React Navigation
@@ -23,7 +23,13 @@ const DarkTheme = {
 export default function App() {
   return (
     <SafeAreaProvider>
-      <NavigationContainer theme={DarkTheme}>
+      <NavigationContainer
+        ref={navigationRef}
+        theme={DarkTheme}
+        linking={linking}
+        onReady={releasePendingLink}
+        onStateChange={releasePendingLink}
+      >
         <RootNavigator />
         <StatusBar style="light" />
       </NavigationContainer>
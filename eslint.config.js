@@ -32,6 +32,9 @@ export default [
         clearInterval: 'readonly',
         Promise: 'readonly',
         fetch: 'readonly',
+        AbortController: 'readonly',
+        WebSocket: 'readonly',
+        __DEV__: 'readonly',
       },
     },
     plugins: {
@@ -71,6 +74,23 @@ export default [
       'no-unused-vars': 'off',
     },
   },
+  {
+    files: ['**/__tests__/**/*.ts', '**/*.test.ts'],
+    languageOptions: {
+      globals: {
+        describe: 'readonly',
+        it: 'readonly',
+        expect: 'readonly',
+        jest: 'readonly',
+        beforeAll: 'readonly',
+        beforeEach: 'readonly',
+        afterAll: 'readonly',
+        afterEach: 'readonly',
+        Buffer: 'readonly',
+        Response: 'readonly',
+      },
+    },
+  },
   {
     ignores: ['node_modules/', '.expo/', 'dist/', 'babel.config.js'],
   },
@@ -0,0 +1,150 @@
+/**
+ * PolicyRules - card listing a session's policy rules
+ * Amounts are shown in the units of the matching spending limit
+ */
+
+import { StyleSheet, Text, View, type StyleProp, type ViewStyle } from 'react-native';
+import type { MintAmount, SessionPolicy, SpendingLimit } from '../types';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { describeTimeWindow, hasPolicyRules } from '../services/policy';
+import { shortenAddress } from '../services/solana';
+
+interface PolicyRulesProps {
+  policy: SessionPolicy | undefined;
+  limits: SpendingLimit[];
+  style?: StyleProp<ViewStyle>;
+}
+
+export function PolicyRules({ policy, limits, style }: PolicyRulesProps) {
+  const tokenMetadata = useTokenMetadata([
+    ...(policy?.maxPerTransaction ?? []).map((a) => a.mint),
+    ...(policy?.dailyCaps ?? []).map((a) => a.mint),
+  ]);
+
+  if (!policy || !hasPolicyRules(policy)) {
+    return null;
+  }
+
+  // Limits carry the decimals; an amount for a mint without one is shown in base units
+  const formatAmount = ({ mint, amount }: MintAmount) => {
+    const limit = limits.find((l) => l.mint === mint);
+    const symbol =
+      tokenMetadata[mint]?.symbol ?? limit?.symbol ?? (mint === 'native' ? 'SOL' : null);
+    const decimals = limit?.decimals ?? (mint === 'native' ? 9 : undefined);
+    if (decimals === undefined) {
+      return `${amount.toLocaleString()} base units of ${shortenAddress(mint)}`;
+    }
+    const display = (amount / Math.pow(10, decimals)).toLocaleString('en-US', {
+      maximumFractionDigits: Math.min(decimals, 6),
+    });
+    return `${display} ${symbol ?? shortenAddress(mint)}`;
+  };
+
+  return (
+    <View style={[styles.card, style]}>
+      <Text style={styles.cardLabel}>Policy</Text>
+
+      {policy.maxPerTransaction && (
+        <Rule
+          title="Per transaction"
+          items={policy.maxPerTransaction.map((a) => `Up to ${formatAmount(a)}`)}
+        />
+      )}
+      {policy.dailyCaps && (
+        <Rule
+          title="Daily caps"
+          items={policy.dailyCaps.map((a) => `${formatAmount(a)} per 24 hours`)}
+        />
+      )}
+      {policy.allowedDestinations && (
+        <Rule
+          title="Allowed destinations"
+          items={policy.allowedDestinations.map((d) => shortenAddress(d, 6))}
+          empty="No transfers allowed"
+          mono
+        />
+      )}
+      {policy.allowedPrograms && (
+        <Rule
+          title="Allowed programs"
+          items={policy.allowedPrograms.map((p) => shortenAddress(p, 6))}
+          empty="No programs allowed"
+          mono
+        />
+      )}
+      {policy.timeWindows && (
+        <Rule
+          title="Active hours"
+          items={policy.timeWindows.map(describeTimeWindow)}
+          empty="Never active"
+        />
+      )}
+    </View>
+  );
+}
+
+function Rule({
+  title,
+  items,
+  empty,
+  mono = false,
+}: {
+  title: string;
+  items: string[];
+  empty?: string;
+  mono?: boolean;
+}) {
+  return (
+    <View style={styles.rule}>
+      <Text style={styles.ruleTitle}>{title}</Text>
+      {items.map((item, index) => (
+        <Text key={`${item}-${index}`} style={[styles.ruleItem, mono && styles.mono]}>
+          {item}
+        </Text>
+      ))}
+      {items.length === 0 && empty && <Text style={styles.ruleEmpty}>{empty}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  cardLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  rule: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  ruleTitle: {
+    color: '#888888',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  ruleItem: {
+    color: '#ffffff',
+    fontSize: 15,
+    marginTop: 2,
+  },
+  ruleEmpty: {
+    color: '#ef4444',
+    fontSize: 14,
+  },
+  mono: {
+    fontFamily: 'monospace',
+    fontSize: 13,
+  },
+});
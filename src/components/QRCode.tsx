@@ -0,0 +1,86 @@
+/**
+ * QRCode - renders a scannable QR code with plain views
+ */
+
+import { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import qrcode from 'qrcode-generator';
+
+interface QRCodeProps {
+  value: string;
+  size?: number;
+}
+
+// Quiet zone around the code, in modules (the spec asks for 4)
+const QUIET_ZONE = 4;
+
+/**
+ * Encode a value into rows of dark module runs: [startColumn, length]
+ * Merging runs keeps the number of rendered views small
+ */
+function encodeRuns(value: string): { moduleCount: number; rows: [number, number][][] } {
+  const qr = qrcode(0, 'M');
+  qr.addData(value);
+  qr.make();
+
+  const moduleCount = qr.getModuleCount();
+  const rows: [number, number][][] = [];
+  for (let row = 0; row < moduleCount; row++) {
+    const runs: [number, number][] = [];
+    for (let col = 0; col < moduleCount; col++) {
+      if (!qr.isDark(row, col)) continue;
+      const last = runs[runs.length - 1];
+      if (last && last[0] + last[1] === col) {
+        last[1] += 1;
+      } else {
+        runs.push([col, 1]);
+      }
+    }
+    rows.push(runs);
+  }
+
+  return { moduleCount, rows };
+}
+
+export function QRCode({ value, size = 200 }: QRCodeProps) {
+  const { moduleCount, rows } = useMemo(() => encodeRuns(value), [value]);
+  // Whole-pixel modules avoid hairline gaps between rows
+  const moduleSize = Math.max(1, Math.floor(size / (moduleCount + QUIET_ZONE * 2)));
+  const codeSize = moduleSize * (moduleCount + QUIET_ZONE * 2);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { width: codeSize, height: codeSize, padding: moduleSize * QUIET_ZONE },
+      ]}
+      accessibilityRole="image"
+      accessibilityLabel="QR code"
+    >
+      {rows.map((runs, rowIndex) => (
+        <View key={rowIndex} style={{ height: moduleSize }}>
+          {runs.map(([col, length]) => (
+            <View
+              key={col}
+              style={[
+                styles.module,
+                { left: col * moduleSize, width: length * moduleSize, height: moduleSize },
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+  },
+  module: {
+    position: 'absolute',
+    top: 0,
+    backgroundColor: '#000000',
+  },
+});
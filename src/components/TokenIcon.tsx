@@ -0,0 +1,50 @@
+/**
+ * TokenIcon - token logo with a letter fallback when no logo is available
+ */
+
+import { useState } from 'react';
+import { StyleSheet, Text, View, Image } from 'react-native';
+
+interface TokenIconProps {
+  symbol: string | null;
+  logoUri: string | null;
+  size?: number;
+}
+
+export function TokenIcon({ symbol, logoUri, size = 44 }: TokenIconProps) {
+  const [failedUri, setFailedUri] = useState<string | null>(null);
+  const dimensions = { width: size, height: size, borderRadius: size / 2 };
+
+  if (logoUri && logoUri !== failedUri) {
+    return (
+      <Image
+        source={{ uri: logoUri }}
+        style={[styles.image, dimensions]}
+        onError={() => setFailedUri(logoUri)}
+      />
+    );
+  }
+
+  return (
+    <View style={[styles.fallback, dimensions]}>
+      <Text style={[styles.fallbackText, { fontSize: size * 0.4 }]}>
+        {symbol?.[0]?.toUpperCase() || '?'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#2a2a2a',
+  },
+  fallback: {
+    backgroundColor: '#3b82f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fallbackText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,272 @@
+/**
+ * WalletSwitcher - header control for switching between and adding wallets
+ */
+
+import { useCallback, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  FlatList,
+} from 'react-native';
+import type { StoredWallet } from '../types';
+import { useWalletStore } from '../store/useWalletStore';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { createPasskeyWallet } from '../services/wallet';
+import { PasskeyError } from '../services/passkey';
+import { shortenAddress } from '../services/solana';
+
+export function WalletSwitcher() {
+  const { wallets, setActiveWallet, addWallet } = useWalletStore();
+  const activeWallet = useActiveWallet();
+  const [visible, setVisible] = useState(false);
+  const [newWalletName, setNewWalletName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = useCallback(() => {
+    setVisible(false);
+    setNewWalletName('');
+    setError(null);
+  }, []);
+
+  const handleSelect = useCallback(
+    async (wallet: StoredWallet) => {
+      await setActiveWallet(wallet.publicKey);
+      handleClose();
+    },
+    [setActiveWallet, handleClose]
+  );
+
+  const handleCreate = useCallback(async () => {
+    const name = newWalletName.trim();
+    if (!name) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const wallet = await createPasskeyWallet({ name });
+      const saved = await addWallet(wallet);
+      if (!saved) {
+        throw new Error(useWalletStore.getState().error ?? 'Failed to save wallet');
+      }
+      await setActiveWallet(wallet.publicKey);
+      handleClose();
+    } catch (err) {
+      if (!(err instanceof PasskeyError && err.code === 'cancelled')) {
+        setError(err instanceof Error ? err.message : 'Failed to create wallet');
+      }
+    } finally {
+      setCreating(false);
+    }
+  }, [newWalletName, addWallet, setActiveWallet, handleClose]);
+
+  const renderItem = ({ item }: { item: StoredWallet }) => {
+    const isActive = item.publicKey === activeWallet?.publicKey;
+
+    return (
+      <TouchableOpacity
+        style={[styles.walletRow, isActive && styles.walletRowActive]}
+        onPress={() => handleSelect(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.walletInfo}>
+          <Text style={styles.walletName}>{item.name}</Text>
+          <Text style={styles.walletAddress}>{shortenAddress(item.publicKey, 6)}</Text>
+        </View>
+        {isActive && <Text style={styles.checkmark}>✓</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.trigger} onPress={() => setVisible(true)} activeOpacity={0.7}>
+        <Text style={styles.triggerName} numberOfLines={1}>
+          {activeWallet?.name ?? 'No Wallet'}
+        </Text>
+        <Text style={styles.triggerChevron}>▾</Text>
+      </TouchableOpacity>
+
+      <Modal visible={visible} transparent animationType="slide" onRequestClose={handleClose}>
+        <View style={styles.backdrop}>
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Wallets</Text>
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={styles.closeText}>Close</Text>
+              </TouchableOpacity>
+            </View>
+
+            <FlatList
+              data={wallets}
+              keyExtractor={(item) => item.publicKey}
+              renderItem={renderItem}
+              style={styles.list}
+            />
+
+            {/* Add Wallet */}
+            <Text style={styles.sectionLabel}>Add Wallet</Text>
+            <TextInput
+              style={styles.input}
+              value={newWalletName}
+              onChangeText={setNewWalletName}
+              placeholder="Wallet name (e.g. Team Treasury)"
+              placeholderTextColor="#666666"
+              editable={!creating}
+            />
+            {error && <Text style={styles.errorText}>{error}</Text>}
+            <TouchableOpacity
+              style={[
+                styles.createButton,
+                (!newWalletName.trim() || creating) && styles.createButtonDisabled,
+              ]}
+              onPress={handleCreate}
+              disabled={!newWalletName.trim() || creating}
+              activeOpacity={0.7}
+            >
+              {creating ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.createButtonText}>Create with Passkey</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  trigger: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    maxWidth: 240,
+  },
+  triggerName: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 6,
+  },
+  triggerChevron: {
+    color: '#888888',
+    fontSize: 14,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#121212',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '80%',
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sheetTitle: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#8b5cf6',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  list: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  walletRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  walletRowActive: {
+    borderColor: '#8b5cf6',
+  },
+  walletInfo: {
+    flex: 1,
+  },
+  walletName: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  walletAddress: {
+    color: '#666666',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  checkmark: {
+    color: '#8b5cf6',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sectionLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#ffffff',
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  createButton: {
+    backgroundColor: '#8b5cf6',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 48,
+  },
+  createButtonDisabled: {
+    backgroundColor: '#4a4a4a',
+  },
+  createButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,2 +1,5 @@
 // Reusable UI components
-export {};
+export { WalletSwitcher } from './WalletSwitcher';
+export { TokenIcon } from './TokenIcon';
+export { QRCode } from './QRCode';
+export { PolicyRules } from './PolicyRules';
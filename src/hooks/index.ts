@@ -1,2 +1,10 @@
 // Custom hooks
-export {};
+export { useActiveWallet } from './useActiveWallet';
+export { useBalances } from './useBalances';
+export { useTokenMetadata } from './useTokenMetadata';
+export { useRevocationRetry } from './useRevocationRetry';
+export { useSessionSync } from './useSessionSync';
+export { useWalletEvents } from './useWalletEvents';
+export { usePendingRequests } from './usePendingRequests';
+export { useSessionAlerts } from './useSessionAlerts';
+export { useSessionExpiry } from './useSessionExpiry';
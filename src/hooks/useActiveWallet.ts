@@ -0,0 +1,12 @@
+/**
+ * useActiveWallet - the currently selected wallet from the wallet store
+ */
+
+import { useWalletStore } from '../store/useWalletStore';
+import type { StoredWallet } from '../types';
+
+export function useActiveWallet(): StoredWallet | null {
+  return useWalletStore(
+    (state) => state.wallets.find((w) => w.publicKey === state.activeWalletPubkey) ?? null
+  );
+}
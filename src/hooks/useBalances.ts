@@ -0,0 +1,64 @@
+/**
+ * useBalances - balances for the active wallet with refresh and staleness info
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { useBalanceStore } from '../store/useBalanceStore';
+import { useActiveWallet } from './useActiveWallet';
+import type { WalletBalances } from '../types';
+
+// Balances older than this are shown as stale
+const STALE_AFTER_MS = 60000;
+
+interface UseBalancesResult extends WalletBalances {
+  isStale: boolean;
+  refresh: () => Promise<void>;
+}
+
+export function useBalances(): UseBalancesResult {
+  const walletPubkey = useActiveWallet()?.publicKey ?? null;
+  const loadBalances = useBalanceStore((state) => state.loadBalances);
+  const entry = useBalanceStore((state) =>
+    walletPubkey ? state.balancesByWallet[walletPubkey] : undefined
+  );
+
+  const refresh = useCallback(async () => {
+    if (walletPubkey) {
+      await loadBalances(walletPubkey);
+    }
+  }, [walletPubkey, loadBalances]);
+
+  // Reload whenever the screen gains focus or the active wallet changes
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const balances = entry?.balances ?? [];
+  const fetchedAt = entry?.fetchedAt ?? null;
+  const error = entry?.error ?? null;
+
+  // Remember which fetch has aged past the staleness threshold
+  const [agedFetchAt, setAgedFetchAt] = useState<number | null>(null);
+  useEffect(() => {
+    if (fetchedAt === null) return;
+    const timer = setTimeout(
+      () => setAgedFetchAt(fetchedAt),
+      Math.max(0, fetchedAt + STALE_AFTER_MS - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [fetchedAt]);
+
+  const isStale = fetchedAt !== null && (error !== null || agedFetchAt === fetchedAt);
+
+  return {
+    balances,
+    fetchedAt,
+    isLoading: entry?.isLoading ?? false,
+    error,
+    isStale,
+    refresh,
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * usePendingRequests - keeps the inbox of pending session requests current
+ * Loads on mount, when wallets change and when the app returns to the foreground;
+ * requests drop out of the inbox as they expire
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useSessionStore } from '../store/useSessionStore';
+import { useWalletStore } from '../store/useWalletStore';
+
+/**
+ * @returns The number of pending requests, for badges
+ */
+export function usePendingRequests(): number {
+  const walletKeys = useWalletStore((state) => state.wallets.map((w) => w.publicKey).join(','));
+  const loadPendingRequests = useSessionStore((state) => state.loadPendingRequests);
+  const pruneExpiredRequests = useSessionStore((state) => state.pruneExpiredRequests);
+  const count = useSessionStore((state) => state.pendingRequests.length);
+  const nextExpiry = useSessionStore((state) =>
+    state.pendingRequests.reduce((soonest, r) => Math.min(soonest, r.expiresAt), Infinity)
+  );
+
+  useEffect(() => {
+    if (!walletKeys) return;
+
+    const load = () => loadPendingRequests(walletKeys.split(','));
+    load();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        load();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [walletKeys, loadPendingRequests]);
+
+  // Drop the next request to expire once its time is up
+  useEffect(() => {
+    if (!Number.isFinite(nextExpiry)) return;
+    const timer = setTimeout(pruneExpiredRequests, Math.max(0, nextExpiry - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextExpiry, pruneExpiredRequests]);
+
+  return count;
+}
@@ -0,0 +1,41 @@
+/**
+ * useRevocationRetry - keeps unfinished session revocations moving
+ * Retries on mount, periodically and whenever the app returns to the foreground
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useSessionStore } from '../store/useSessionStore';
+import { isRevocationInProgress } from '../services/revocation';
+
+const RETRY_INTERVAL_MS = 30000;
+
+export function useRevocationRetry(): void {
+  const loadSessions = useSessionStore((state) => state.loadSessions);
+  const retryRevocations = useSessionStore((state) => state.retryRevocations);
+  const hasUnfinished = useSessionStore((state) =>
+    state.sessions.some((s) => isRevocationInProgress(s.revocation))
+  );
+
+  // Revocations interrupted by a previous run live in the persisted sessions
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    if (!hasUnfinished) return;
+
+    retryRevocations();
+    const timer = setInterval(retryRevocations, RETRY_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        retryRevocations();
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [hasUnfinished, retryRevocations]);
+}
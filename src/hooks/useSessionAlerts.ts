@@ -0,0 +1,31 @@
+/**
+ * useSessionAlerts - local notifications for changes to session state
+ * Watches the session store and notifies when an active session runs out of allowance
+ */
+
+import { useEffect } from 'react';
+import { useSessionStore } from '../store/useSessionStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { notifySessionExhausted } from '../services/notifications';
+import { shortenAddress } from '../services/solana';
+
+export function useSessionAlerts(): void {
+  useEffect(
+    () =>
+      useSessionStore.subscribe((state, previous) => {
+        const wasActive = new Set(
+          previous.sessions.filter((s) => s.status === 'active').map((s) => s.id)
+        );
+
+        for (const session of state.sessions) {
+          if (session.status !== 'exhausted' || !wasActive.has(session.id)) continue;
+
+          const agent = useAgentStore
+            .getState()
+            .agents.find((a) => isAgentPairing(a, session.walletPubkey, session.agentId));
+          notifySessionExhausted(session, agent?.name ?? shortenAddress(session.agentId));
+        }
+      }),
+    []
+  );
+}
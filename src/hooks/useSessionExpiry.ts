@@ -0,0 +1,81 @@
+/**
+ * useSessionExpiry - expires sessions on time while the app runs
+ * Wakes at the next expiry, re-checks whenever the app returns to the foreground and
+ * keeps a local reminder scheduled shortly before each active session expires
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useSessionStore } from '../store/useSessionStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { getNextExpiry } from '../services/sessionExpiry';
+import { scheduleExpiryReminders } from '../services/notifications';
+import { shortenAddress } from '../services/solana';
+
+// Long timers drift while the device sleeps; wake at least this often to re-check
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export function useSessionExpiry(): void {
+  const expireSessions = useSessionStore((state) => state.expireSessions);
+  const nextExpiry = useSessionStore((state) => getNextExpiry(state.sessions));
+  const hasLoaded = useSessionStore((state) => state.hasLoaded);
+
+  // Active sessions and their expiries, as a stable key for rescheduling reminders
+  const activeKey = useSessionStore((state) =>
+    state.sessions
+      .filter((s) => s.status === 'active')
+      .map((s) => `${s.id}:${s.expiresAt}:${s.agentId}`)
+      .join(',')
+  );
+  const agentNames = useAgentStore((state) =>
+    state.agents.map((a) => `${a.walletPubkey}:${a.id}:${a.name}`).join(',')
+  );
+
+  // Expire the next session as it runs out
+  useEffect(() => {
+    if (nextExpiry === null) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const wake = () => {
+      const delay = nextExpiry - Date.now();
+      if (delay <= 0) {
+        // The new next expiry re-runs this effect
+        expireSessions();
+      } else {
+        timer = setTimeout(wake, Math.min(delay, MAX_TIMER_MS));
+      }
+    };
+    wake();
+
+    return () => clearTimeout(timer);
+  }, [nextExpiry, expireSessions]);
+
+  // Timers don't run in the background; catch up on resume
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        expireSessions();
+      }
+    });
+    return () => subscription.remove();
+  }, [expireSessions]);
+
+  // Reminders shortly before expiry, even if the app is closed by then
+  useEffect(() => {
+    // Before sessions load the list is empty, which would cancel every reminder
+    if (!hasLoaded) return;
+
+    const agents = useAgentStore.getState().agents;
+    const reminders = useSessionStore
+      .getState()
+      .sessions.filter((s) => s.status === 'active')
+      .map((s) => ({
+        sessionId: s.id,
+        agentName:
+          agents.find((a) => isAgentPairing(a, s.walletPubkey, s.agentId))?.name ??
+          shortenAddress(s.agentId),
+        expiresAt: s.expiresAt,
+      }));
+    scheduleExpiryReminders(reminders);
+  }, [activeKey, agentNames, hasLoaded]);
+}
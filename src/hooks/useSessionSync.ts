@@ -0,0 +1,34 @@
+/**
+ * useSessionSync - keeps a wallet's sessions in step with the backend
+ * Syncs when the screen gains focus and periodically while it stays focused
+ */
+
+import { useCallback } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSessionStore } from '../store/useSessionStore';
+
+const SYNC_INTERVAL_MS = 60000;
+
+/**
+ * @param walletPubkey - Wallet whose sessions to sync; nothing happens while undefined
+ * @returns A sync function for pull-to-refresh
+ */
+export function useSessionSync(walletPubkey: string | undefined): () => Promise<void> {
+  const syncSessions = useSessionStore((state) => state.syncSessions);
+
+  const sync = useCallback(async () => {
+    if (walletPubkey) {
+      await syncSessions(walletPubkey);
+    }
+  }, [walletPubkey, syncSessions]);
+
+  useFocusEffect(
+    useCallback(() => {
+      sync();
+      const timer = setInterval(sync, SYNC_INTERVAL_MS);
+      return () => clearInterval(timer);
+    }, [sync])
+  );
+
+  return sync;
+}
@@ -0,0 +1,22 @@
+/**
+ * useTokenMetadata - resolved metadata for a set of mints, loaded on demand
+ */
+
+import { useEffect } from 'react';
+import { useTokenMetadataStore } from '../store/useTokenMetadataStore';
+import type { TokenMetadata } from '../types';
+
+export function useTokenMetadata(mints: string[]): Record<string, TokenMetadata | null> {
+  const loadMetadata = useTokenMetadataStore((state) => state.loadMetadata);
+  const metadataByMint = useTokenMetadataStore((state) => state.metadataByMint);
+
+  // Key the effect on the mint list's contents rather than array identity
+  const mintsKey = [...new Set(mints)].sort().join(',');
+  useEffect(() => {
+    if (mintsKey) {
+      loadMetadata(mintsKey.split(','));
+    }
+  }, [mintsKey, loadMetadata]);
+
+  return metadataByMint;
+}
@@ -0,0 +1,77 @@
+/**
+ * useWalletEvents - realtime events for every wallet on the device
+ * Feeds the agent and session stores, then passes each event on to screen listeners
+ */
+
+import { useEffect } from 'react';
+import type { WalletEvent } from '../types';
+import { useWalletStore } from '../store/useWalletStore';
+import { useSessionStore } from '../store/useSessionStore';
+import { useAgentStore } from '../store/useAgentStore';
+import { notifyWalletEventListeners, WalletEventClient } from '../services/events';
+
+// Last event each wallet's client delivered, so a restarted client resumes after it
+const walletCursors = new Map<string, string | null>();
+
+function applyWalletEvent(event: WalletEvent): void {
+  const sessionStore = useSessionStore.getState();
+  const agentStore = useAgentStore.getState();
+
+  switch (event.type) {
+    case 'session_requested':
+      sessionStore.addPendingRequest(event.request);
+      agentStore.updateAgentLastSeen(event.walletPubkey, event.request.agentId, event.at);
+      break;
+
+    case 'pairing_requested':
+      // Handled by the pairing screen showing the code
+      break;
+
+    case 'transaction_executed': {
+      agentStore.updateAgentLastSeen(event.walletPubkey, event.agentId, event.at);
+      if (sessionStore.sessions.some((s) => s.id === event.sessionId)) {
+        sessionStore.updateSession(event.sessionId, { spent: event.spent });
+      } else {
+        // Approved elsewhere; fetch it
+        sessionStore.syncSessions(event.walletPubkey);
+      }
+      break;
+    }
+
+    case 'session_exhausted':
+    case 'session_expired': {
+      const session = sessionStore.sessions.find((s) => s.id === event.sessionId);
+      if (!session) {
+        sessionStore.syncSessions(event.walletPubkey);
+      } else if (session.status === 'active') {
+        sessionStore.updateSession(event.sessionId, {
+          status: event.type === 'session_exhausted' ? 'exhausted' : 'expired',
+        });
+      }
+      break;
+    }
+  }
+
+  notifyWalletEventListeners(event);
+}
+
+export function useWalletEvents(): void {
+  const walletKeys = useWalletStore((state) => state.wallets.map((w) => w.publicKey).join(','));
+
+  useEffect(() => {
+    if (!walletKeys) return;
+
+    const clients = walletKeys.split(',').map((walletPubkey) => {
+      const client = new WalletEventClient({ walletPubkey, onEvent: applyWalletEvent });
+      client.start(walletCursors.get(walletPubkey) ?? null);
+      return { walletPubkey, client };
+    });
+
+    return () => {
+      clients.forEach(({ walletPubkey, client }) => {
+        client.stop();
+        walletCursors.set(walletPubkey, client.getCursor());
+      });
+    };
+  }, [walletKeys]);
+}
@@ -1,41 +1,45 @@
 import { useState, useEffect } from 'react';
 import { ActivityIndicator, View, StyleSheet } from 'react-native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import * as SecureStore from 'expo-secure-store';
 import { TabNavigator } from './TabNavigator';
 import {
   OnboardingScreen,
   AgentDetailScreen,
   SessionDetailScreen,
   SendScreen,
+  TransactionResultScreen,
   ReceiveScreen,
   PairAgentScreen,
   ApproveSessionScreen,
+  ScanScreen,
+  RevokeAllScreen,
+  SessionRequestsScreen,
 } from '../screens';
 import type { RootStackParamList } from '../types/navigation';
+import { useWalletStore } from '../store/useWalletStore';
+import { useRevocationRetry } from '../hooks/useRevocationRetry';
+import { useWalletEvents } from '../hooks/useWalletEvents';
+import { useSessionAlerts } from '../hooks/useSessionAlerts';
+import { useSessionExpiry } from '../hooks/useSessionExpiry';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
-const WALLET_STORAGE_KEY = 'odyssey_wallet';
-
 export function RootNavigator() {
   const [isLoading, setIsLoading] = useState(true);
-  const [hasWallet, setHasWallet] = useState(false);
+  const { wallets, loadWallets } = useWalletStore();
+  useRevocationRetry();
+  useWalletEvents();
+  useSessionAlerts();
+  useSessionExpiry();
 
   useEffect(() => {
     async function checkWallet() {
-      try {
-        const wallet = await SecureStore.getItemAsync(WALLET_STORAGE_KEY);
-        setHasWallet(wallet !== null);
-      } catch {
-        // If error reading storage, assume no wallet
-        setHasWallet(false);
-      } finally {
-        setIsLoading(false);
-      }
+      // Load errors leave the wallet list empty, which routes to onboarding
+      await loadWallets();
+      setIsLoading(false);
     }
     checkWallet();
-  }, []);
+  }, [loadWallets]);
 
   if (isLoading) {
     return (
@@ -47,7 +51,7 @@ export function RootNavigator() {
 
   return (
     <Stack.Navigator
-      initialRouteName={hasWallet ? 'Main' : 'Onboarding'}
+      initialRouteName={wallets.length > 0 ? 'Main' : 'Onboarding'}
       screenOptions={{
         headerStyle: {
           backgroundColor: '#0a0a0a',
@@ -78,17 +82,33 @@ export function RootNavigator() {
         options={{ title: 'Session Details' }}
       />
       <Stack.Screen name="Send" component={SendScreen} options={{ title: 'Send' }} />
+      <Stack.Screen
+        name="TransactionResult"
+        component={TransactionResultScreen}
+        options={{ title: 'Transaction', headerBackVisible: false }}
+      />
       <Stack.Screen name="Receive" component={ReceiveScreen} options={{ title: 'Receive' }} />
       <Stack.Screen
         name="PairAgent"
         component={PairAgentScreen}
         options={{ title: 'Pair Agent' }}
       />
+      <Stack.Screen name="Scan" component={ScanScreen} options={{ title: 'Scan QR Code' }} />
       <Stack.Screen
         name="ApproveSession"
         component={ApproveSessionScreen}
         options={{ title: 'Approve Session' }}
       />
+      <Stack.Screen
+        name="SessionRequests"
+        component={SessionRequestsScreen}
+        options={{ title: 'Session Requests' }}
+      />
+      <Stack.Screen
+        name="RevokeAll"
+        component={RevokeAllScreen}
+        options={{ title: 'Revoke Everything' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -1,10 +1,13 @@
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { WalletScreen, AgentsScreen, SettingsScreen } from '../screens';
 import type { TabParamList } from '../types/navigation';
+import { usePendingRequests } from '../hooks/usePendingRequests';
 
 const Tab = createBottomTabNavigator<TabParamList>();
 
 export function TabNavigator() {
+  const pendingCount = usePendingRequests();
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -34,6 +37,10 @@ export function TabNavigator() {
         component={AgentsScreen}
         options={{
           tabBarLabel: 'Agents',
+          tabBarBadge: pendingCount > 0 ? pendingCount : undefined,
+          tabBarBadgeStyle: {
+            backgroundColor: '#7c3aed',
+          },
         }}
       />
       <Tab.Screen
@@ -1,3 +1,4 @@
 // React Navigation setup
 export { RootNavigator } from './RootNavigator';
 export { TabNavigator } from './TabNavigator';
+export { linking, navigationRef, releasePendingLink } from './linking';
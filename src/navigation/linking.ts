@@ -0,0 +1,68 @@
+/**
+ * Deep link configuration
+ * Maps odyssey:// and universal links onto stack screens. Links are queued and only
+ * released once a wallet exists and onboarding has finished, so a cold start or a
+ * fresh install still lands on the linked screen afterwards.
+ */
+
+import { Linking } from 'react-native';
+import { createNavigationContainerRef, type LinkingOptions } from '@react-navigation/native';
+import type { RootStackParamList } from '../types/navigation';
+import { ODYSSEY_SCHEME, UNIVERSAL_LINK_HOST, parseOdysseyLink } from '../services/deepLinks';
+import { useWalletStore } from '../store/useWalletStore';
+
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Latest link waiting for the app to be ready; newer links replace older ones
+let pendingUrl: string | null = null;
+// Listener provided by React Navigation that turns a URL into a navigation action
+let deliver: ((url: string) => void) | null = null;
+
+function queueUrl(url: string | null) {
+  if (url && parseOdysseyLink(url)) {
+    pendingUrl = url;
+    releasePendingLink();
+  }
+}
+
+/**
+ * Open the queued link if the app can handle it now
+ * Called whenever navigation becomes ready or changes state
+ */
+export function releasePendingLink() {
+  if (!pendingUrl || !deliver || !navigationRef.isReady()) return;
+  if (useWalletStore.getState().wallets.length === 0) return;
+  if (navigationRef.getCurrentRoute()?.name === 'Onboarding') return;
+
+  const url = pendingUrl;
+  pendingUrl = null;
+  deliver(url);
+}
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [`${ODYSSEY_SCHEME}://`, `https://${UNIVERSAL_LINK_HOST}`],
+  config: {
+    screens: {
+      PairAgent: 'pair',
+      ApproveSession: 'approve-session',
+    },
+  },
+
+  // The launch URL is queued rather than used as the initial state,
+  // so the navigator still starts on Onboarding or Main
+  async getInitialURL() {
+    queueUrl(await Linking.getInitialURL());
+    return null;
+  },
+
+  subscribe(listener) {
+    deliver = listener;
+    const subscription = Linking.addEventListener('url', ({ url }) => queueUrl(url));
+    releasePendingLink();
+
+    return () => {
+      deliver = null;
+      subscription.remove();
+    };
+  },
+};
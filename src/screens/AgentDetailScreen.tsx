@@ -1,6 +1,6 @@
 /**
  * AgentDetailScreen - Agent details with sessions list
- * Shows agent info, sessions, and unpair functionality
+ * Shows agent info, sessions, auth secret rotation and unpair functionality
  */
 
 import { useCallback, useEffect, useState } from 'react';
@@ -17,8 +17,14 @@ import {
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import type { RootStackScreenProps } from '../types/navigation';
 import type { Session, SpendingLimit } from '../types';
-import { useAgentStore } from '../store/useAgentStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
 import { useSessionStore } from '../store/useSessionStore';
+import { useWalletStore } from '../store/useWalletStore';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { useSessionSync } from '../hooks/useSessionSync';
+import { deleteAgentSecret, rotateAgentSecret } from '../services/agentSecrets';
+import { PasskeyError } from '../services/passkey';
+import { isRevocationInProgress } from '../services/revocation';
 
 type Props = RootStackScreenProps<'AgentDetail'>;
 
@@ -32,6 +38,12 @@ const STATUS_COLORS: Record<string, string> = {
   exhausted: '#f97316', // Orange
 };
 
+// Shown instead of an active session's status while its revocation is unfinished
+const REVOCATION_INFO = {
+  revoking: { label: 'Revoking', color: '#f59e0b' },
+  failed: { label: 'Revocation failed', color: '#ef4444' },
+};
+
 // Format date
 function formatDate(timestamp: number): string {
   return new Date(timestamp).toLocaleDateString('en-US', {
@@ -59,23 +71,33 @@ function formatExpiry(expiresAt: number): string {
 }
 
 // Format spent amount
-function formatSpentAmount(spent: number, limit: SpendingLimit): string {
+function formatSpentAmount(spent: number, limit: SpendingLimit, resolvedSymbol?: string): string {
   const spentAmount = spent / Math.pow(10, limit.decimals);
   const limitAmount = limit.amount / Math.pow(10, limit.decimals);
-  const symbol = limit.symbol || (limit.mint === 'native' ? 'SOL' : 'tokens');
+  const symbol = resolvedSymbol || limit.symbol || (limit.mint === 'native' ? 'SOL' : 'tokens');
   return `${spentAmount.toFixed(4)} / ${limitAmount.toFixed(4)} ${symbol}`;
 }
 
 // Session list item component
 function SessionListItem({ session, onPress }: { session: Session; onPress: () => void }) {
-  const statusColor = STATUS_COLORS[session.status] || '#6b7280';
+  // An active session stays active until its revocation is confirmed
+  const revocation = session.status === 'active' ? session.revocation : undefined;
+  const revocationInfo =
+    revocation?.status === 'failed'
+      ? REVOCATION_INFO.failed
+      : revocation && revocation.status !== 'confirmed'
+        ? REVOCATION_INFO.revoking
+        : null;
+  const statusColor = revocationInfo?.color ?? (STATUS_COLORS[session.status] || '#6b7280');
+  const tokenMetadata = useTokenMetadata(session.limits.map((limit) => limit.mint));
 
   return (
     <TouchableOpacity style={styles.sessionCard} onPress={onPress} activeOpacity={0.7}>
       <View style={styles.sessionHeader}>
         <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
         <Text style={[styles.statusText, { color: statusColor }]}>
-          {session.status.charAt(0).toUpperCase() + session.status.slice(1)}
+          {revocationInfo?.label ??
+            session.status.charAt(0).toUpperCase() + session.status.slice(1)}
         </Text>
         <Text style={styles.sessionExpiry}>
           {session.status === 'active' ? formatExpiry(session.expiresAt) : ''}
@@ -88,7 +110,9 @@ function SessionListItem({ session, onPress }: { session: Session; onPress: () =
           const spent = session.spent[limit.mint] || 0;
           return (
             <View key={index} style={styles.limitRow}>
-              <Text style={styles.limitText}>{formatSpentAmount(spent, limit)}</Text>
+              <Text style={styles.limitText}>
+                {formatSpentAmount(spent, limit, tokenMetadata[limit.mint]?.symbol)}
+              </Text>
               <View style={styles.progressBarContainer}>
                 <View
                   style={[
@@ -127,17 +151,25 @@ function EmptySessionsState() {
 }
 
 export function AgentDetailScreen({ route }: Props) {
-  const { agentId } = route.params;
+  const { walletPubkey, agentId } = route.params;
   const navigation = useNavigation();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [isUnpairing, setIsUnpairing] = useState(false);
 
   // Store hooks
-  const { agents, loadAgents, removeAgent, updateAgentStatus } = useAgentStore();
-  const { sessions, loadSessions, removeSessionsForAgent } = useSessionStore();
+  const { agents, loadAgents, updateAgent, archiveAgent } = useAgentStore();
+  const { sessions, loadSessions, revokeSessions } = useSessionStore();
 
-  // Find the agent
-  const agent = agents.find((a) => a.id === agentId);
-  const agentSessions = sessions.filter((s) => s.agentId === agentId);
+  // Find the agent and the wallet it is paired with
+  const agent = agents.find((a) => isAgentPairing(a, walletPubkey, agentId));
+  const wallet = useWalletStore((state) =>
+    state.wallets.find((w) => w.publicKey === agent?.walletPubkey)
+  );
+  const agentSessions = sessions.filter(
+    (s) => s.walletPubkey === walletPubkey && s.agentId === agentId
+  );
+  const syncSessions = useSessionSync(agent?.walletPubkey);
 
   // Sort sessions: active first, then by creation date (newest first)
   const sortedSessions = [...agentSessions].sort((a, b) => {
@@ -170,19 +202,110 @@ export function AgentDetailScreen({ route }: Props) {
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     await Promise.all([loadAgents(), loadSessions()]);
+    await syncSessions();
     setIsRefreshing(false);
-  }, [loadAgents, loadSessions]);
+  }, [loadAgents, loadSessions, syncSessions]);
 
   // Handle session press
   const handleSessionPress = (session: Session) => {
     navigation.navigate('SessionDetail', { sessionId: session.id });
   };
 
+  // Rotate the agent's auth secret with the wallet passkey
+  const rotateSecret = async () => {
+    if (!wallet) return;
+
+    setIsRotating(true);
+    try {
+      const secretUpdatedAt = await rotateAgentSecret(wallet, agentId);
+      await updateAgent(walletPubkey, agentId, { secretUpdatedAt });
+      Alert.alert('Secret Rotated', 'The agent receives its new secret on its next check-in.');
+    } catch (error) {
+      if (!(error instanceof PasskeyError && error.code === 'cancelled')) {
+        Alert.alert(
+          'Rotation Failed',
+          error instanceof Error ? error.message : 'Failed to rotate the agent secret'
+        );
+      }
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleRotateSecret = () => {
+    Alert.alert(
+      'Rotate Secret',
+      `Issue a new auth secret for "${agent?.name}"? The current secret stops working immediately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Rotate', onPress: rotateSecret },
+      ]
+    );
+  };
+
+  // Revoke the agent's sessions and auth secret, then archive it
+  const unpair = async () => {
+    if (!agent) return;
+    if (!wallet) {
+      // Archiving would hide an agent whose sessions and secret still work
+      Alert.alert(
+        'Wallet Not Found',
+        'The wallet this agent is paired with is not on this device, so its sessions and secret cannot be revoked from here.'
+      );
+      return;
+    }
+
+    // Sessions already being revoked keep their signed revocation
+    const activeIds = agentSessions.filter((s) => s.status === 'active').map((s) => s.id);
+    const unsignedIds = agentSessions
+      .filter((s) => s.status === 'active' && !isRevocationInProgress(s.revocation))
+      .map((s) => s.id);
+
+    setIsUnpairing(true);
+    try {
+      // One passkey prompt revokes the sessions and invalidates the auth secret
+      await revokeSessions(unsignedIds, wallet, [agentId]);
+      await deleteAgentSecret(agent.walletPubkey, agentId);
+    } catch (error) {
+      setIsUnpairing(false);
+      if (!(error instanceof PasskeyError && error.code === 'cancelled')) {
+        Alert.alert(
+          'Unpair Failed',
+          error instanceof Error ? error.message : 'Failed to revoke the agent sessions'
+        );
+      }
+      return;
+    }
+    setIsUnpairing(false);
+
+    const revoking = useSessionStore.getState().sessions.filter((s) => activeIds.includes(s.id));
+    const rejected = revoking.find((s) => s.revocation?.status === 'failed');
+    if (rejected) {
+      Alert.alert(
+        'Unpair Failed',
+        rejected.revocation?.lastError ?? 'A session revocation was rejected'
+      );
+      return;
+    }
+
+    // The agent stays listed until every session is revoked on-chain
+    if (revoking.some((s) => s.revocation?.status !== 'confirmed')) {
+      Alert.alert(
+        'Unpair Pending',
+        'Some sessions are still being revoked and keep retrying in the background. Unpair again once they are confirmed to archive the agent.'
+      );
+      return;
+    }
+
+    await archiveAgent(walletPubkey, agentId);
+    navigation.goBack();
+  };
+
   // Handle unpair with confirmation
   const handleUnpair = () => {
     Alert.alert(
       'Unpair Agent',
-      `Are you sure you want to unpair "${agent?.name}"? This will revoke all active sessions and remove the agent.`,
+      `Are you sure you want to unpair "${agent?.name}"? This will revoke all active sessions. The agent and its session history are kept as an archived record.`,
       [
         {
           text: 'Cancel',
@@ -191,14 +314,7 @@ export function AgentDetailScreen({ route }: Props) {
         {
           text: 'Unpair',
           style: 'destructive',
-          onPress: async () => {
-            if (!agent) return;
-            // Revoke the agent and remove sessions
-            await updateAgentStatus(agentId, 'revoked');
-            await removeSessionsForAgent(agentId);
-            await removeAgent(agentId);
-            navigation.goBack();
-          },
+          onPress: unpair,
         },
       ]
     );
@@ -225,6 +341,9 @@ export function AgentDetailScreen({ route }: Props) {
           <View style={styles.agentInfo}>
             <Text style={styles.agentName}>{agent.name}</Text>
             <Text style={styles.agentMeta}>Paired on {formatDate(agent.pairedAt)}</Text>
+            {agent.archivedAt && (
+              <Text style={styles.agentMeta}>Unpaired on {formatDate(agent.archivedAt)}</Text>
+            )}
           </View>
           <View style={[styles.statusBadge, { borderColor: statusColor }]}>
             <View style={[styles.statusDotSmall, { backgroundColor: statusColor }]} />
@@ -246,6 +365,33 @@ export function AgentDetailScreen({ route }: Props) {
             <Text style={styles.statLabel}>Active</Text>
           </View>
         </View>
+
+        {agent.status !== 'revoked' && (
+          <View style={styles.secretRow}>
+            <View style={styles.secretInfo}>
+              <Text style={styles.secretLabel}>Auth Secret</Text>
+              <Text style={styles.agentMeta}>
+                {agent.secretUpdatedAt
+                  ? `Issued ${formatDate(agent.secretUpdatedAt)}`
+                  : 'Not issued on this device'}
+              </Text>
+            </View>
+            <TouchableOpacity
+              style={styles.rotateButton}
+              onPress={handleRotateSecret}
+              disabled={!wallet || isRotating}
+              activeOpacity={0.7}
+            >
+              {isRotating ? (
+                <ActivityIndicator size="small" color="#8b5cf6" />
+              ) : (
+                <Text style={[styles.rotateButtonText, !wallet && styles.rotateButtonDisabled]}>
+                  Rotate
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
 
       {/* Sessions Section */}
@@ -271,12 +417,23 @@ export function AgentDetailScreen({ route }: Props) {
         }
       />
 
-      {/* Unpair Button */}
-      <View style={styles.footer}>
-        <TouchableOpacity style={styles.unpairButton} onPress={handleUnpair} activeOpacity={0.7}>
-          <Text style={styles.unpairButtonText}>Unpair Agent</Text>
-        </TouchableOpacity>
-      </View>
+      {/* Unpair Button (archived agents are kept read-only) */}
+      {!agent.archivedAt && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={styles.unpairButton}
+            onPress={handleUnpair}
+            disabled={isUnpairing}
+            activeOpacity={0.7}
+          >
+            {isUnpairing ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.unpairButtonText}>Unpair Agent</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 }
@@ -354,6 +511,40 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#2a2a2a',
   },
+  secretRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  secretInfo: {
+    flex: 1,
+  },
+  secretLabel: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  rotateButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    minWidth: 80,
+    alignItems: 'center',
+  },
+  rotateButtonText: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rotateButtonDisabled: {
+    color: '#4a4a4a',
+  },
   statItem: {
     flex: 1,
     alignItems: 'center',
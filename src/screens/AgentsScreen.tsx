@@ -2,7 +2,7 @@
  * AgentsScreen - List of paired AI agents with status indicators
  */
 
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   StyleSheet,
   Text,
@@ -16,6 +16,8 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import type { TabScreenProps } from '../types/navigation';
 import type { Agent } from '../types';
 import { useAgentStore } from '../store/useAgentStore';
+import { useSessionStore } from '../store/useSessionStore';
+import { useActiveWallet } from '../hooks/useActiveWallet';
 
 type Props = TabScreenProps<'Agents'>;
 
@@ -83,7 +85,17 @@ function EmptyState() {
 
 export function AgentsScreen(_props: Props) {
   const navigation = useNavigation();
-  const { agents, isLoading, loadAgents } = useAgentStore();
+  const { agents: allAgents, isLoading, loadAgents } = useAgentStore();
+  const wallet = useActiveWallet();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const pendingCount = useSessionStore((state) => state.pendingRequests.length);
+
+  // Only agents paired with the active wallet; unpaired agents are listed on request
+  const walletAgents = allAgents.filter((a) => a.walletPubkey === wallet?.publicKey);
+  const archivedAgents = walletAgents.filter((a) => a.archivedAt);
+  const pairedAgents = walletAgents.filter((a) => !a.archivedAt);
+  const agents = showArchived ? [...pairedAgents, ...archivedAgents] : pairedAgents;
 
   // Load agents on mount and when screen is focused
   useFocusEffect(
@@ -92,7 +104,7 @@ export function AgentsScreen(_props: Props) {
     }, [loadAgents])
   );
 
-  // Set up header with Pair button
+  // Set up header with Revoke All and Pair buttons
   useEffect(() => {
     navigation.setOptions({
       headerShown: true,
@@ -102,18 +114,26 @@ export function AgentsScreen(_props: Props) {
       },
       headerTintColor: '#ffffff',
       headerRight: () => (
-        <TouchableOpacity
-          style={styles.headerButton}
-          onPress={() => navigation.navigate('PairAgent')}
-        >
-          <Text style={styles.headerButtonText}>+ Pair</Text>
-        </TouchableOpacity>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={[styles.headerButton, styles.headerDangerButton]}
+            onPress={() => navigation.navigate('RevokeAll')}
+          >
+            <Text style={styles.headerButtonText}>Revoke All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.navigate('PairAgent')}
+          >
+            <Text style={styles.headerButtonText}>+ Pair</Text>
+          </TouchableOpacity>
+        </View>
       ),
     });
   }, [navigation]);
 
   const handleAgentPress = (agent: Agent) => {
-    navigation.navigate('AgentDetail', { agentId: agent.id });
+    navigation.navigate('AgentDetail', { walletPubkey: agent.walletPubkey, agentId: agent.id });
   };
 
   const renderItem = ({ item }: { item: Agent }) => (
@@ -136,6 +156,33 @@ export function AgentsScreen(_props: Props) {
         renderItem={renderItem}
         contentContainerStyle={agents.length === 0 ? styles.emptyList : styles.listContent}
         ListEmptyComponent={EmptyState}
+        ListHeaderComponent={
+          pendingCount > 0 ? (
+            <TouchableOpacity
+              style={styles.inboxBanner}
+              onPress={() => navigation.navigate('SessionRequests')}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.inboxText}>
+                📥 {pendingCount} pending session {pendingCount === 1 ? 'request' : 'requests'}
+              </Text>
+              <Text style={styles.inboxArrow}>›</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+        ListFooterComponent={
+          archivedAgents.length > 0 ? (
+            <TouchableOpacity
+              style={styles.archivedToggle}
+              onPress={() => setShowArchived((shown) => !shown)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.archivedToggleText}>
+                {showArchived ? 'Hide' : 'Show'} unpaired agents ({archivedAgents.length})
+              </Text>
+            </TouchableOpacity>
+          ) : null
+        }
         refreshControl={
           <RefreshControl
             refreshing={isLoading}
@@ -167,6 +214,39 @@ const styles = StyleSheet.create({
   emptyList: {
     flex: 1,
   },
+  inboxBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#7c3aed',
+    padding: 16,
+    marginBottom: 12,
+  },
+  inboxText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  inboxArrow: {
+    color: '#8b5cf6',
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  archivedToggle: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  archivedToggleText: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  headerButtons: {
+    flexDirection: 'row',
+  },
   headerButton: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -174,6 +254,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginRight: 8,
   },
+  headerDangerButton: {
+    backgroundColor: '#ef4444',
+  },
   headerButtonText: {
     color: '#ffffff',
     fontSize: 14,
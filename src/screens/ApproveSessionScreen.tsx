@@ -12,10 +12,34 @@ import {
   ActivityIndicator,
   ScrollView,
   Platform,
+  TextInput,
 } from 'react-native';
 import type { RootStackScreenProps } from '../types/navigation';
 import type { SessionDetailsResponse, SpendingLimit } from '../types';
 import { api, OdysseyApiError, NetworkError } from '../services/api';
+import { signSessionApproval, createNonce } from '../services/signing';
+import { PasskeyError } from '../services/passkey';
+import {
+  diffTerms,
+  narrowPolicy,
+  validateCounterOffer,
+  type SessionTerms,
+  type TermChange,
+} from '../services/counterOffer';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { TokenIcon } from '../components/TokenIcon';
+import { PolicyRules } from '../components/PolicyRules';
+import { useWalletStore } from '../store/useWalletStore';
+import { useSessionStore } from '../store/useSessionStore';
+import {
+  shortenAddress,
+  formatFeeBps,
+  getTokenExtensions,
+  parseTokenAmount,
+  formatTokenAmount,
+  type TokenExtensions,
+} from '../services/solana';
 
 type Props = RootStackScreenProps<'ApproveSession'>;
 
@@ -28,9 +52,86 @@ type ScreenState =
   | { status: 'rejected' }
   | { status: 'error'; message: string };
 
+// Counter-offer editor state, aligned with the requested limits
+interface TermsDraft {
+  amounts: string[]; // Decimal amounts as typed
+  removed: boolean[];
+  durationSeconds: number;
+}
+
+// Durations offered when shortening a session
+const DURATION_PRESETS = [900, 3600, 14400, 86400, 604800];
+
+// Start a draft from the requested terms
+function createDraft(requested: SessionTerms): TermsDraft {
+  return {
+    amounts: requested.limits.map((l) =>
+      formatTokenAmount(BigInt(Math.floor(l.amount)), l.decimals)
+    ),
+    removed: requested.limits.map(() => false),
+    durationSeconds: requested.durationSeconds,
+  };
+}
+
+// Turn the draft into session terms, with the first problem if they can't be granted
+function draftToTerms(
+  requested: SessionTerms,
+  draft: TermsDraft
+): { terms: SessionTerms; error: string | null } {
+  const limits: SpendingLimit[] = [];
+  for (const [index, limit] of requested.limits.entries()) {
+    if (draft.removed[index]) continue;
+
+    const amount = parseTokenAmount(draft.amounts[index], limit.decimals);
+    if (amount === null) {
+      return { terms: requested, error: 'Enter a valid amount for every limit' };
+    }
+    limits.push({ ...limit, amount: Number(amount) });
+  }
+
+  const terms = { limits, durationSeconds: draft.durationSeconds };
+  return { terms, error: validateCounterOffer(requested, terms) };
+}
+
 export function ApproveSessionScreen({ route, navigation }: Props) {
   const { requestId } = route.params;
   const [state, setState] = useState<ScreenState>({ status: 'loading' });
+  const [draft, setDraft] = useState<TermsDraft | null>(null);
+  const activeWallet = useActiveWallet();
+  const { wallets } = useWalletStore();
+  const removePendingRequest = useSessionStore((state) => state.removePendingRequest);
+
+  // The request names the wallet it wants a session on; fall back to the active wallet
+  const requestedWalletPubkey =
+    state.status === 'loaded' ? state.details.session?.walletPubkey : undefined;
+  const wallet = requestedWalletPubkey
+    ? (wallets.find((w) => w.publicKey === requestedWalletPubkey) ?? null)
+    : activeWallet;
+
+  // Resolve on-chain names for the requested limits rather than trusting agent-supplied symbols
+  const limitMints =
+    state.status === 'loaded' ? (state.details.session?.limits ?? []).map((l) => l.mint) : [];
+  const tokenMetadata = useTokenMetadata(limitMints);
+
+  // Token-2022 fees and transfer restrictions change what a limit is actually worth
+  const [tokenExtensions, setTokenExtensions] = useState<Record<string, TokenExtensions>>({});
+  const limitMintsKey = limitMints.join(',');
+  useEffect(() => {
+    if (!limitMintsKey) return;
+    let mounted = true;
+
+    getTokenExtensions(limitMintsKey.split(','))
+      .then((extensions) => {
+        if (mounted) setTokenExtensions(extensions);
+      })
+      .catch(() => {
+        // Notes are informational; the limits can still be reviewed without them
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [limitMintsKey]);
 
   // Fetch session details on mount
   useEffect(() => {
@@ -42,6 +143,11 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
 
         if (!mounted) return;
 
+        // Answered elsewhere or lapsed; either way it no longer belongs in the inbox
+        if (details.status !== 'pending') {
+          removePendingRequest(requestId);
+        }
+
         // If already processed, show appropriate state
         if (details.status === 'approved') {
           setState({ status: 'approved' });
@@ -77,7 +183,7 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
     return () => {
       mounted = false;
     };
-  }, [requestId]);
+  }, [requestId, removePendingRequest]);
 
   // Handle approve
   const handleApprove = async () => {
@@ -86,24 +192,57 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
     setState({ status: 'approving' });
 
     try {
-      // For now, we'll use a placeholder signature
-      // In production, this would be signed by the wallet's passkey
-      const walletPubkey = state.details.session?.walletPubkey ?? '';
+      const session = state.details.session;
+      if (!session) {
+        throw new Error('Session request is missing its terms');
+      }
+
+      if (!wallet) {
+        throw new Error('The requested wallet is not on this device');
+      }
+
+      // A counter-offer replaces the requested terms
+      const { terms, error } = draft
+        ? draftToTerms(session, draft)
+        : { terms: session, error: null };
+      if (error) {
+        throw new Error(error);
+      }
+
+      // Sign the exact terms being granted with the wallet's passkey
+      const signed = await signSessionApproval(wallet, {
+        requestId,
+        walletPubkey: wallet.publicKey,
+        sessionPubkey: session.sessionPubkey,
+        limits: terms.limits,
+        durationSeconds: terms.durationSeconds,
+        expiresAt: Date.now() + terms.durationSeconds * 1000,
+        // Caps of tokens taken out of the counter-offer go with them
+        policy: narrowPolicy(session.policy, terms.limits),
+        nonce: createNonce(),
+      });
 
       await api.session.approve({
         requestId,
-        walletPubkey,
-        signature: 'placeholder-signature', // TODO: Sign with passkey
+        walletPubkey: wallet.publicKey,
+        ...signed,
       });
 
+      removePendingRequest(requestId);
       setState({ status: 'approved' });
     } catch (error) {
       let message = 'Failed to approve session';
 
-      if (error instanceof OdysseyApiError) {
+      if (error instanceof PasskeyError && error.code === 'cancelled') {
+        // User dismissed the passkey prompt - return to the request
+        setState({ status: 'loaded', details: state.details });
+        return;
+      } else if (error instanceof OdysseyApiError || error instanceof PasskeyError) {
         message = error.message;
       } else if (error instanceof NetworkError) {
         message = 'Network error. Please check your connection.';
+      } else if (error instanceof Error) {
+        message = error.message;
       }
 
       setState({ status: 'error', message });
@@ -116,6 +255,7 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
 
     try {
       await api.session.reject(requestId);
+      removePendingRequest(requestId);
       setState({ status: 'rejected' });
     } catch (error) {
       let message = 'Failed to reject session';
@@ -138,10 +278,25 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
   // Format spending limit for display
   const formatLimit = (limit: SpendingLimit): string => {
     const amount = limit.amount / Math.pow(10, limit.decimals);
-    const symbol = limit.symbol ?? (limit.mint === 'native' ? 'SOL' : 'tokens');
+    const symbol =
+      tokenMetadata[limit.mint]?.symbol ??
+      limit.symbol ??
+      (limit.mint === 'native' ? 'SOL' : 'tokens');
     return `${amount.toLocaleString()} ${symbol}`;
   };
 
+  // Describe Token-2022 extensions that affect a limit
+  const formatLimitNote = (limit: SpendingLimit): string | null => {
+    const extensions = tokenExtensions[limit.mint];
+    if (extensions?.nonTransferable) {
+      return 'Non-transferable token - this limit cannot be spent';
+    }
+    if (extensions?.transferFeeBps) {
+      return `Transfers pay a ${formatFeeBps(extensions.transferFeeBps)} token fee`;
+    }
+    return null;
+  };
+
   // Format duration for display
   const formatDuration = (seconds: number): string => {
     if (seconds < 60) {
@@ -241,6 +396,27 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
   const { details } = state;
   const session = details.session;
 
+  // Counter-offer, compared against what the agent asked for
+  const amended = session && draft ? draftToTerms(session, draft) : null;
+  const changes = session && amended ? diffTerms(session, amended.terms) : [];
+  const durationOptions = session
+    ? [...DURATION_PRESETS.filter((d) => d < session.durationSeconds), session.durationSeconds]
+    : [];
+
+  const updateDraft = (updates: Partial<TermsDraft>) =>
+    setDraft((current) => (current ? { ...current, ...updates } : current));
+
+  const formatChange = (change: TermChange): string => {
+    switch (change.kind) {
+      case 'limit_reduced':
+        return `${formatLimit(change.limit)} → ${formatLimit({ ...change.limit, amount: change.amount })}`;
+      case 'limit_removed':
+        return `${formatLimit(change.limit)} removed`;
+      case 'duration_shortened':
+        return `Duration ${formatDuration(change.from)} → ${formatDuration(change.to)}`;
+    }
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
@@ -256,14 +432,90 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
           <Text style={styles.agentName}>{details.agentName ?? 'Unknown Agent'}</Text>
         </View>
 
+        {/* Wallet being committed */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>Wallet</Text>
+          {wallet ? (
+            <>
+              <Text style={styles.walletName}>{wallet.name}</Text>
+              <Text style={styles.walletAddress}>{shortenAddress(wallet.publicKey, 6)}</Text>
+            </>
+          ) : (
+            <Text style={styles.walletMissing}>
+              {requestedWalletPubkey
+                ? `${shortenAddress(requestedWalletPubkey, 6)} is not on this device`
+                : 'No wallet selected'}
+            </Text>
+          )}
+        </View>
+
+        {/* Counter-offer toggle, for the limits and the duration */}
+        {session && (
+          <View style={styles.termsHeader}>
+            <Text style={styles.termsTitle}>Requested Terms</Text>
+            <TouchableOpacity
+              onPress={() => setDraft(draft ? null : createDraft(session))}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.editText}>{draft ? 'Reset to Request' : 'Edit Terms'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Spending Limits */}
         {session?.limits && session.limits.length > 0 && (
           <View style={styles.card}>
             <Text style={styles.cardLabel}>Spending Limits</Text>
             {session.limits.map((limit, index) => (
-              <View key={`${limit.mint}-${index}`} style={styles.limitRow}>
-                <Text style={styles.limitIcon}>💰</Text>
-                <Text style={styles.limitAmount}>{formatLimit(limit)}</Text>
+              <View
+                key={`${limit.mint}-${index}`}
+                style={[styles.limitRow, draft?.removed[index] && styles.limitRemoved]}
+              >
+                <View style={styles.limitIcon}>
+                  <TokenIcon
+                    symbol={tokenMetadata[limit.mint]?.symbol ?? limit.symbol ?? null}
+                    logoUri={tokenMetadata[limit.mint]?.logoUri ?? null}
+                    size={28}
+                  />
+                </View>
+                <View style={styles.limitInfo}>
+                  {draft && !draft.removed[index] ? (
+                    <TextInput
+                      style={styles.limitInput}
+                      value={draft.amounts[index]}
+                      onChangeText={(text) =>
+                        updateDraft({
+                          amounts: draft.amounts.map((a, i) => (i === index ? text : a)),
+                        })
+                      }
+                      keyboardType="decimal-pad"
+                      placeholder="0"
+                      placeholderTextColor="#666666"
+                    />
+                  ) : (
+                    <Text style={styles.limitAmount}>{formatLimit(limit)}</Text>
+                  )}
+                  {draft && !draft.removed[index] && (
+                    <Text style={styles.limitNote}>Requested {formatLimit(limit)}</Text>
+                  )}
+                  {!draft && formatLimitNote(limit) && (
+                    <Text style={styles.limitNote}>{formatLimitNote(limit)}</Text>
+                  )}
+                </View>
+                {draft && (
+                  <TouchableOpacity
+                    onPress={() =>
+                      updateDraft({
+                        removed: draft.removed.map((r, i) => (i === index ? !r : r)),
+                      })
+                    }
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.editText}>
+                      {draft.removed[index] ? 'Restore' : 'Remove'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             ))}
           </View>
@@ -273,10 +525,49 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
         {session?.durationSeconds && (
           <View style={styles.card}>
             <Text style={styles.cardLabel}>Duration</Text>
-            <View style={styles.durationRow}>
-              <Text style={styles.durationIcon}>⏱</Text>
-              <Text style={styles.durationText}>{formatDuration(session.durationSeconds)}</Text>
-            </View>
+            {draft ? (
+              <View style={styles.durationOptions}>
+                {durationOptions.map((seconds) => (
+                  <TouchableOpacity
+                    key={seconds}
+                    style={[
+                      styles.durationChip,
+                      draft.durationSeconds === seconds && styles.durationChipSelected,
+                    ]}
+                    onPress={() => updateDraft({ durationSeconds: seconds })}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.durationChipText}>{formatDuration(seconds)}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <View style={styles.durationRow}>
+                <Text style={styles.durationIcon}>⏱</Text>
+                <Text style={styles.durationText}>{formatDuration(session.durationSeconds)}</Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {/* Policy */}
+        {session && (
+          <PolicyRules
+            policy={amended ? narrowPolicy(session.policy, amended.terms.limits) : session.policy}
+            limits={session.limits}
+          />
+        )}
+
+        {/* Counter-offer summary */}
+        {amended && (amended.error || changes.length > 0) && (
+          <View style={styles.card}>
+            <Text style={styles.cardLabel}>Your Counter-Offer</Text>
+            {changes.map((change, index) => (
+              <Text key={index} style={styles.changeText}>
+                • {formatChange(change)}
+              </Text>
+            ))}
+            {amended.error && <Text style={styles.changeError}>{amended.error}</Text>}
           </View>
         )}
 
@@ -299,8 +590,18 @@ export function ApproveSessionScreen({ route, navigation }: Props) {
           <Text style={styles.rejectButtonText}>Reject</Text>
         </TouchableOpacity>
 
-        <TouchableOpacity style={styles.approveButton} onPress={handleApprove} activeOpacity={0.7}>
-          <Text style={styles.approveButtonText}>Approve</Text>
+        <TouchableOpacity
+          style={[
+            styles.approveButton,
+            (!wallet || amended?.error) && styles.approveButtonDisabled,
+          ]}
+          onPress={handleApprove}
+          disabled={!wallet || !!amended?.error}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.approveButtonText}>
+            {changes.length > 0 ? 'Approve Changes' : 'Approve'}
+          </Text>
         </TouchableOpacity>
       </View>
     </View>
@@ -365,24 +666,108 @@ const styles = StyleSheet.create({
     fontSize: 20,
     fontWeight: '600',
   },
+  walletName: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  walletAddress: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  walletMissing: {
+    color: '#ef4444',
+    fontSize: 16,
+  },
+  termsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+    paddingHorizontal: 4,
+  },
+  termsTitle: {
+    color: '#888888',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  editText: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   limitRow: {
     flexDirection: 'row',
     alignItems: 'center',
     paddingVertical: 8,
   },
+  limitRemoved: {
+    opacity: 0.4,
+  },
+  limitInput: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    color: '#ffffff',
+    fontSize: 18,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    marginRight: 12,
+  },
   limitIcon: {
-    fontSize: 20,
     marginRight: 12,
   },
+  limitInfo: {
+    flex: 1,
+  },
   limitAmount: {
     color: '#ffffff',
     fontSize: 18,
     fontWeight: '500',
   },
+  limitNote: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginTop: 2,
+  },
   durationRow: {
     flexDirection: 'row',
     alignItems: 'center',
   },
+  durationOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  durationChip: {
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  durationChipSelected: {
+    backgroundColor: '#7c3aed',
+    borderColor: '#7c3aed',
+  },
+  durationChipText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  changeText: {
+    color: '#ffffff',
+    fontSize: 15,
+    marginBottom: 6,
+  },
+  changeError: {
+    color: '#ef4444',
+    fontSize: 14,
+    marginTop: 4,
+  },
   durationIcon: {
     fontSize: 20,
     marginRight: 12,
@@ -452,6 +837,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  approveButtonDisabled: {
+    backgroundColor: '#4a4a4a',
+  },
   approveButtonText: {
     color: '#ffffff',
     fontSize: 18,
@@ -7,15 +7,15 @@ import {
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
-import * as SecureStore from 'expo-secure-store';
-import type { RootStackScreenProps, StoredWallet } from '../types';
+import type { RootStackScreenProps } from '../types';
+import { createPasskeyWallet } from '../services/wallet';
+import { PasskeyError } from '../services/passkey';
+import { useWalletStore } from '../store/useWalletStore';
 
 type Props = RootStackScreenProps<'Onboarding'>;
 
 type OnboardingState = 'welcome' | 'creating' | 'success';
 
-const WALLET_STORAGE_KEY = 'odyssey_wallet';
-
 /**
  * Feature highlight component
  */
@@ -39,38 +39,10 @@ function FeatureItem({
   );
 }
 
-/**
- * Simulates passkey wallet creation
- * TODO: Integrate real Lazorkit passkey creation
- */
-async function createPasskeyWallet(): Promise<StoredWallet> {
-  // Simulate passkey creation delay
-  await new Promise((resolve) => setTimeout(resolve, 2000));
-
-  // Generate a mock wallet (in production, this comes from Lazorkit)
-  const mockPublicKey = Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 256)
-      .toString(16)
-      .padStart(2, '0')
-  )
-    .join('')
-    .slice(0, 44);
-
-  const mockCredentialId = `passkey_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-
-  const wallet: StoredWallet = {
-    publicKey: mockPublicKey,
-    createdAt: Date.now(),
-    name: 'Main Wallet',
-    credentialId: mockCredentialId,
-  };
-
-  return wallet;
-}
-
 export function OnboardingScreen({ navigation }: Props) {
   const [state, setState] = useState<OnboardingState>('welcome');
   const [error, setError] = useState<string | null>(null);
+  const { addWallet } = useWalletStore();
 
   const handleCreateWallet = useCallback(async () => {
     try {
@@ -81,7 +53,10 @@ export function OnboardingScreen({ navigation }: Props) {
       const wallet = await createPasskeyWallet();
 
       // Store wallet in secure storage
-      await SecureStore.setItemAsync(WALLET_STORAGE_KEY, JSON.stringify(wallet));
+      const saved = await addWallet(wallet);
+      if (!saved) {
+        throw new Error(useWalletStore.getState().error ?? 'Failed to save wallet');
+      }
 
       // Show success state
       setState('success');
@@ -91,10 +66,14 @@ export function OnboardingScreen({ navigation }: Props) {
         navigation.replace('Main', { screen: 'Wallet' });
       }, 1500);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to create wallet');
+      if (err instanceof PasskeyError && err.code === 'cancelled') {
+        setError('Passkey creation was cancelled');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to create wallet');
+      }
       setState('welcome');
     }
-  }, [navigation]);
+  }, [navigation, addWallet]);
 
   if (state === 'creating') {
     return (
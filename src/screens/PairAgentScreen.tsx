@@ -1,5 +1,7 @@
 /**
- * PairAgentScreen - Pair a new AI agent with code input and polling
+ * PairAgentScreen - Pair a new AI agent
+ * Shows a phone-issued code, waits for the agent to claim it, then asks the user to
+ * confirm the agent's name and fingerprint before approving with the passkey
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -7,151 +9,175 @@ import {
   StyleSheet,
   Text,
   View,
-  TextInput,
   TouchableOpacity,
   ActivityIndicator,
-  KeyboardAvoidingView,
   Platform,
 } from 'react-native';
 import type { RootStackScreenProps } from '../types/navigation';
-import type { Agent, PairingStatusResponse } from '../types';
+import type { PairingAgentRequest } from '../types';
 import { api, OdysseyApiError, NetworkError } from '../services/api';
-import { useAgentStore } from '../store/useAgentStore';
+import {
+  confirmPairing,
+  formatPairingCode,
+  generatePairingCode,
+  normalizePairingCode,
+  pairingFingerprint,
+} from '../services/pairing';
+import { PasskeyError } from '../services/passkey';
+import { addWalletEventListener, isEventStreamConnected } from '../services/events';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { shortenAddress } from '../services/solana';
 
 type Props = RootStackScreenProps<'PairAgent'>;
 
 type PairingState =
-  | { status: 'idle' }
-  | { status: 'submitting' }
-  | { status: 'polling'; requestId: string }
+  | { status: 'creating' }
+  | { status: 'waiting'; code: string; expiresAt: number }
+  | { status: 'confirm'; code: string; request: PairingAgentRequest; approving: boolean }
   | { status: 'success'; agentName: string }
   | { status: 'error'; message: string };
 
 const POLL_INTERVAL_MS = 2000;
-const MAX_POLL_DURATION_MS = 120000; // 2 minutes
 
-export function PairAgentScreen({ navigation }: Props) {
-  const [code, setCode] = useState('');
-  const [pairingState, setPairingState] = useState<PairingState>({ status: 'idle' });
+function errorMessage(error: unknown, fallback: string): string {
+  if (error instanceof OdysseyApiError) return error.message;
+  if (error instanceof NetworkError) return 'Network error. Please check your connection.';
+  return error instanceof Error ? error.message : fallback;
+}
+
+export function PairAgentScreen({ route, navigation }: Props) {
+  // A code from an agent's QR code or link is used instead of a generated one
+  const scannedCode = route.params?.code ? normalizePairingCode(route.params.code) : null;
+  const [pairingState, setPairingState] = useState<PairingState>({ status: 'creating' });
+  const [attempt, setAttempt] = useState(0);
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const pollStartRef = useRef<number>(0);
 
-  const { addAgent } = useAgentStore();
+  const { agents, addAgent, updateAgent } = useAgentStore();
+  const wallet = useActiveWallet();
+  const walletPubkey = wallet?.publicKey ?? null;
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-      }
-    };
+  const stopPolling = useCallback(() => {
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current);
+      pollIntervalRef.current = null;
+    }
   }, []);
 
-  // Poll for pairing approval
-  const startPolling = useCallback(
-    (requestId: string) => {
-      pollStartRef.current = Date.now();
+  // Register a code, then wait for an agent to claim it
+  // The claim normally arrives over the event stream; polling covers a disconnected stream
+  useEffect(() => {
+    if (!walletPubkey) return;
+    let mounted = true;
+    let claimed = false;
+    const code = scannedCode ?? generatePairingCode();
+
+    const claim = (request: PairingAgentRequest) => {
+      if (!mounted || claimed) return;
+      claimed = true;
+      stopPolling();
+      setPairingState({ status: 'confirm', code, request, approving: false });
+    };
 
-      const poll = async () => {
-        // Check timeout
-        if (Date.now() - pollStartRef.current > MAX_POLL_DURATION_MS) {
-          if (pollIntervalRef.current) {
-            clearInterval(pollIntervalRef.current);
+    // Listen before registering, so an immediate claim is not missed
+    const unsubscribe = addWalletEventListener((event) => {
+      if (
+        event.type === 'pairing_requested' &&
+        event.walletPubkey === walletPubkey &&
+        normalizePairingCode(event.code) === code
+      ) {
+        claim(event.request);
+      }
+    });
+
+    const start = async () => {
+      try {
+        const offer = await api.pairing.createOffer({ code, walletPubkey });
+        if (!mounted || claimed) return;
+        setPairingState({ status: 'waiting', code: offer.code, expiresAt: offer.expiresAt });
+
+        const poll = async () => {
+          if (Date.now() > offer.expiresAt) {
+            stopPolling();
+            setPairingState({ status: 'error', message: 'Pairing code expired' });
+            return;
           }
-          setPairingState({ status: 'error', message: 'Pairing request timed out' });
-          return;
-        }
-
-        try {
-          const response: PairingStatusResponse = await api.pairing.getStatus(requestId);
-
-          switch (response.status) {
-            case 'approved': {
-              if (pollIntervalRef.current) {
-                clearInterval(pollIntervalRef.current);
-              }
-
-              // Add agent to store
-              const newAgent: Agent = {
-                id: response.agentId ?? requestId,
-                name: response.agentName ?? 'Unknown Agent',
-                pairedAt: Date.now(),
-                lastSeen: null,
-                status: 'active',
-              };
-              await addAgent(newAgent);
-
-              setPairingState({
-                status: 'success',
-                agentName: response.agentName ?? 'Unknown Agent',
-              });
-              break;
-            }
+          if (isEventStreamConnected(walletPubkey)) return;
+
+          try {
+            const response = await api.pairing.getOffer(offer.code);
+            if (!mounted) return;
 
-            case 'rejected':
-              if (pollIntervalRef.current) {
-                clearInterval(pollIntervalRef.current);
-              }
-              setPairingState({ status: 'error', message: 'Pairing request was rejected' });
-              break;
-
-            case 'expired':
-              if (pollIntervalRef.current) {
-                clearInterval(pollIntervalRef.current);
-              }
-              setPairingState({ status: 'error', message: 'Pairing request expired' });
-              break;
-
-            case 'pending':
-              // Keep polling
-              break;
+            if (response.status === 'requested' && response.request) {
+              claim(response.request);
+            } else if (response.status === 'expired') {
+              stopPolling();
+              setPairingState({ status: 'error', message: 'Pairing code expired' });
+            }
+          } catch {
+            // Don't stop polling on network errors, silently retry
           }
-        } catch {
-          // Don't stop polling on network errors, silently retry
-        }
-      };
-
-      // Initial poll
-      poll();
-
-      // Start interval
-      pollIntervalRef.current = setInterval(poll, POLL_INTERVAL_MS);
-    },
-    [addAgent]
-  );
-
-  // Submit pairing code
-  const handleSubmit = async () => {
-    const trimmedCode = code.trim();
-    if (!trimmedCode) {
-      setPairingState({ status: 'error', message: 'Please enter a pairing code' });
-      return;
-    }
+        };
+
+        pollIntervalRef.current = setInterval(poll, POLL_INTERVAL_MS);
+      } catch (error) {
+        if (!mounted) return;
+        setPairingState({
+          status: 'error',
+          message: errorMessage(error, 'Failed to start pairing'),
+        });
+      }
+    };
 
-    setPairingState({ status: 'submitting' });
+    start();
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+      stopPolling();
+    };
+  }, [walletPubkey, scannedCode, attempt, stopPolling]);
 
+  // Approve with the passkey after the user checked the fingerprint
+  const handleApprove = async () => {
+    if (pairingState.status !== 'confirm' || !wallet) return;
+    const { request } = pairingState;
+
+    setPairingState({ ...pairingState, approving: true });
     try {
-      // The code entered is the requestId from the agent's pairing request
-      // We poll its status to see when the agent completes the pairing
-      setPairingState({ status: 'polling', requestId: trimmedCode });
-      startPolling(trimmedCode);
+      const agent = await confirmPairing(wallet, request);
+      if (agents.some((a) => isAgentPairing(a, agent.walletPubkey, agent.id))) {
+        // Re-pairing a known (possibly unpaired) agent with the same wallet replaces its
+        // record, which may carry a new name; a pairing with another wallet is its own record
+        await updateAgent(agent.walletPubkey, agent.id, { ...agent, archivedAt: null });
+      } else {
+        await addAgent(agent);
+      }
+      setPairingState({ status: 'success', agentName: agent.name });
     } catch (error) {
-      let message = 'Failed to start pairing';
-
-      if (error instanceof OdysseyApiError) {
-        message = error.message;
-      } else if (error instanceof NetworkError) {
-        message = 'Network error. Please check your connection.';
+      if (error instanceof PasskeyError && error.code === 'cancelled') {
+        setPairingState({ ...pairingState, approving: false });
+        return;
       }
+      setPairingState({ status: 'error', message: errorMessage(error, 'Failed to pair agent') });
+    }
+  };
+
+  const handleReject = async () => {
+    if (pairingState.status !== 'confirm') return;
 
-      setPairingState({ status: 'error', message });
+    try {
+      await api.pairing.reject(pairingState.request.requestId);
+    } catch {
+      // The request expires on its own if the rejection does not get through
     }
+    navigation.goBack();
   };
 
-  // Handle retry
+  // Handle retry with a fresh code
   const handleRetry = () => {
-    setCode('');
-    setPairingState({ status: 'idle' });
+    setPairingState({ status: 'creating' });
+    setAttempt((count) => count + 1);
   };
 
   // Handle done (success state)
@@ -161,57 +187,113 @@ export function PairAgentScreen({ navigation }: Props) {
 
   // Render based on state
   const renderContent = () => {
+    if (!wallet) {
+      return (
+        <View style={styles.statusContainer}>
+          <Text style={styles.statusTitle}>No Wallet</Text>
+          <Text style={styles.statusSubtitle}>Create a wallet before pairing an agent</Text>
+        </View>
+      );
+    }
+
     switch (pairingState.status) {
-      case 'idle':
-      case 'submitting':
+      case 'creating':
+        return (
+          <View style={styles.statusContainer}>
+            <ActivityIndicator size="large" color="#7c3aed" />
+            <Text style={styles.statusTitle}>Preparing Code</Text>
+          </View>
+        );
+
+      case 'waiting':
         return (
           <View style={styles.formContainer}>
             <Text style={styles.title}>Pair Agent</Text>
-            <Text style={styles.subtitle}>Enter the pairing code shown by your AI agent</Text>
-
-            <TextInput
-              style={styles.input}
-              value={code}
-              onChangeText={setCode}
-              placeholder="Enter pairing code"
-              placeholderTextColor="#666666"
-              autoCapitalize="characters"
-              autoCorrect={false}
-              editable={pairingState.status !== 'submitting'}
-            />
+            <Text style={styles.subtitle}>
+              {scannedCode
+                ? 'Waiting for the agent that showed this code'
+                : 'Enter this code in your AI agent to pair it with your wallet'}
+            </Text>
+
+            <View style={styles.walletCard}>
+              <Text style={styles.walletLabel}>Pairing code</Text>
+              <Text style={styles.codeText} selectable>
+                {formatPairingCode(pairingState.code)}
+              </Text>
+              <Text style={styles.codeExpiry}>
+                Expires at {new Date(pairingState.expiresAt).toLocaleTimeString()}
+              </Text>
+            </View>
+
+            <View style={styles.walletCard}>
+              <Text style={styles.walletLabel}>Pairing with</Text>
+              <Text style={styles.walletName}>{wallet.name}</Text>
+              <Text style={styles.walletAddress}>{shortenAddress(wallet.publicKey, 6)}</Text>
+            </View>
+
+            <View style={styles.waitingRow}>
+              <ActivityIndicator color="#7c3aed" />
+              <Text style={styles.waitingText}>Waiting for agent...</Text>
+            </View>
+
+            {!scannedCode && (
+              <TouchableOpacity
+                style={styles.scanButton}
+                onPress={() => navigation.replace('Scan')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.scanButtonText}>Scan Agent QR Code Instead</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+
+      case 'confirm': {
+        const { request, code, approving } = pairingState;
+        return (
+          <View style={styles.formContainer}>
+            <Text style={styles.title}>Confirm Agent</Text>
+            <Text style={styles.subtitle}>
+              Only approve if the fingerprint matches the one your agent shows
+            </Text>
+
+            <View style={styles.walletCard}>
+              <Text style={styles.walletLabel}>Agent</Text>
+              <Text style={styles.walletName}>{request.agentName}</Text>
+              <Text style={styles.agentId} numberOfLines={1}>
+                {request.agentId}
+              </Text>
+            </View>
+
+            <View style={[styles.walletCard, styles.fingerprintCard]}>
+              <Text style={styles.walletLabel}>Fingerprint</Text>
+              <Text style={styles.codeText}>{pairingFingerprint(code, request)}</Text>
+            </View>
 
             <TouchableOpacity
-              style={[
-                styles.submitButton,
-                (!code.trim() || pairingState.status === 'submitting') &&
-                  styles.submitButtonDisabled,
-              ]}
-              onPress={handleSubmit}
-              disabled={!code.trim() || pairingState.status === 'submitting'}
+              style={[styles.submitButton, approving && styles.submitButtonDisabled]}
+              onPress={handleApprove}
+              disabled={approving}
               activeOpacity={0.7}
             >
-              {pairingState.status === 'submitting' ? (
+              {approving ? (
                 <ActivityIndicator color="#ffffff" />
               ) : (
-                <Text style={styles.submitButtonText}>Submit</Text>
+                <Text style={styles.submitButtonText}>Approve with Passkey</Text>
               )}
             </TouchableOpacity>
-          </View>
-        );
-
-      case 'polling':
-        return (
-          <View style={styles.statusContainer}>
-            <ActivityIndicator size="large" color="#7c3aed" />
-            <Text style={styles.statusTitle}>Waiting for Agent</Text>
-            <Text style={styles.statusSubtitle}>Waiting for the agent to complete pairing...</Text>
-            <Text style={styles.statusCode}>Code: {pairingState.requestId}</Text>
 
-            <TouchableOpacity style={styles.cancelButton} onPress={handleRetry}>
-              <Text style={styles.cancelButtonText}>Cancel</Text>
+            <TouchableOpacity
+              style={styles.scanButton}
+              onPress={handleReject}
+              disabled={approving}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.rejectButtonText}>Reject</Text>
             </TouchableOpacity>
           </View>
         );
+      }
 
       case 'success':
         return (
@@ -243,14 +325,7 @@ export function PairAgentScreen({ navigation }: Props) {
     }
   };
 
-  return (
-    <KeyboardAvoidingView
-      style={styles.container}
-      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
-    >
-      {renderContent()}
-    </KeyboardAvoidingView>
-  );
+  return <View style={styles.container}>{renderContent()}</View>;
 }
 
 const styles = StyleSheet.create({
@@ -277,17 +352,64 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     lineHeight: 24,
   },
-  input: {
+  walletCard: {
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
     padding: 16,
-    fontSize: 18,
-    color: '#ffffff',
     borderWidth: 1,
     borderColor: '#2a2a2a',
     marginBottom: 24,
-    textAlign: 'center',
-    letterSpacing: 2,
+    alignItems: 'center',
+  },
+  walletLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 6,
+  },
+  walletName: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  walletAddress: {
+    color: '#8b5cf6',
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  codeText: {
+    color: '#ffffff',
+    fontSize: 32,
+    fontWeight: '700',
+    letterSpacing: 4,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 6,
+  },
+  codeExpiry: {
+    color: '#666666',
+    fontSize: 13,
+  },
+  agentId: {
+    color: '#666666',
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  fingerprintCard: {
+    borderColor: '#7c3aed',
+  },
+  waitingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  waitingText: {
+    color: '#888888',
+    fontSize: 15,
   },
   submitButton: {
     backgroundColor: '#7c3aed',
@@ -305,6 +427,21 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  scanButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  scanButtonText: {
+    color: '#8b5cf6',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  rejectButtonText: {
+    color: '#ef4444',
+    fontSize: 16,
+    fontWeight: '500',
+  },
   statusContainer: {
     flex: 1,
     padding: 24,
@@ -326,23 +463,6 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     lineHeight: 24,
   },
-  statusCode: {
-    color: '#666666',
-    fontSize: 14,
-    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
-    marginBottom: 32,
-  },
-  cancelButton: {
-    paddingHorizontal: 32,
-    paddingVertical: 12,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#4a4a4a',
-  },
-  cancelButtonText: {
-    color: '#888888',
-    fontSize: 16,
-  },
   successIcon: {
     fontSize: 64,
     color: '#22c55e',
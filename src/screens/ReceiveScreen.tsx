@@ -1,18 +1,70 @@
-import { useCallback, useState } from 'react';
-import { StyleSheet, Text, View, TouchableOpacity, Alert, Share, ScrollView } from 'react-native';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Alert,
+  Share,
+  ScrollView,
+  Switch,
+  TextInput,
+} from 'react-native';
 import type { RootStackScreenProps } from '../types/navigation';
 import { shortenAddress } from '../services/solana';
+import { encodeTransferRequestUrl } from '../services/solanaPay';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { useBalances } from '../hooks/useBalances';
+import { QRCode } from '../components/QRCode';
 
 type Props = RootStackScreenProps<'Receive'>;
 
-// Mock wallet data
-const MOCK_WALLET_ADDRESS = '7NpVxKv7z8yKPQWnqvWhcEz8xKZcvqRK9wNbK3vKz9mH';
-
 export function ReceiveScreen(_props: Props) {
   const [copied, setCopied] = useState(false);
+  const walletAddress = useActiveWallet()?.publicKey ?? '';
+  const { balances } = useBalances();
+
+  // Solana Pay request options
+  const [requestEnabled, setRequestEnabled] = useState(false);
+  const [requestMint, setRequestMint] = useState('native');
+  const [requestAmount, setRequestAmount] = useState('');
+  const [requestLabel, setRequestLabel] = useState('');
+  const [requestMemo, setRequestMemo] = useState('');
+
+  // Tokens the wallet already holds are offered as request currencies
+  const tokenOptions = useMemo(
+    () => [
+      { mint: 'native', symbol: 'SOL' },
+      ...balances
+        .filter((b) => b.mint !== 'native' && !b.nonTransferable)
+        .map((b) => ({ mint: b.mint, symbol: b.symbol ?? shortenAddress(b.mint, 4) })),
+    ],
+    [balances]
+  );
+
+  const { qrValue, requestError } = useMemo(() => {
+    if (!requestEnabled || !walletAddress) {
+      return { qrValue: walletAddress, requestError: null };
+    }
+    try {
+      const url = encodeTransferRequestUrl({
+        recipient: walletAddress,
+        amount: requestAmount.trim() || undefined,
+        splToken: requestMint === 'native' ? undefined : requestMint,
+        label: requestLabel.trim() || undefined,
+        memo: requestMemo.trim() || undefined,
+      });
+      return { qrValue: url, requestError: null };
+    } catch (error) {
+      return {
+        qrValue: null,
+        requestError: error instanceof Error ? error.message : 'Invalid payment request',
+      };
+    }
+  }, [requestEnabled, walletAddress, requestAmount, requestMint, requestLabel, requestMemo]);
 
   const handleCopy = useCallback(async () => {
-    // In a real app, use Clipboard.setString(MOCK_WALLET_ADDRESS)
+    // In a real app, use Clipboard.setString(walletAddress)
     // For now, simulate the action
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
@@ -20,60 +72,103 @@ export function ReceiveScreen(_props: Props) {
   }, []);
 
   const handleShare = useCallback(async () => {
+    if (!qrValue) return;
     try {
       await Share.share({
-        message: MOCK_WALLET_ADDRESS,
-        title: 'My Solana Address',
+        message: qrValue,
+        title: requestEnabled ? 'Solana Pay Request' : 'My Solana Address',
       });
     } catch {
       // User cancelled or error occurred
     }
-  }, []);
+  }, [qrValue, requestEnabled]);
 
   return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>Receive SOL & Tokens</Text>
         <Text style={styles.subtitle}>Share your address to receive Solana assets</Text>
       </View>
 
-      {/* QR Code Placeholder */}
+      {/* QR Code */}
       <View style={styles.qrContainer}>
-        <View style={styles.qrPlaceholder}>
-          <View style={styles.qrGrid}>
-            {/* Simple QR-like pattern placeholder */}
-            {[...Array(7)].map((_, rowIndex) => (
-              <View key={rowIndex} style={styles.qrRow}>
-                {[...Array(7)].map((_, colIndex) => {
-                  const isCorner =
-                    (rowIndex < 3 && colIndex < 3) ||
-                    (rowIndex < 3 && colIndex > 3) ||
-                    (rowIndex > 3 && colIndex < 3);
-                  const isActive = isCorner || Math.random() > 0.5;
-                  return (
-                    <View
-                      key={colIndex}
-                      style={[
-                        styles.qrCell,
-                        isActive ? styles.qrCellActive : styles.qrCellInactive,
-                      ]}
-                    />
-                  );
-                })}
-              </View>
-            ))}
-          </View>
-          <Text style={styles.qrOverlayText}>QR Code</Text>
+        <View style={styles.qrFrame}>
+          {qrValue ? (
+            <QRCode value={qrValue} size={220} />
+          ) : (
+            <View style={styles.qrUnavailable}>
+              <Text style={styles.qrUnavailableText}>{requestError}</Text>
+            </View>
+          )}
         </View>
-        <Text style={styles.qrNote}>Scan this code to send tokens to this wallet</Text>
+        <Text style={styles.qrNote}>
+          {requestEnabled
+            ? 'Scan with a Solana Pay wallet to pay this request'
+            : 'Scan this code to send tokens to this wallet'}
+        </Text>
+      </View>
+
+      {/* Payment Request */}
+      <View style={styles.requestCard}>
+        <View style={styles.requestHeader}>
+          <Text style={styles.requestTitle}>Request a payment</Text>
+          <Switch
+            value={requestEnabled}
+            onValueChange={setRequestEnabled}
+            trackColor={{ false: '#2a2a2a', true: '#7c3aed' }}
+          />
+        </View>
+
+        {requestEnabled && (
+          <>
+            <View style={styles.tokenChips}>
+              {tokenOptions.map((option) => (
+                <TouchableOpacity
+                  key={option.mint}
+                  style={[styles.tokenChip, option.mint === requestMint && styles.tokenChipActive]}
+                  onPress={() => setRequestMint(option.mint)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.tokenChipText}>{option.symbol}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.requestInput}
+              value={requestAmount}
+              onChangeText={setRequestAmount}
+              placeholder="Amount (optional)"
+              placeholderTextColor="#666666"
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.requestInput}
+              value={requestLabel}
+              onChangeText={setRequestLabel}
+              placeholder="Label, e.g. your name (optional)"
+              placeholderTextColor="#666666"
+            />
+            <TextInput
+              style={styles.requestInput}
+              value={requestMemo}
+              onChangeText={setRequestMemo}
+              placeholder="Memo (optional)"
+              placeholderTextColor="#666666"
+            />
+          </>
+        )}
       </View>
 
       {/* Address Card */}
       <View style={styles.addressCard}>
         <Text style={styles.addressLabel}>Your Address</Text>
-        <Text style={styles.addressFull}>{MOCK_WALLET_ADDRESS}</Text>
-        <Text style={styles.addressShort}>{shortenAddress(MOCK_WALLET_ADDRESS, 8)}</Text>
+        <Text style={styles.addressFull}>{walletAddress}</Text>
+        <Text style={styles.addressShort}>{shortenAddress(walletAddress, 8)}</Text>
       </View>
 
       {/* Action Buttons */}
@@ -140,47 +235,80 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 32,
   },
-  qrPlaceholder: {
-    width: 200,
-    height: 200,
-    backgroundColor: '#ffffff',
+  qrFrame: {
     borderRadius: 16,
-    alignItems: 'center',
-    justifyContent: 'center',
+    overflow: 'hidden',
     marginBottom: 12,
-    padding: 16,
   },
-  qrGrid: {
-    flex: 1,
-    width: '100%',
+  qrUnavailable: {
+    width: 220,
+    height: 220,
+    backgroundColor: '#1a1a1a',
+    alignItems: 'center',
     justifyContent: 'center',
+    padding: 24,
+  },
+  qrUnavailableText: {
+    color: '#ef4444',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  qrNote: {
+    color: '#666666',
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  requestCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
   },
-  qrRow: {
+  requestHeader: {
     flexDirection: 'row',
-    justifyContent: 'center',
+    justifyContent: 'space-between',
+    alignItems: 'center',
   },
-  qrCell: {
-    width: 20,
-    height: 20,
-    margin: 2,
-    borderRadius: 2,
+  requestTitle: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
   },
-  qrCellActive: {
+  tokenChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  tokenChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
     backgroundColor: '#0a0a0a',
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
   },
-  qrCellInactive: {
-    backgroundColor: '#e5e5e5',
+  tokenChipActive: {
+    borderColor: '#8b5cf6',
+    backgroundColor: 'rgba(139, 92, 246, 0.15)',
   },
-  qrOverlayText: {
-    position: 'absolute',
-    color: '#888888',
-    fontSize: 12,
+  tokenChipText: {
+    color: '#ffffff',
+    fontSize: 14,
     fontWeight: '500',
   },
-  qrNote: {
-    color: '#666666',
-    fontSize: 13,
-    textAlign: 'center',
+  requestInput: {
+    backgroundColor: '#0a0a0a',
+    borderRadius: 12,
+    padding: 14,
+    color: '#ffffff',
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    marginTop: 8,
   },
   addressCard: {
     backgroundColor: '#1a1a1a',
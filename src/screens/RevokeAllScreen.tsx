@@ -0,0 +1,519 @@
+/**
+ * RevokeAllScreen - Emergency revocation of every agent's access
+ * Revokes all active sessions on every wallet on this device. Once a wallet's
+ * revocations are confirmed on-chain, marks its agents inactive and wipes their auth
+ * secrets. Reports progress for each session, and flags agents paired with wallets
+ * that are not on this device.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import type { RootStackScreenProps } from '../types/navigation';
+import type { Agent, RevocationStatus, Session } from '../types';
+import { useSessionStore } from '../store/useSessionStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { useWalletStore } from '../store/useWalletStore';
+import { deleteAgentSecret } from '../services/agentSecrets';
+import { PasskeyError } from '../services/passkey';
+import { isRevocationInProgress } from '../services/revocation';
+import { shortenAddress } from '../services/solana';
+
+type Props = RootStackScreenProps<'RevokeAll'>;
+
+// Progress of the signed revocation for one wallet
+type WalletProgress =
+  | { status: 'queued' }
+  | { status: 'signing' }
+  | { status: 'pending' } // Signed, still confirming
+  | { status: 'revoked' }
+  | { status: 'cancelled' }
+  | { status: 'failed'; message: string };
+
+type Phase = 'confirm' | 'running' | 'done';
+
+// Revocation progress labels
+const REVOCATION_LABELS: Record<RevocationStatus, { label: string; color: string }> = {
+  pending: { label: 'Waiting for server', color: '#f59e0b' },
+  submitted: { label: 'Confirming on-chain', color: '#3b82f6' },
+  confirmed: { label: 'Revoked', color: '#22c55e' },
+  failed: { label: 'Failed', color: '#ef4444' },
+};
+
+// Progress label for a session, before and after its wallet signed the revocation
+function sessionProgress(
+  session: Session,
+  wallet: WalletProgress | undefined
+): { label: string; color: string } {
+  if (session.revocation) {
+    return REVOCATION_LABELS[session.revocation.status];
+  }
+
+  switch (wallet?.status) {
+    case 'signing':
+      return { label: 'Waiting for passkey', color: '#8b5cf6' };
+    case 'cancelled':
+      return { label: 'Not revoked (cancelled)', color: '#ef4444' };
+    case 'failed':
+      return { label: 'Not revoked', color: '#ef4444' };
+    default:
+      return { label: 'Queued', color: '#888888' };
+  }
+}
+
+/**
+ * Cut a wallet's agents off locally once every revocation it signed is confirmed
+ * Until then the agents keep their secrets and status, so nothing reads as revoked early.
+ * @param sessionIds - Sessions of the wallet being revoked
+ */
+async function settleWallet(walletPubkey: string, sessionIds: string[]): Promise<WalletProgress> {
+  const walletSessions = useSessionStore
+    .getState()
+    .sessions.filter((s) => sessionIds.includes(s.id));
+
+  const rejected = walletSessions.find((s) => s.revocation?.status === 'failed');
+  if (rejected) {
+    return {
+      status: 'failed',
+      message: rejected.revocation?.lastError ?? 'The revocation was rejected',
+    };
+  }
+  if (walletSessions.some((s) => s.revocation?.status !== 'confirmed')) {
+    return { status: 'pending' };
+  }
+
+  const { agents, updateAgent } = useAgentStore.getState();
+  for (const agent of agents) {
+    if (agent.walletPubkey !== walletPubkey || agent.status === 'revoked') continue;
+    await deleteAgentSecret(agent.walletPubkey, agent.id);
+    await updateAgent(agent.walletPubkey, agent.id, { status: 'inactive', secretUpdatedAt: null });
+  }
+  return { status: 'revoked' };
+}
+
+// Agents whose wallet is not on this device, so nothing here can revoke them
+function UnreachableAgents({ agents }: { agents: Agent[] }) {
+  if (agents.length === 0) return null;
+
+  return (
+    <View style={[styles.card, styles.warningCard]}>
+      <Text style={styles.cardLabel}>Not revoked from this device</Text>
+      <Text style={styles.note}>
+        These agents are paired with wallets that are not on this phone. Revoke them from the device
+        that holds the wallet.
+      </Text>
+      {agents.map((agent) => (
+        <View key={`${agent.walletPubkey}:${agent.id}`} style={styles.sessionRow}>
+          <View style={styles.sessionInfo}>
+            <Text style={styles.sessionAgent}>{agent.name}</Text>
+            <Text style={styles.sessionKey}>{shortenAddress(agent.walletPubkey)}</Text>
+          </View>
+          <Text style={[styles.sessionStatus, { color: '#ef4444' }]}>Still paired</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export function RevokeAllScreen({ navigation }: Props) {
+  const wallets = useWalletStore((state) => state.wallets);
+  const agents = useAgentStore((state) => state.agents);
+  const sessions = useSessionStore((state) => state.sessions);
+  const revokeSessions = useSessionStore((state) => state.revokeSessions);
+  const loadSessions = useSessionStore((state) => state.loadSessions);
+  const loadAgents = useAgentStore((state) => state.loadAgents);
+
+  const [phase, setPhase] = useState<Phase>('confirm');
+  const [targetIds, setTargetIds] = useState<string[]>([]);
+  const [walletProgress, setWalletProgress] = useState<Record<string, WalletProgress>>({});
+  // Wallets whose local cleanup is running, so it starts only once
+  const settlingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    loadSessions();
+    loadAgents();
+  }, [loadSessions, loadAgents]);
+
+  // Only the wallet that approved a session or paired an agent can sign its revocation
+  const walletKeys = new Set(wallets.map((w) => w.publicKey));
+  const activeSessions = sessions.filter(
+    (s) => s.status === 'active' && walletKeys.has(s.walletPubkey)
+  );
+  const liveAgents = agents.filter((a) => a.status !== 'revoked' && walletKeys.has(a.walletPubkey));
+  const unreachableAgents = agents.filter(
+    (a) => a.status !== 'revoked' && !walletKeys.has(a.walletPubkey)
+  );
+
+  // Sessions in the report keep their order as they are revoked
+  const reportSessions = targetIds
+    .map((id) => sessions.find((s) => s.id === id))
+    .filter((s): s is Session => s !== undefined);
+
+  const agentName = (session: Session) =>
+    agents.find((a) => isAgentPairing(a, session.walletPubkey, session.agentId))?.name ??
+    'Unknown Agent';
+
+  const setProgress = (walletPubkey: string, progress: WalletProgress) =>
+    setWalletProgress((current) => ({ ...current, [walletPubkey]: progress }));
+
+  // Settle wallets left pending once the retry hook has finished their revocations
+  useEffect(() => {
+    for (const [walletPubkey, progress] of Object.entries(walletProgress)) {
+      if (progress.status !== 'pending' || settlingRef.current.has(walletPubkey)) continue;
+
+      const walletSessions = sessions.filter(
+        (s) => s.walletPubkey === walletPubkey && targetIds.includes(s.id)
+      );
+      if (walletSessions.some((s) => isRevocationInProgress(s.revocation))) continue;
+
+      settlingRef.current.add(walletPubkey);
+      settleWallet(
+        walletPubkey,
+        walletSessions.map((s) => s.id)
+      ).then((settled) => {
+        settlingRef.current.delete(walletPubkey);
+        setWalletProgress((current) => ({ ...current, [walletPubkey]: settled }));
+      });
+    }
+  }, [walletProgress, sessions, targetIds]);
+
+  // Wallets already revoked are skipped when trying again
+  const revokeEverything = async (targetWallets = wallets) => {
+    const targetKeys = new Set(targetWallets.map((w) => w.publicKey));
+    const targets = activeSessions.filter((s) => targetKeys.has(s.walletPubkey));
+
+    // A second attempt adds to the report rather than replacing it
+    setTargetIds((current) => [...new Set([...current, ...targets.map((s) => s.id)])]);
+    setWalletProgress((current) => ({
+      ...current,
+      ...Object.fromEntries(targetWallets.map((w) => [w.publicKey, { status: 'queued' } as const])),
+    }));
+    setPhase('running');
+
+    // One passkey prompt per wallet, covering its sessions and agent secrets
+    for (const wallet of targetWallets) {
+      const walletSessionIds = targets
+        .filter((s) => s.walletPubkey === wallet.publicKey)
+        .map((s) => s.id);
+      // Sessions already being revoked keep their signed revocation
+      const sessionIds = targets
+        .filter((s) => s.walletPubkey === wallet.publicKey && !isRevocationInProgress(s.revocation))
+        .map((s) => s.id);
+      const walletAgents = liveAgents.filter((a) => a.walletPubkey === wallet.publicKey);
+
+      if (sessionIds.length > 0 || walletAgents.length > 0) {
+        setProgress(wallet.publicKey, { status: 'signing' });
+        try {
+          await revokeSessions(
+            sessionIds,
+            wallet,
+            walletAgents.map((a) => a.id)
+          );
+        } catch (error) {
+          if (error instanceof PasskeyError && error.code === 'cancelled') {
+            setProgress(wallet.publicKey, { status: 'cancelled' });
+          } else {
+            setProgress(wallet.publicKey, {
+              status: 'failed',
+              message: error instanceof Error ? error.message : 'Failed to revoke sessions',
+            });
+          }
+          continue;
+        }
+      }
+
+      // Revocations still confirming are finished by the retry hook, and settled below
+      setProgress(wallet.publicKey, await settleWallet(wallet.publicKey, walletSessionIds));
+    }
+
+    setPhase('done');
+  };
+
+  const handleRevokeEverything = () => {
+    Alert.alert(
+      'Revoke Everything',
+      'Every agent loses access immediately. Active sessions are revoked and agents must be paired again. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Revoke Everything', style: 'destructive', onPress: () => revokeEverything() },
+      ]
+    );
+  };
+
+  // Confirmation
+  if (phase === 'confirm') {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <Text style={styles.icon}>🛑</Text>
+        <Text style={styles.title}>Revoke Everything</Text>
+        <Text style={styles.subtitle}>
+          Use this if an agent misbehaves or this phone may be compromised.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>This will</Text>
+          <Text style={styles.bullet}>
+            • Revoke {activeSessions.length} active{' '}
+            {activeSessions.length === 1 ? 'session' : 'sessions'} on the server and on-chain
+          </Text>
+          <Text style={styles.bullet}>
+            • Mark {liveAgents.length} {liveAgents.length === 1 ? 'agent' : 'agents'} inactive
+          </Text>
+          <Text style={styles.bullet}>• Wipe every agent auth secret</Text>
+          <Text style={styles.note}>
+            You will be asked for your passkey once per wallet ({wallets.length}).
+          </Text>
+        </View>
+
+        <UnreachableAgents agents={unreachableAgents} />
+
+        <TouchableOpacity
+          style={styles.dangerButton}
+          onPress={handleRevokeEverything}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.dangerButtonText}>Revoke Everything</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  }
+
+  const finished = reportSessions.filter((s) => s.revocation?.status === 'confirmed').length;
+  const retryWallets = wallets.filter((w) => {
+    const status = walletProgress[w.publicKey]?.status;
+    return status === 'cancelled' || status === 'failed';
+  });
+
+  // Progress report
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>
+          {phase === 'running' ? 'Revoking...' : 'Revocation Report'}
+        </Text>
+        <Text style={styles.subtitle}>
+          {finished} of {reportSessions.length} sessions revoked on-chain. Unfinished revocations
+          retry automatically.
+        </Text>
+
+        {wallets.map((wallet) => {
+          const progress = walletProgress[wallet.publicKey];
+          const walletSessions = reportSessions.filter((s) => s.walletPubkey === wallet.publicKey);
+
+          return (
+            <View key={wallet.publicKey} style={styles.card}>
+              <View style={styles.walletHeader}>
+                <Text style={styles.cardLabel}>
+                  {wallet.name} · {shortenAddress(wallet.publicKey)}
+                </Text>
+                {progress?.status === 'signing' && (
+                  <ActivityIndicator size="small" color="#8b5cf6" />
+                )}
+              </View>
+
+              {progress?.status === 'failed' && (
+                <Text style={styles.errorText}>{progress.message}</Text>
+              )}
+              {progress?.status === 'pending' && (
+                <Text style={styles.pendingText}>
+                  Agents are marked inactive once every revocation is confirmed
+                </Text>
+              )}
+
+              {walletSessions.length === 0 ? (
+                <Text style={styles.emptyText}>No active sessions</Text>
+              ) : (
+                walletSessions.map((session) => {
+                  const { label, color } = sessionProgress(session, progress);
+                  return (
+                    <View key={session.id} style={styles.sessionRow}>
+                      <View style={styles.sessionInfo}>
+                        <Text style={styles.sessionAgent}>{agentName(session)}</Text>
+                        <Text style={styles.sessionKey}>
+                          {shortenAddress(session.sessionPubkey)}
+                        </Text>
+                        {session.revocation?.lastError && (
+                          <Text style={styles.sessionError}>{session.revocation.lastError}</Text>
+                        )}
+                      </View>
+                      <Text style={[styles.sessionStatus, { color }]}>{label}</Text>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          );
+        })}
+
+        <UnreachableAgents agents={unreachableAgents} />
+      </ScrollView>
+
+      {phase === 'done' && (
+        <View style={styles.buttonContainer}>
+          {retryWallets.length > 0 && (
+            <TouchableOpacity
+              style={styles.dangerButton}
+              onPress={() => revokeEverything(retryWallets)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.dangerButtonText}>Try Again</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.doneButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 32,
+  },
+  icon: {
+    fontSize: 56,
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#888888',
+    fontSize: 15,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  cardLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  bullet: {
+    color: '#ffffff',
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  note: {
+    color: '#888888',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  warningCard: {
+    borderColor: '#ef4444',
+  },
+  walletHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#666666',
+    fontSize: 14,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  pendingText: {
+    color: '#f59e0b',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sessionAgent: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  sessionKey: {
+    color: '#888888',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  sessionError: {
+    color: '#f59e0b',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  sessionStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonContainer: {
+    padding: 20,
+    paddingBottom: 36,
+    gap: 12,
+  },
+  dangerButton: {
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 56,
+  },
+  dangerButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  doneButton: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 56,
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
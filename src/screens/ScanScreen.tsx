@@ -0,0 +1,172 @@
+/**
+ * ScanScreen - Camera QR scanner
+ * Routes addresses and Solana Pay requests to Send, pairing codes to PairAgent
+ * and approval links to ApproveSession
+ */
+
+import { useCallback, useRef } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, Alert } from 'react-native';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import type { RootStackScreenProps } from '../types/navigation';
+import { parseScannedCode } from '../services/scanParser';
+
+type Props = RootStackScreenProps<'Scan'>;
+
+export function ScanScreen({ navigation }: Props) {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same code many times per second; handle one at a time
+  const handlingRef = useRef(false);
+
+  const resumeScanning = useCallback(() => {
+    handlingRef.current = false;
+  }, []);
+
+  const handleScanned = useCallback(
+    ({ data }: BarcodeScanningResult) => {
+      if (handlingRef.current) return;
+      handlingRef.current = true;
+
+      const result = parseScannedCode(data);
+      switch (result.type) {
+        case 'address':
+          navigation.replace('Send', { recipient: result.address });
+          break;
+
+        case 'transfer':
+          navigation.replace('Send', {
+            recipient: result.request.recipient,
+            amount: result.request.amount,
+            tokenMint: result.request.splToken,
+            label: result.request.label,
+            message: result.request.message,
+            reference: result.request.reference,
+            memo: result.request.memo,
+          });
+          break;
+
+        case 'transaction':
+          navigation.replace('Send', { transactionRequest: result.link });
+          break;
+
+        case 'pair':
+          navigation.replace('PairAgent', { code: result.code });
+          break;
+
+        case 'approve-session':
+          navigation.replace('ApproveSession', { requestId: result.requestId });
+          break;
+
+        case 'unknown':
+          Alert.alert(
+            'Unrecognized Code',
+            'This QR code is not a Solana address, payment request or Odyssey link.',
+            [{ text: 'OK', onPress: resumeScanning }]
+          );
+          break;
+      }
+    },
+    [navigation, resumeScanning]
+  );
+
+  // Permission still loading
+  if (!permission) {
+    return <View style={styles.container} />;
+  }
+
+  if (!permission.granted) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.title}>Camera Access</Text>
+        <Text style={styles.subtitle}>
+          Odyssey needs the camera to scan addresses, payment requests and pairing codes.
+        </Text>
+        {permission.canAskAgain ? (
+          <TouchableOpacity style={styles.button} onPress={requestPermission} activeOpacity={0.7}>
+            <Text style={styles.buttonText}>Allow Camera</Text>
+          </TouchableOpacity>
+        ) : (
+          <Text style={styles.hint}>Enable camera access for Odyssey in Settings.</Text>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={handleScanned}
+      />
+      <View style={styles.overlay} pointerEvents="none">
+        <View style={styles.frame} />
+        <Text style={styles.overlayText}>
+          Scan an address, Solana Pay code or agent pairing code
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#888888',
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 32,
+  },
+  hint: {
+    color: '#666666',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  button: {
+    backgroundColor: '#8b5cf6',
+    borderRadius: 12,
+    paddingVertical: 16,
+    paddingHorizontal: 32,
+  },
+  buttonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderRadius: 24,
+    borderWidth: 3,
+    borderColor: '#8b5cf6',
+    marginBottom: 24,
+  },
+  overlayText: {
+    color: '#ffffff',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 40,
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowRadius: 4,
+  },
+});
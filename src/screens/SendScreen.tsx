@@ -1,4 +1,4 @@
-import { useCallback, useState, useMemo } from 'react';
+import { useCallback, useEffect, useState, useMemo } from 'react';
 import {
   StyleSheet,
   Text,
@@ -11,39 +11,97 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
 import type { RootStackScreenProps } from '../types/navigation';
-import { isValidAddress, shortenAddress, formatSol, solToLamports } from '../services/solana';
+import {
+  isValidAddress,
+  shortenAddress,
+  solToLamports,
+  parseTokenAmount,
+  formatTokenAmount,
+  formatFeeBps,
+  type InstructionSummary,
+} from '../services/solana';
+import { sendTransfer, signAndSendTransaction, type TransferStage } from '../services/transfer';
+import {
+  fetchTransactionRequest,
+  fetchTransactionRequestMetadata,
+  type TransactionRequestMetadata,
+  type TransactionRequestResult,
+} from '../services/solanaPay';
+import { PasskeyError } from '../services/passkey';
+import { parseScannedCode } from '../services/scanParser';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { useBalances } from '../hooks/useBalances';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { TokenIcon } from '../components/TokenIcon';
+import type { TokenMetadata } from '../types';
 
 type Props = RootStackScreenProps<'Send'>;
 
-// Mock wallet data
-const MOCK_WALLET_ADDRESS = '7NpVxKv7z8yKPQWnqvWhcEz8xKZcvqRK9wNbK3vKz9mH';
-const MOCK_SOL_BALANCE = 2.5; // SOL
+// SOL kept back by Max so the wallet can still cover fees and rent
+const SOL_FEE_RESERVE = 0.01;
+
+const STAGE_LABELS: Record<TransferStage, string> = {
+  building: 'Preparing...',
+  signing: 'Confirm with passkey...',
+  sending: 'Sending...',
+};
+
+type RequestState =
+  | { status: 'loading' }
+  | { status: 'ready'; metadata: TransactionRequestMetadata; request: TransactionRequestResult }
+  | { status: 'error'; message: string };
+
+export function SendScreen(props: Props) {
+  const link = props.route.params?.transactionRequest;
+  return link ? (
+    <TransactionRequestForm link={link} navigation={props.navigation} />
+  ) : (
+    <TransferForm {...props} />
+  );
+}
+
+function TransferForm({ route, navigation }: Props) {
+  const { label, message, reference, memo } = route.params ?? {};
+  const mint = route.params?.tokenMint ?? 'native';
+  const isNativeSOL = mint === 'native';
+  const wallet = useActiveWallet();
+  const { balances } = useBalances();
+  const balance = balances.find((b) => b.mint === mint);
+  const metadata = useTokenMetadata([mint])[mint];
 
-export function SendScreen({ route, navigation }: Props) {
-  const tokenMint = route.params?.tokenMint;
-  const isNativeSOL = !tokenMint || tokenMint === 'native';
+  const symbol =
+    metadata?.symbol ?? balance?.symbol ?? (isNativeSOL ? 'SOL' : shortenAddress(mint, 4));
+  const decimals = balance?.decimals ?? (isNativeSOL ? 9 : null);
 
-  const [recipient, setRecipient] = useState('');
-  const [amount, setAmount] = useState('');
-  const [sending, setSending] = useState(false);
+  const [recipient, setRecipient] = useState(route.params?.recipient ?? '');
+  const [amount, setAmount] = useState(route.params?.amount ?? '');
+  const [stage, setStage] = useState<TransferStage | null>(null);
+  const sending = stage !== null;
+
+  const baseUnits = useMemo(
+    () => (decimals === null ? null : parseTokenAmount(amount, decimals)),
+    [amount, decimals]
+  );
 
   // Validation
   const recipientError = useMemo(() => {
     if (!recipient) return null;
     if (!isValidAddress(recipient)) return 'Invalid Solana address';
-    if (recipient === MOCK_WALLET_ADDRESS) return 'Cannot send to yourself';
+    if (recipient === wallet?.publicKey) return 'Cannot send to yourself';
     return null;
-  }, [recipient]);
+  }, [recipient, wallet?.publicKey]);
 
   const amountError = useMemo(() => {
     if (!amount) return null;
-    const num = parseFloat(amount);
-    if (isNaN(num)) return 'Invalid amount';
-    if (num <= 0) return 'Amount must be greater than 0';
-    if (isNativeSOL && num > MOCK_SOL_BALANCE) return 'Insufficient balance';
+    if (!balance) return `No ${symbol} balance`;
+    if (baseUnits === null) return 'Invalid amount';
+    if (baseUnits <= 0n) return 'Amount must be greater than 0';
+    if (balance.nonTransferable) return 'This token is non-transferable';
+    if (baseUnits > BigInt(balance.amount)) return 'Insufficient balance';
     return null;
-  }, [amount, isNativeSOL]);
+  }, [amount, balance, baseUnits, symbol]);
 
   const isValid = useMemo(() => {
     return (
@@ -51,48 +109,69 @@ export function SendScreen({ route, navigation }: Props) {
       amount.length > 0 &&
       !recipientError &&
       !amountError &&
-      parseFloat(amount) > 0
+      baseUnits !== null &&
+      baseUnits > 0n
     );
-  }, [recipient, amount, recipientError, amountError]);
+  }, [recipient, amount, recipientError, amountError, baseUnits]);
 
   const handleSend = useCallback(async () => {
-    if (!isValid) return;
+    if (!isValid || !wallet || baseUnits === null) return;
 
-    setSending(true);
     try {
-      // Simulate sending transaction
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      const lamports = solToLamports(parseFloat(amount));
+      const signature = await sendTransfer(
+        { wallet, recipient, mint, amount: baseUnits, reference, memo },
+        { onStage: setStage }
+      );
+      navigation.replace('TransactionResult', {
+        signature,
+        walletPubkey: wallet.publicKey,
+        summary: `${amount} ${symbol} sent to ${shortenAddress(recipient)}`,
+      });
+    } catch (error) {
+      // Dismissing the passkey prompt just returns to the form
+      if (error instanceof PasskeyError && error.code === 'cancelled') return;
       Alert.alert(
-        'Transaction Sent',
-        `Sent ${formatSol(lamports, 4)} SOL to ${shortenAddress(recipient)}`,
-        [
-          {
-            text: 'OK',
-            onPress: () => navigation.goBack(),
-          },
-        ]
+        'Send Failed',
+        error instanceof Error ? error.message : 'Failed to send transaction. Please try again.'
       );
-    } catch {
-      Alert.alert('Error', 'Failed to send transaction. Please try again.');
     } finally {
-      setSending(false);
+      setStage(null);
     }
-  }, [isValid, amount, recipient, navigation]);
+  }, [isValid, wallet, baseUnits, recipient, mint, amount, reference, memo, symbol, navigation]);
 
   const handleMax = useCallback(() => {
-    if (isNativeSOL) {
-      // Leave some SOL for fees
-      const maxAmount = Math.max(0, MOCK_SOL_BALANCE - 0.01);
-      setAmount(maxAmount.toString());
-    }
-  }, [isNativeSOL]);
+    if (!balance || decimals === null) return;
+    // Leave some SOL for fees
+    const reserve = isNativeSOL ? BigInt(solToLamports(SOL_FEE_RESERVE)) : 0n;
+    const maxUnits = BigInt(balance.amount) - reserve;
+    setAmount(formatTokenAmount(maxUnits > 0n ? maxUnits : 0n, decimals));
+  }, [balance, decimals, isNativeSOL]);
 
   const handlePaste = useCallback(async () => {
-    // In a real app, this would use Clipboard API
-    Alert.alert('Paste', 'Clipboard paste would go here');
-  }, []);
+    const text = await Clipboard.getStringAsync();
+    const result = parseScannedCode(text);
+
+    if (result.type === 'transaction') {
+      navigation.replace('Send', { transactionRequest: result.link });
+    } else if (result.type === 'transfer') {
+      // A pasted payment request may name a different token, so reload the form
+      navigation.replace('Send', {
+        recipient: result.request.recipient,
+        amount: result.request.amount,
+        tokenMint: result.request.splToken,
+        label: result.request.label,
+        message: result.request.message,
+        reference: result.request.reference,
+        memo: result.request.memo,
+      });
+    } else {
+      setRecipient(result.type === 'address' ? result.address : text.trim());
+    }
+  }, [navigation]);
+
+  const handleScan = useCallback(() => {
+    navigation.replace('Scan');
+  }, [navigation]);
 
   return (
     <KeyboardAvoidingView
@@ -106,24 +185,44 @@ export function SendScreen({ route, navigation }: Props) {
       >
         {/* Token Info */}
         <View style={styles.tokenInfo}>
-          <View style={styles.tokenIcon}>
-            <Text style={styles.tokenIconText}>{isNativeSOL ? '◎' : '?'}</Text>
-          </View>
-          <Text style={styles.tokenLabel}>
-            {isNativeSOL ? 'Sending SOL' : `Sending ${shortenAddress(tokenMint || '', 4)}`}
-          </Text>
+          {isNativeSOL ? (
+            <View style={styles.tokenIcon}>
+              <Text style={styles.tokenIconText}>◎</Text>
+            </View>
+          ) : (
+            <View style={styles.tokenIconContainer}>
+              <TokenIcon symbol={symbol} logoUri={metadata?.logoUri ?? null} size={64} />
+            </View>
+          )}
+          <Text style={styles.tokenLabel}>Sending {symbol}</Text>
           <Text style={styles.balanceText}>
-            Available: {isNativeSOL ? `${MOCK_SOL_BALANCE} SOL` : 'N/A'}
+            Available:{' '}
+            {balance && decimals !== null
+              ? `${formatTokenAmount(BigInt(balance.amount), decimals)} ${symbol}`
+              : 'N/A'}
           </Text>
         </View>
 
+        {/* Payment Request */}
+        {(label || message) && (
+          <View style={styles.requestCard}>
+            <Text style={styles.requestLabel}>Payment request{label ? ` from ${label}` : ''}</Text>
+            {message && <Text style={styles.requestMessage}>{message}</Text>}
+          </View>
+        )}
+
         {/* Recipient Input */}
         <View style={styles.inputGroup}>
           <View style={styles.labelRow}>
             <Text style={styles.inputLabel}>Recipient</Text>
-            <TouchableOpacity onPress={handlePaste} activeOpacity={0.7}>
-              <Text style={styles.actionText}>Paste</Text>
-            </TouchableOpacity>
+            <View style={styles.labelActions}>
+              <TouchableOpacity onPress={handleScan} activeOpacity={0.7} disabled={sending}>
+                <Text style={styles.actionText}>Scan</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handlePaste} activeOpacity={0.7} disabled={sending}>
+                <Text style={styles.actionText}>Paste</Text>
+              </TouchableOpacity>
+            </View>
           </View>
           <TextInput
             style={[styles.textInput, recipientError ? styles.inputError : null]}
@@ -157,7 +256,7 @@ export function SendScreen({ route, navigation }: Props) {
               editable={!sending}
             />
             <View style={styles.amountSuffix}>
-              <Text style={styles.amountSuffixText}>{isNativeSOL ? 'SOL' : 'TOKEN'}</Text>
+              <Text style={styles.amountSuffixText}>{symbol}</Text>
             </View>
           </View>
           {amountError && <Text style={styles.errorText}>{amountError}</Text>}
@@ -173,9 +272,15 @@ export function SendScreen({ route, navigation }: Props) {
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Amount</Text>
               <Text style={styles.summaryValue}>
-                {parseFloat(amount).toFixed(4)} {isNativeSOL ? 'SOL' : 'TOKEN'}
+                {amount} {symbol}
               </Text>
             </View>
+            {balance?.transferFeeBps ? (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Token Fee</Text>
+                <Text style={styles.summaryValue}>{formatFeeBps(balance.transferFeeBps)}</Text>
+              </View>
+            ) : null}
             <View style={styles.summaryRow}>
               <Text style={styles.summaryLabel}>Network Fee</Text>
               <Text style={styles.summaryValue}>~0.000005 SOL</Text>
@@ -192,8 +297,11 @@ export function SendScreen({ route, navigation }: Props) {
           disabled={!isValid || sending}
           activeOpacity={0.7}
         >
-          {sending ? (
-            <ActivityIndicator color="#ffffff" />
+          {stage ? (
+            <View style={styles.sendingRow}>
+              <ActivityIndicator color="#ffffff" />
+              <Text style={styles.sendingText}>{STAGE_LABELS[stage]}</Text>
+            </View>
           ) : (
             <Text style={styles.sendButtonText}>Send</Text>
           )}
@@ -203,6 +311,207 @@ export function SendScreen({ route, navigation }: Props) {
   );
 }
 
+// Describe a decoded instruction as a title and detail line
+function describeInstruction(
+  summary: InstructionSummary,
+  metadataByMint: Record<string, TokenMetadata | null>
+): { title: string; detail: string } {
+  const symbolFor = (mint: string) => metadataByMint[mint]?.symbol ?? shortenAddress(mint, 4);
+
+  switch (summary.type) {
+    case 'sol_transfer':
+      return {
+        title: `Send ${formatTokenAmount(summary.lamports, 9)} SOL`,
+        detail: `To ${shortenAddress(summary.to)}`,
+      };
+    case 'token_transfer':
+      return {
+        title:
+          summary.mint !== null && summary.decimals !== null
+            ? `Send ${formatTokenAmount(summary.amount, summary.decimals)} ${symbolFor(summary.mint)}`
+            : `Send ${summary.amount.toString()} token base units`,
+        detail: `To token account ${shortenAddress(summary.destination)}`,
+      };
+    case 'create_token_account':
+      return {
+        title: 'Create token account',
+        detail: `${symbolFor(summary.mint)} account for ${shortenAddress(summary.owner)}`,
+      };
+    case 'memo':
+      return { title: 'Memo', detail: summary.text };
+    case 'compute_budget':
+      return { title: 'Compute budget', detail: 'Priority fee settings' };
+    case 'unknown':
+      return { title: 'Program call', detail: shortenAddress(summary.programId, 6) };
+  }
+}
+
+function TransactionRequestForm({
+  link,
+  navigation,
+}: {
+  link: string;
+  navigation: Props['navigation'];
+}) {
+  const wallet = useActiveWallet();
+  const walletPubkey = wallet?.publicKey ?? null;
+  const [state, setState] = useState<RequestState>({ status: 'loading' });
+  const [stage, setStage] = useState<TransferStage | null>(null);
+  const sending = stage !== null;
+
+  useEffect(() => {
+    navigation.setOptions({ title: 'Payment Request' });
+  }, [navigation]);
+
+  // Fetch merchant details, then the transaction for this wallet
+  useEffect(() => {
+    if (!walletPubkey) return;
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const metadata = await fetchTransactionRequestMetadata(link);
+        const request = await fetchTransactionRequest(link, walletPubkey);
+        if (mounted) setState({ status: 'ready', metadata, request });
+      } catch (error) {
+        if (!mounted) return;
+        setState({
+          status: 'error',
+          message: error instanceof Error ? error.message : 'Failed to load the payment request',
+        });
+      }
+    };
+
+    load();
+
+    return () => {
+      mounted = false;
+    };
+  }, [link, walletPubkey]);
+
+  const instructions = useMemo(
+    () => (state.status === 'ready' ? state.request.instructions : []),
+    [state]
+  );
+  const mints = useMemo(
+    () =>
+      instructions.flatMap((summary) => {
+        if (summary.type === 'create_token_account') return [summary.mint];
+        if (summary.type === 'token_transfer' && summary.mint) return [summary.mint];
+        return [];
+      }),
+    [instructions]
+  );
+  const metadataByMint = useTokenMetadata(mints);
+
+  const handleApprove = useCallback(async () => {
+    if (!wallet || state.status !== 'ready') return;
+
+    try {
+      const signature = await signAndSendTransaction(wallet, state.request.transaction, {
+        onStage: setStage,
+      });
+      navigation.replace('TransactionResult', {
+        signature,
+        walletPubkey: wallet.publicKey,
+        summary: `Paid ${state.metadata.label}`,
+      });
+    } catch (error) {
+      if (error instanceof PasskeyError && error.code === 'cancelled') return;
+      Alert.alert(
+        'Payment Failed',
+        error instanceof Error ? error.message : 'Failed to send transaction. Please try again.'
+      );
+    } finally {
+      setStage(null);
+    }
+  }, [wallet, state, navigation]);
+
+  if (!wallet || state.status === 'error') {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.tokenLabel}>Payment Request Unavailable</Text>
+        <Text style={styles.requestError}>
+          {state.status === 'error' ? state.message : 'Create a wallet first'}
+        </Text>
+      </View>
+    );
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#8b5cf6" />
+        <Text style={styles.balanceText}>Loading payment request...</Text>
+      </View>
+    );
+  }
+
+  const { metadata, request } = state;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
+        {/* Merchant */}
+        <View style={styles.tokenInfo}>
+          <View style={styles.tokenIconContainer}>
+            <TokenIcon symbol={metadata.label} logoUri={metadata.icon} size={64} />
+          </View>
+          <Text style={styles.tokenLabel}>{metadata.label}</Text>
+          <Text style={styles.balanceText}>is requesting a transaction</Text>
+        </View>
+
+        {request.message && (
+          <View style={styles.requestCard}>
+            <Text style={styles.requestMessage}>{request.message}</Text>
+          </View>
+        )}
+
+        {/* Decoded Instructions */}
+        <Text style={[styles.inputLabel, styles.previewHeading]}>This transaction will</Text>
+        <View style={styles.summary}>
+          {instructions.map((summary, index) => {
+            const { title, detail } = describeInstruction(summary, metadataByMint);
+            return (
+              <View key={index} style={styles.previewRow}>
+                <Text
+                  style={[styles.previewTitle, summary.type === 'unknown' && styles.previewWarning]}
+                >
+                  {title}
+                </Text>
+                <Text style={styles.previewDetail}>{detail}</Text>
+              </View>
+            );
+          })}
+        </View>
+        {instructions.some((summary) => summary.type === 'unknown') && (
+          <Text style={styles.errorText}>
+            Some steps call programs Odyssey cannot decode. Only approve requests you trust.
+          </Text>
+        )}
+      </ScrollView>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity
+          style={styles.sendButton}
+          onPress={handleApprove}
+          disabled={sending}
+          activeOpacity={0.7}
+        >
+          {stage ? (
+            <View style={styles.sendingRow}>
+              <ActivityIndicator color="#ffffff" />
+              <Text style={styles.sendingText}>{STAGE_LABELS[stage]}</Text>
+            </View>
+          ) : (
+            <Text style={styles.sendButtonText}>Approve</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -214,6 +523,12 @@ const styles = StyleSheet.create({
   content: {
     padding: 20,
   },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
   tokenInfo: {
     alignItems: 'center',
     marginBottom: 32,
@@ -232,6 +547,9 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: '600',
   },
+  tokenIconContainer: {
+    marginBottom: 12,
+  },
   tokenLabel: {
     color: '#ffffff',
     fontSize: 18,
@@ -251,6 +569,33 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  labelActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  requestCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#8b5cf6',
+    marginBottom: 24,
+  },
+  requestLabel: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  requestError: {
+    color: '#ef4444',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  requestMessage: {
+    color: '#888888',
+    fontSize: 14,
+    marginTop: 4,
+  },
   inputLabel: {
     color: '#ffffff',
     fontSize: 14,
@@ -326,6 +671,25 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontFamily: 'monospace',
   },
+  previewHeading: {
+    marginBottom: 8,
+  },
+  previewRow: {
+    paddingVertical: 8,
+  },
+  previewTitle: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  previewWarning: {
+    color: '#f59e0b',
+  },
+  previewDetail: {
+    color: '#888888',
+    fontSize: 13,
+  },
   buttonContainer: {
     padding: 20,
     paddingBottom: 36,
@@ -346,4 +710,14 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  sendingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  sendingText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
 });
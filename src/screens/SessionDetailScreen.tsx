@@ -17,9 +17,23 @@ import {
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import type { RootStackScreenProps } from '../types/navigation';
-import type { Session, SpendingLimit, Transaction, SessionStatus } from '../types';
+import type {
+  Session,
+  SpendingLimit,
+  Transaction,
+  SessionStatus,
+  SessionRevocation,
+  RevocationStatus,
+  TokenMetadata,
+} from '../types';
 import { useSessionStore } from '../store/useSessionStore';
-import { useAgentStore } from '../store/useAgentStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { useWalletStore } from '../store/useWalletStore';
+import { PasskeyError } from '../services/passkey';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { PolicyRules } from '../components/PolicyRules';
+import { useSessionSync } from '../hooks/useSessionSync';
+import { TokenIcon } from '../components/TokenIcon';
 
 type Props = RootStackScreenProps<'SessionDetail'>;
 
@@ -65,6 +79,58 @@ const STATUS_INFO: Record<SessionStatus, { label: string; description: string; i
   },
 };
 
+// Shown instead of the status while an active session's revocation is unfinished
+const REVOKING_INFO: Record<
+  Exclude<RevocationStatus, 'confirmed'>,
+  { label: string; description: string; icon: string; color: string }
+> = {
+  pending: {
+    label: 'Revoking',
+    description: 'The agent can use this session until the revocation is confirmed',
+    icon: '⏳',
+    color: '#f59e0b',
+  },
+  submitted: {
+    label: 'Revoking',
+    description: 'The agent can use this session until the revocation is confirmed',
+    icon: '⏳',
+    color: '#f59e0b',
+  },
+  failed: {
+    label: 'Still Active',
+    description: 'The revocation was rejected; the agent can still use this session',
+    icon: '⚠️',
+    color: '#ef4444',
+  },
+};
+
+// Revocation progress labels
+const REVOCATION_INFO: Record<
+  RevocationStatus,
+  { label: string; description: string; color: string }
+> = {
+  pending: {
+    label: 'Revocation Pending',
+    description: 'Waiting to reach the server. Retrying automatically.',
+    color: '#f59e0b',
+  },
+  submitted: {
+    label: 'Revoked on Server',
+    description: 'Confirming the session key revocation on-chain',
+    color: '#3b82f6',
+  },
+  confirmed: {
+    label: 'Revocation Confirmed',
+    description: 'The session key is revoked on-chain',
+    color: '#22c55e',
+  },
+  failed: {
+    label: 'Revocation Failed',
+    description: 'The revocation was rejected and needs to be signed again',
+    color: '#ef4444',
+  },
+};
+
 // Format date
 function formatDate(timestamp: number): string {
   return new Date(timestamp).toLocaleDateString('en-US', {
@@ -111,9 +177,9 @@ function formatAmount(amount: number, decimals: number, symbol?: string): string
   return symbol ? `${formatted} ${symbol}` : formatted;
 }
 
-// Get symbol for mint
-function getSymbol(limit: SpendingLimit): string {
-  return limit.symbol || (limit.mint === 'native' ? 'SOL' : 'tokens');
+// Get symbol for mint, preferring resolved token metadata
+function getSymbol(limit: SpendingLimit, metadata: TokenMetadata | null | undefined): string {
+  return metadata?.symbol || limit.symbol || (limit.mint === 'native' ? 'SOL' : 'tokens');
 }
 
 // Truncate address/signature for display
@@ -133,9 +199,19 @@ function openExplorer(signature: string) {
 // ============================================================================
 
 // Status Banner Component
-function StatusBanner({ status }: { status: SessionStatus }) {
-  const statusColor = STATUS_COLORS[status];
-  const info = STATUS_INFO[status];
+function StatusBanner({
+  status,
+  revocation,
+}: {
+  status: SessionStatus;
+  revocation: SessionRevocation | undefined;
+}) {
+  const revoking =
+    status === 'active' && revocation && revocation.status !== 'confirmed'
+      ? REVOKING_INFO[revocation.status]
+      : null;
+  const statusColor = revoking?.color ?? STATUS_COLORS[status];
+  const info = revoking ?? STATUS_INFO[status];
 
   return (
     <View style={[styles.statusBanner, { backgroundColor: `${statusColor}15` }]}>
@@ -148,20 +224,76 @@ function StatusBanner({ status }: { status: SessionStatus }) {
   );
 }
 
+// Revocation Progress Component
+function RevocationCard({
+  revocation,
+  onRetry,
+  isRetrying,
+}: {
+  revocation: SessionRevocation;
+  onRetry: () => void;
+  isRetrying: boolean;
+}) {
+  const info = REVOCATION_INFO[revocation.status];
+  const { transactionSignature } = revocation;
+  const canRetry = revocation.status === 'pending' || revocation.status === 'failed';
+
+  return (
+    <View style={styles.revocationCard}>
+      <View style={styles.revocationHeader}>
+        {revocation.status === 'submitted' ? (
+          <ActivityIndicator size="small" color={info.color} />
+        ) : (
+          <View style={[styles.revocationDot, { backgroundColor: info.color }]} />
+        )}
+        <Text style={[styles.revocationLabel, { color: info.color }]}>{info.label}</Text>
+      </View>
+      <Text style={styles.statusDescription}>{info.description}</Text>
+      {revocation.lastError && revocation.status !== 'confirmed' && (
+        <Text style={styles.revocationError}>{revocation.lastError}</Text>
+      )}
+
+      <View style={styles.revocationActions}>
+        {transactionSignature && (
+          <TouchableOpacity onPress={() => openExplorer(transactionSignature)} activeOpacity={0.7}>
+            <Text style={styles.revocationLink}>View on Explorer</Text>
+          </TouchableOpacity>
+        )}
+        {canRetry && (
+          <TouchableOpacity onPress={onRetry} disabled={isRetrying} activeOpacity={0.7}>
+            {isRetrying ? (
+              <ActivityIndicator size="small" color="#8b5cf6" />
+            ) : (
+              <Text style={styles.revocationLink}>
+                {revocation.status === 'failed' ? 'Try Again' : 'Retry Now'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
 // Spending Progress Component
 function SpendingProgress({ limit, spent }: { limit: SpendingLimit; spent: number }) {
-  const symbol = getSymbol(limit);
+  const metadata = useTokenMetadata([limit.mint])[limit.mint];
+  const symbol = getSymbol(limit, metadata);
   const limitAmount = limit.amount;
   const spentAmount = spent;
 
   // Calculate progress percentage (spent is in base units, limit.amount is in base units)
   const percentage = limitAmount > 0 ? Math.min((spentAmount / limitAmount) * 100, 100) : 0;
   const isExhausted = spentAmount >= limitAmount;
+  const remaining = Math.max(0, limitAmount - spentAmount);
 
   return (
     <View style={styles.progressCard}>
       <View style={styles.progressHeader}>
-        <Text style={styles.progressSymbol}>{symbol}</Text>
+        <View style={styles.progressToken}>
+          <TokenIcon symbol={symbol} logoUri={metadata?.logoUri ?? null} size={24} />
+          <Text style={styles.progressSymbol}>{symbol}</Text>
+        </View>
         <Text style={[styles.progressPercent, isExhausted && styles.progressExhausted]}>
           {percentage.toFixed(1)}%
         </Text>
@@ -185,6 +317,9 @@ function SpendingProgress({ limit, spent }: { limit: SpendingLimit; spent: numbe
           of {formatAmount(limitAmount, limit.decimals)} {symbol}
         </Text>
       </View>
+      <Text style={[styles.progressRemaining, isExhausted && styles.progressExhausted]}>
+        {isExhausted ? 'Limit reached' : `${formatAmount(remaining, limit.decimals)} remaining`}
+      </Text>
     </View>
   );
 }
@@ -242,7 +377,8 @@ function TransactionListItem({
         ? '#f59e0b'
         : '#ef4444';
 
-  const symbol = transaction.symbol || (transaction.mint ? 'Token' : 'SOL');
+  const metadata = useTokenMetadata([transaction.mint ?? 'native'])[transaction.mint ?? 'native'];
+  const symbol = metadata?.symbol || transaction.symbol || (transaction.mint ? 'Token' : 'SOL');
   const decimals = transaction.mint ? 6 : 9; // Default decimals
 
   return (
@@ -298,16 +434,25 @@ export function SessionDetailScreen({ route }: Props) {
   const { sessionId } = route.params;
   const navigation = useNavigation();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
 
   // Store hooks
-  const { sessions, loadSessions, updateSession } = useSessionStore();
+  const { sessions, loadSessions, revokeSession, retryRevocations } = useSessionStore();
   const { agents, loadAgents } = useAgentStore();
 
-  // Find the session
+  // Find the session and the wallet that approved it
   const session = sessions.find((s) => s.id === sessionId);
+  const wallet = useWalletStore((state) =>
+    state.wallets.find((w) => w.publicKey === session?.walletPubkey)
+  );
 
   // Find the associated agent
-  const agent = session ? agents.find((a) => a.id === session.agentId) : null;
+  const agent = session
+    ? agents.find((a) => isAgentPairing(a, session.walletPubkey, session.agentId))
+    : null;
+
+  // Pull spent amounts and status from the backend
+  const syncSessions = useSessionSync(session?.walletPubkey);
 
   // Mock transactions for this session (in a real app, these would be fetched)
   // This demonstrates the transaction list UI
@@ -333,25 +478,60 @@ export function SessionDetailScreen({ route }: Props) {
     });
   }, [navigation]);
 
-  // Check for session expiry
-  useEffect(() => {
-    if (session && session.status === 'active' && session.expiresAt < Date.now()) {
-      updateSession(session.id, { status: 'expired' });
-    }
-  }, [session, updateSession]);
-
   // Handle refresh
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     await Promise.all([loadSessions(), loadAgents()]);
+    await syncSessions();
     setIsRefreshing(false);
-  }, [loadSessions, loadAgents]);
+  }, [loadSessions, loadAgents, syncSessions]);
 
   // Handle transaction press - open in explorer
   const handleTransactionPress = (transaction: Transaction) => {
     openExplorer(transaction.signature);
   };
 
+  // Sign the revocation with the passkey and push it to the server and chain
+  const revoke = async () => {
+    if (!session) return;
+    if (!wallet) {
+      Alert.alert(
+        'Wallet Not Found',
+        'The wallet that approved this session is not on this device.'
+      );
+      return;
+    }
+
+    setIsRevoking(true);
+    try {
+      await revokeSession(session.id, wallet);
+    } catch (error) {
+      if (!(error instanceof PasskeyError && error.code === 'cancelled')) {
+        Alert.alert(
+          'Revoke Failed',
+          error instanceof Error ? error.message : 'Failed to revoke session'
+        );
+      }
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  // Retry a pending revocation now, or sign a new one after a failure
+  const handleRetryRevocation = async () => {
+    if (session?.revocation?.status === 'failed') {
+      await revoke();
+      return;
+    }
+
+    setIsRevoking(true);
+    try {
+      await retryRevocations();
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
   // Handle revoke with confirmation
   const handleRevoke = () => {
     if (!session) return;
@@ -367,11 +547,7 @@ export function SessionDetailScreen({ route }: Props) {
         {
           text: 'Revoke',
           style: 'destructive',
-          onPress: async () => {
-            await updateSession(session.id, { status: 'revoked' });
-            // Optionally navigate back
-            // navigation.goBack();
-          },
+          onPress: revoke,
         },
       ]
     );
@@ -387,7 +563,8 @@ export function SessionDetailScreen({ route }: Props) {
     );
   }
 
-  const isActive = session.status === 'active';
+  // A session with a revocation under way is retried or signed again from its card
+  const canRevoke = session.status === 'active' && !session.revocation;
 
   return (
     <View style={styles.container}>
@@ -400,7 +577,16 @@ export function SessionDetailScreen({ route }: Props) {
         ListHeaderComponent={
           <>
             {/* Status Banner */}
-            <StatusBanner status={session.status} />
+            <StatusBanner status={session.status} revocation={session.revocation} />
+
+            {/* Revocation Progress */}
+            {session.revocation && (
+              <RevocationCard
+                revocation={session.revocation}
+                onRetry={handleRetryRevocation}
+                isRetrying={isRevoking}
+              />
+            )}
 
             {/* Spending Progress Section */}
             <View style={styles.sectionContainer}>
@@ -414,6 +600,13 @@ export function SessionDetailScreen({ route }: Props) {
               ))}
             </View>
 
+            {/* Policy Section */}
+            <PolicyRules
+              policy={session.policy}
+              limits={session.limits}
+              style={styles.policyCard}
+            />
+
             {/* Session Info Section */}
             <SessionInfoCard session={session} agentName={agent?.name || 'Unknown Agent'} />
 
@@ -438,11 +631,20 @@ export function SessionDetailScreen({ route }: Props) {
         }
       />
 
-      {/* Revoke Button - only show for active sessions */}
-      {isActive && (
+      {/* Revoke Button - only show for active sessions not already being revoked */}
+      {canRevoke && (
         <View style={styles.footer}>
-          <TouchableOpacity style={styles.revokeButton} onPress={handleRevoke} activeOpacity={0.7}>
-            <Text style={styles.revokeButtonText}>Revoke Session</Text>
+          <TouchableOpacity
+            style={styles.revokeButton}
+            onPress={handleRevoke}
+            disabled={isRevoking}
+            activeOpacity={0.7}
+          >
+            {isRevoking ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.revokeButtonText}>Revoke Session</Text>
+            )}
           </TouchableOpacity>
         </View>
       )}
@@ -502,6 +704,47 @@ const styles = StyleSheet.create({
     color: '#888888',
   },
 
+  // Revocation Card
+  revocationCard: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  revocationHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  revocationDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  revocationLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  revocationError: {
+    color: '#ef4444',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  revocationActions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 12,
+  },
+  revocationLink: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+
   // Section
   sectionContainer: {
     paddingHorizontal: 16,
@@ -539,6 +782,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  progressToken: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   progressSymbol: {
     color: '#ffffff',
     fontSize: 18,
@@ -575,8 +823,20 @@ const styles = StyleSheet.create({
     color: '#888888',
     fontSize: 14,
   },
+  progressRemaining: {
+    color: '#888888',
+    fontSize: 13,
+    marginTop: 4,
+  },
 
   // Info Card
+  policyCard: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+  },
   infoCard: {
     backgroundColor: '#1a1a1a',
     margin: 16,
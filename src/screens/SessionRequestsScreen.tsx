@@ -0,0 +1,245 @@
+/**
+ * SessionRequestsScreen - Inbox of pending session requests
+ * Lists requests from every agent across wallets; each opens in ApproveSessionScreen
+ */
+
+import { useCallback, useState } from 'react';
+import { StyleSheet, Text, View, FlatList, TouchableOpacity, RefreshControl } from 'react-native';
+import type { RootStackScreenProps } from '../types/navigation';
+import type { PendingSessionRequest, SpendingLimit, TokenMetadata } from '../types';
+import { useSessionStore } from '../store/useSessionStore';
+import { isAgentPairing, useAgentStore } from '../store/useAgentStore';
+import { useWalletStore } from '../store/useWalletStore';
+import { useTokenMetadata } from '../hooks/useTokenMetadata';
+import { shortenAddress } from '../services/solana';
+
+type Props = RootStackScreenProps<'SessionRequests'>;
+
+// Format spending limit for display
+function formatLimit(limit: SpendingLimit, metadata: TokenMetadata | null | undefined): string {
+  const amount = limit.amount / Math.pow(10, limit.decimals);
+  const symbol = metadata?.symbol ?? limit.symbol ?? (limit.mint === 'native' ? 'SOL' : 'tokens');
+  return `${amount.toLocaleString()} ${symbol}`;
+}
+
+// Format duration
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+// Format time left to answer a request
+function formatExpiry(expiresAt: number): string {
+  const diff = expiresAt - Date.now();
+  if (diff <= 0) return 'Expired';
+
+  const minutes = Math.floor(diff / 60000);
+  if (minutes < 1) return 'Expires in <1m';
+  if (minutes < 60) return `Expires in ${minutes}m`;
+  return `Expires in ${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Request card component
+function RequestItem({
+  request,
+  agentName,
+  walletName,
+  tokenMetadata,
+  onPress,
+}: {
+  request: PendingSessionRequest;
+  agentName: string;
+  walletName: string | null;
+  tokenMetadata: Record<string, TokenMetadata | null>;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={styles.requestCard} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.requestHeader}>
+        <Text style={styles.agentName}>{agentName}</Text>
+        <Text style={styles.expiryText}>{formatExpiry(request.expiresAt)}</Text>
+      </View>
+      {walletName && <Text style={styles.walletText}>{walletName}</Text>}
+
+      <View style={styles.limitsContainer}>
+        {request.limits.map((limit) => (
+          <View key={limit.mint} style={styles.limitChip}>
+            <Text style={styles.limitText}>{formatLimit(limit, tokenMetadata[limit.mint])}</Text>
+          </View>
+        ))}
+        {request.limits.length === 0 && <Text style={styles.metaText}>No spending limits</Text>}
+      </View>
+
+      <View style={styles.requestFooter}>
+        <Text style={styles.metaText}>Duration: {formatDuration(request.durationSeconds)}</Text>
+        <Text style={styles.reviewText}>Review ›</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+// Empty state component
+function EmptyState() {
+  return (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptyIcon}>📥</Text>
+      <Text style={styles.emptyTitle}>No Pending Requests</Text>
+      <Text style={styles.emptySubtitle}>
+        Session requests from your agents appear here until you answer them
+      </Text>
+    </View>
+  );
+}
+
+export function SessionRequestsScreen({ navigation }: Props) {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const pendingRequests = useSessionStore((state) => state.pendingRequests);
+  const loadPendingRequests = useSessionStore((state) => state.loadPendingRequests);
+  const agents = useAgentStore((state) => state.agents);
+  const wallets = useWalletStore((state) => state.wallets);
+
+  // Newest first
+  const requests = [...pendingRequests].sort((a, b) => b.requestedAt - a.requestedAt);
+  const tokenMetadata = useTokenMetadata(requests.flatMap((r) => r.limits.map((l) => l.mint)));
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadPendingRequests(wallets.map((w) => w.publicKey));
+    setIsRefreshing(false);
+  }, [loadPendingRequests, wallets]);
+
+  const agentName = (request: PendingSessionRequest) =>
+    agents.find((a) => isAgentPairing(a, request.walletPubkey, request.agentId))?.name ??
+    shortenAddress(request.agentId);
+
+  // Only name the wallet when there is more than one to tell apart
+  const walletName = (request: PendingSessionRequest) =>
+    wallets.length > 1
+      ? (wallets.find((w) => w.publicKey === request.walletPubkey)?.name ?? null)
+      : null;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={requests}
+        keyExtractor={(item) => item.requestId}
+        renderItem={({ item }) => (
+          <RequestItem
+            request={item}
+            agentName={agentName(item)}
+            walletName={walletName(item)}
+            tokenMetadata={tokenMetadata}
+            onPress={() => navigation.navigate('ApproveSession', { requestId: item.requestId })}
+          />
+        )}
+        contentContainerStyle={requests.length === 0 ? styles.emptyList : styles.listContent}
+        ListEmptyComponent={EmptyState}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor="#7c3aed"
+            colors={['#7c3aed']}
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  emptyList: {
+    flex: 1,
+  },
+  requestCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  agentName: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  expiryText: {
+    color: '#f59e0b',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  walletText: {
+    color: '#888888',
+    fontSize: 13,
+  },
+  limitsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  limitChip: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  limitText: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  requestFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  metaText: {
+    color: '#888888',
+    fontSize: 13,
+  },
+  reviewText: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+  },
+  emptyTitle: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    color: '#888888',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+});
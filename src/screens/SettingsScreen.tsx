@@ -1,14 +1,47 @@
-import { StyleSheet, Text, View } from 'react-native';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 import type { TabScreenProps } from '../types/navigation';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { shortenAddress } from '../services/solana';
 
 type Props = TabScreenProps<'Settings'>;
 
 export function SettingsScreen(_props: Props) {
+  const navigation = useNavigation();
+  const wallet = useActiveWallet();
+
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Text style={styles.title}>Settings</Text>
       <Text style={styles.subtitle}>App preferences</Text>
-    </View>
+
+      {/* Active Wallet */}
+      {wallet && (
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>Wallet</Text>
+          <Text style={styles.walletName}>{wallet.name}</Text>
+          <Text style={styles.walletAddress}>{shortenAddress(wallet.publicKey, 8)}</Text>
+          <Text style={styles.walletMeta}>
+            Created {new Date(wallet.createdAt).toLocaleDateString()}
+          </Text>
+        </View>
+      )}
+
+      {/* Emergency */}
+      <View style={[styles.card, styles.dangerCard]}>
+        <Text style={styles.cardLabel}>Emergency</Text>
+        <Text style={styles.dangerText}>
+          Revoke every active session, mark all agents inactive and wipe their auth secrets.
+        </Text>
+        <TouchableOpacity
+          style={styles.dangerButton}
+          onPress={() => navigation.navigate('RevokeAll')}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.dangerButtonText}>Revoke Everything</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
   );
 }
 
@@ -16,9 +49,10 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#0a0a0a',
-    alignItems: 'center',
-    justifyContent: 'center',
+  },
+  content: {
     padding: 20,
+    paddingTop: 60,
   },
   title: {
     color: '#ffffff',
@@ -29,5 +63,57 @@ const styles = StyleSheet.create({
   subtitle: {
     color: '#888888',
     fontSize: 16,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  cardLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  walletName: {
+    color: '#ffffff',
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  walletAddress: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  walletMeta: {
+    color: '#888888',
+    fontSize: 13,
+  },
+  dangerCard: {
+    borderColor: '#7f1d1d',
+  },
+  dangerText: {
+    color: '#888888',
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  dangerButton: {
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
   },
 });
@@ -0,0 +1,195 @@
+/**
+ * TransactionResultScreen - Confirmation status for a sent transaction
+ * Tracks the signature until it confirms or fails, then refreshes balances
+ */
+
+import { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, TouchableOpacity, ActivityIndicator, Linking } from 'react-native';
+import type { RootStackScreenProps } from '../types/navigation';
+import { confirmTransaction } from '../services/solana';
+import { useBalanceStore } from '../store/useBalanceStore';
+
+type Props = RootStackScreenProps<'TransactionResult'>;
+
+type ResultState =
+  | { status: 'confirming' }
+  | { status: 'confirmed' }
+  | { status: 'failed'; message: string };
+
+// Open explorer for transaction
+function openExplorer(signature: string) {
+  const url = `https://explorer.solana.com/tx/${signature}?cluster=devnet`;
+  Linking.openURL(url);
+}
+
+export function TransactionResultScreen({ route, navigation }: Props) {
+  const { signature, walletPubkey, summary } = route.params;
+  const [state, setState] = useState<ResultState>({ status: 'confirming' });
+  const loadBalances = useBalanceStore((s) => s.loadBalances);
+
+  // Track confirmation on mount
+  useEffect(() => {
+    let mounted = true;
+
+    const track = async () => {
+      try {
+        const result = await confirmTransaction(signature);
+        if (!mounted) return;
+
+        setState(
+          result.confirmed
+            ? { status: 'confirmed' }
+            : { status: 'failed', message: result.error ?? 'Transaction failed' }
+        );
+      } catch (error) {
+        if (!mounted) return;
+        setState({
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Failed to confirm transaction',
+        });
+      }
+
+      // Balances changed (or the fee was spent) either way
+      loadBalances(walletPubkey);
+    };
+
+    track();
+
+    return () => {
+      mounted = false;
+    };
+  }, [signature, walletPubkey, loadBalances]);
+
+  const handleDone = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.content}>
+        {state.status === 'confirming' && (
+          <>
+            <ActivityIndicator size="large" color="#8b5cf6" style={styles.spinner} />
+            <Text style={styles.title}>Confirming...</Text>
+            <Text style={styles.subtitle}>Waiting for the network to confirm your transaction</Text>
+          </>
+        )}
+
+        {state.status === 'confirmed' && (
+          <>
+            <Text style={styles.icon}>✅</Text>
+            <Text style={styles.title}>Sent</Text>
+            <Text style={styles.subtitle}>{summary}</Text>
+          </>
+        )}
+
+        {state.status === 'failed' && (
+          <>
+            <Text style={styles.icon}>❌</Text>
+            <Text style={styles.title}>Transaction Failed</Text>
+            <Text style={styles.errorText}>{state.message}</Text>
+          </>
+        )}
+
+        {/* Signature */}
+        <View style={styles.card}>
+          <Text style={styles.cardLabel}>Signature</Text>
+          <Text style={styles.signature} selectable>
+            {signature}
+          </Text>
+          <TouchableOpacity onPress={() => openExplorer(signature)} activeOpacity={0.7}>
+            <Text style={styles.linkText}>View on Explorer</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.buttonContainer}>
+        <TouchableOpacity style={styles.doneButton} onPress={handleDone} activeOpacity={0.7}>
+          <Text style={styles.doneButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  spinner: {
+    marginBottom: 24,
+  },
+  icon: {
+    fontSize: 56,
+    marginBottom: 16,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#888888',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  card: {
+    alignSelf: 'stretch',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+  },
+  cardLabel: {
+    color: '#666666',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  signature: {
+    color: '#ffffff',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  linkText: {
+    color: '#8b5cf6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  buttonContainer: {
+    padding: 20,
+    paddingBottom: 36,
+  },
+  doneButton: {
+    backgroundColor: '#8b5cf6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 56,
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
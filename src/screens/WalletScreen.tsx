@@ -1,4 +1,4 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   StyleSheet,
   Text,
@@ -11,51 +11,42 @@ import {
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { TabScreenProps, RootStackParamList } from '../types/navigation';
-import type { TokenBalance } from '../types';
-import { shortenAddress, formatSol } from '../services/solana';
+import { shortenAddress, formatSol, formatFeeBps } from '../services/solana';
+import { useActiveWallet } from '../hooks/useActiveWallet';
+import { useBalances } from '../hooks/useBalances';
+import { WalletSwitcher } from '../components/WalletSwitcher';
+import { TokenIcon } from '../components/TokenIcon';
 
 type Props = TabScreenProps<'Wallet'>;
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
-// Mock wallet data for development
-const MOCK_WALLET_ADDRESS = '7NpVxKv7z8yKPQWnqvWhcEz8xKZcvqRK9wNbK3vKz9mH';
-
-export function WalletScreen(_props: Props) {
+export function WalletScreen({ navigation: tabNavigation }: Props) {
   const navigation = useNavigation<NavigationProp>();
+  const wallet = useActiveWallet();
+
+  // Wallet switcher in the tab header
+  useEffect(() => {
+    tabNavigation.setOptions({
+      headerShown: true,
+      headerTitle: () => <WalletSwitcher />,
+      headerStyle: {
+        backgroundColor: '#0a0a0a',
+      },
+      headerShadowVisible: false,
+    });
+  }, [tabNavigation]);
   const [refreshing, setRefreshing] = useState(false);
-  // Loading state for future use when integrating with real data fetching
-  const loadingState = useState(false);
-  const loading = loadingState[0];
-  // Balances will be updated when integrating with real wallet service
-  const balancesState = useState<TokenBalance[]>([
-    {
-      mint: 'native',
-      amount: 2_500_000_000, // 2.5 SOL in lamports
-      decimals: 9,
-      symbol: 'SOL',
-      uiAmount: 2.5,
-      logoUri: null,
-    },
-    {
-      mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
-      amount: 100_000_000, // 100 USDC
-      decimals: 6,
-      symbol: 'USDC',
-      uiAmount: 100,
-      logoUri: null,
-    },
-  ]);
-  const balances = balancesState[0];
+  const { balances, fetchedAt, isLoading, error, isStale, refresh } = useBalances();
+  const loading = isLoading && fetchedAt === null;
 
   const solBalance = balances.find((b) => b.mint === 'native');
   const tokenBalances = balances.filter((b) => b.mint !== 'native');
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    // Simulate fetching balances
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    await refresh();
     setRefreshing(false);
-  }, []);
+  }, [refresh]);
 
   const handleSend = useCallback(() => {
     navigation.navigate('Send', {});
@@ -65,6 +56,10 @@ export function WalletScreen(_props: Props) {
     navigation.navigate('Receive');
   }, [navigation]);
 
+  const handleScan = useCallback(() => {
+    navigation.navigate('Scan');
+  }, [navigation]);
+
   const handleTokenPress = useCallback(
     (tokenMint: string) => {
       navigation.navigate('Send', { tokenMint });
@@ -93,13 +88,25 @@ export function WalletScreen(_props: Props) {
         />
       }
     >
+      {/* Stale / Error Banner */}
+      {error && (
+        <TouchableOpacity style={styles.errorBanner} onPress={onRefresh} activeOpacity={0.7}>
+          <Text style={styles.errorBannerText}>
+            {fetchedAt !== null
+              ? `Couldn't refresh balances. Showing balances from ${new Date(fetchedAt).toLocaleTimeString()}.`
+              : "Couldn't load balances."}{' '}
+            Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Balance Card */}
       <View style={styles.balanceCard}>
         <Text style={styles.balanceLabel}>Total Balance</Text>
-        <Text style={styles.balanceAmount}>
+        <Text style={[styles.balanceAmount, isStale && styles.balanceStale]}>
           {solBalance ? formatSol(solBalance.amount, 4) : '0.0000'} SOL
         </Text>
-        <Text style={styles.walletAddress}>{shortenAddress(MOCK_WALLET_ADDRESS)}</Text>
+        <Text style={styles.walletAddress}>{shortenAddress(wallet?.publicKey ?? '')}</Text>
       </View>
 
       {/* Action Buttons */}
@@ -117,6 +124,13 @@ export function WalletScreen(_props: Props) {
           </View>
           <Text style={styles.actionLabel}>Receive</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity style={styles.actionButton} onPress={handleScan} activeOpacity={0.7}>
+          <View style={styles.actionIconContainer}>
+            <Text style={styles.actionIcon}>⌗</Text>
+          </View>
+          <Text style={styles.actionLabel}>Scan</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Token List */}
@@ -152,12 +166,25 @@ export function WalletScreen(_props: Props) {
             onPress={() => handleTokenPress(token.mint)}
             activeOpacity={0.7}
           >
-            <View style={[styles.tokenIcon, styles.tokenIconAlt]}>
-              <Text style={styles.tokenIconText}>{token.symbol?.[0] || '?'}</Text>
+            <View style={styles.tokenIconContainer}>
+              <TokenIcon symbol={token.symbol} logoUri={token.logoUri} />
             </View>
             <View style={styles.tokenInfo}>
               <Text style={styles.tokenSymbol}>{token.symbol || 'Unknown'}</Text>
-              <Text style={styles.tokenMint}>{shortenAddress(token.mint, 4)}</Text>
+              {token.name ? (
+                <Text style={styles.tokenName} numberOfLines={1}>
+                  {token.name}
+                </Text>
+              ) : (
+                <Text style={styles.tokenMint}>{shortenAddress(token.mint, 4)}</Text>
+              )}
+              {token.nonTransferable ? (
+                <Text style={styles.tokenBadge}>Non-transferable</Text>
+              ) : token.transferFeeBps ? (
+                <Text style={styles.tokenBadge}>
+                  {formatFeeBps(token.transferFeeBps)} transfer fee
+                </Text>
+              ) : null}
             </View>
             <View style={styles.tokenBalanceContainer}>
               <Text style={styles.tokenBalance}>
@@ -167,7 +194,7 @@ export function WalletScreen(_props: Props) {
           </TouchableOpacity>
         ))}
 
-        {tokenBalances.length === 0 && !solBalance && (
+        {tokenBalances.length === 0 && !solBalance && !error && (
           <View style={styles.emptyState}>
             <Text style={styles.emptyText}>No tokens found</Text>
           </View>
@@ -211,6 +238,22 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginBottom: 8,
   },
+  balanceStale: {
+    color: '#888888',
+  },
+  errorBanner: {
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(239, 68, 68, 0.3)',
+  },
+  errorBannerText: {
+    color: '#ef4444',
+    fontSize: 13,
+    textAlign: 'center',
+  },
   walletAddress: {
     color: '#8b5cf6',
     fontSize: 14,
@@ -272,8 +315,8 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginRight: 12,
   },
-  tokenIconAlt: {
-    backgroundColor: '#3b82f6',
+  tokenIconContainer: {
+    marginRight: 12,
   },
   tokenIconText: {
     color: '#ffffff',
@@ -293,6 +336,11 @@ const styles = StyleSheet.create({
     color: '#888888',
     fontSize: 13,
   },
+  tokenBadge: {
+    color: '#f59e0b',
+    fontSize: 11,
+    marginTop: 2,
+  },
   tokenMint: {
     color: '#666666',
     fontSize: 12,
@@ -6,6 +6,10 @@ export { SettingsScreen } from './SettingsScreen';
 export { AgentDetailScreen } from './AgentDetailScreen';
 export { SessionDetailScreen } from './SessionDetailScreen';
 export { SendScreen } from './SendScreen';
+export { TransactionResultScreen } from './TransactionResultScreen';
 export { ReceiveScreen } from './ReceiveScreen';
 export { PairAgentScreen } from './PairAgentScreen';
 export { ApproveSessionScreen } from './ApproveSessionScreen';
+export { ScanScreen } from './ScanScreen';
+export { RevokeAllScreen } from './RevokeAllScreen';
+export { SessionRequestsScreen } from './SessionRequestsScreen';
@@ -0,0 +1,103 @@
+import type { Session } from '../../types';
+import { getRemainingAllowance, isAllowanceConsumed, markExhaustedSessions } from '../allowance';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const SOL_LIMIT = { mint: 'native', amount: 1_000_000_000, decimals: 9, symbol: 'SOL' };
+const USDC_LIMIT = { mint: USDC, amount: 5_000_000, decimals: 6, symbol: 'USDC' };
+const BONK_LIMIT = { mint: BONK, amount: 100_000, decimals: 5, symbol: 'BONK' };
+
+function session(id: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    agentId: 'agent-1',
+    walletPubkey: 'wallet',
+    sessionPubkey: `${id}-key`,
+    limits: [SOL_LIMIT, USDC_LIMIT, BONK_LIMIT],
+    durationSeconds: 3600,
+    createdAt: 0,
+    expiresAt: 3_600_000,
+    status: 'active',
+    spent: {},
+    ...overrides,
+  };
+}
+
+describe('getRemainingAllowance', () => {
+  it('subtracts what was spent per mint, in the base units of each mint', () => {
+    const remaining = getRemainingAllowance(
+      session('s1', { spent: { native: 250_000_000, [USDC]: 1_500_000 } })
+    );
+
+    expect(remaining).toEqual({ native: 750_000_000, [USDC]: 3_500_000, [BONK]: 100_000 });
+  });
+
+  it('never goes below zero', () => {
+    expect(getRemainingAllowance(session('s1', { spent: { [BONK]: 200_000 } }))[BONK]).toBe(0);
+  });
+});
+
+describe('isAllowanceConsumed', () => {
+  it.each<{ label: string; spent: Session['spent']; consumed: boolean }>([
+    { label: 'nothing is spent', spent: {}, consumed: false },
+    { label: 'one mint is spent', spent: { native: 1_000_000_000 }, consumed: false },
+    {
+      label: 'all but one base unit is spent',
+      spent: { native: 1_000_000_000, [USDC]: 5_000_000, [BONK]: 99_999 },
+      consumed: false,
+    },
+    {
+      label: 'every mint is spent',
+      spent: { native: 1_000_000_000, [USDC]: 5_000_000, [BONK]: 100_000 },
+      consumed: true,
+    },
+    {
+      label: 'every mint is overspent',
+      spent: { native: 2_000_000_000, [USDC]: 6_000_000, [BONK]: 100_001 },
+      consumed: true,
+    },
+  ])('is $consumed when $label', ({ spent, consumed }) => {
+    expect(isAllowanceConsumed(session('s1', { spent }))).toBe(consumed);
+  });
+
+  it('ignores spending in mints the session has no limit for', () => {
+    const spent = { native: 1_000_000_000, [USDC]: 5_000_000, other: 1 };
+
+    expect(isAllowanceConsumed(session('s1', { limits: [SOL_LIMIT, USDC_LIMIT], spent }))).toBe(
+      true
+    );
+  });
+
+  it('never treats a session without limits as consumed', () => {
+    expect(isAllowanceConsumed(session('s1', { limits: [] }))).toBe(false);
+  });
+});
+
+describe('markExhaustedSessions', () => {
+  const allSpent = { native: 1_000_000_000, [USDC]: 5_000_000, [BONK]: 100_000 };
+
+  it('marks active sessions with every limit spent as exhausted', () => {
+    const marked = markExhaustedSessions([
+      session('s1', { spent: allSpent }),
+      session('s2', { spent: { native: 1_000_000_000 } }),
+    ]);
+
+    expect(marked.map((s) => s.status)).toEqual(['exhausted', 'active']);
+  });
+
+  it.each(['expired', 'revoked', 'pending'] as const)(
+    'does not touch a session that is %s',
+    (status) => {
+      const [marked] = markExhaustedSessions([session('s1', { status, spent: allSpent })]);
+
+      expect(marked.status).toBe(status);
+    }
+  );
+
+  it('returns the same array when nothing changed', () => {
+    const sessions = [session('s1'), session('s2', { status: 'revoked', spent: allSpent })];
+
+    expect(markExhaustedSessions(sessions)).toBe(sessions);
+  });
+});
@@ -0,0 +1,128 @@
+import type { SessionPolicy, SpendingLimit } from '../../types';
+import { diffTerms, narrowPolicy, validateCounterOffer, type SessionTerms } from '../counterOffer';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+const sol: SpendingLimit = { mint: 'native', amount: 2_000_000_000, decimals: 9, symbol: 'SOL' };
+const usdc: SpendingLimit = { mint: USDC, amount: 50_000_000, decimals: 6, symbol: 'USDC' };
+
+const policy: SessionPolicy = {
+  maxPerTransaction: [
+    { mint: 'native', amount: 500_000_000 },
+    { mint: USDC, amount: 10_000_000 },
+  ],
+  dailyCaps: [{ mint: USDC, amount: 20_000_000 }],
+  allowedDestinations: ['Dest1111111111111111111111111111111111111111'],
+};
+
+const requested: SessionTerms = { limits: [sol, usdc], durationSeconds: 3600 };
+
+describe('diffTerms', () => {
+  it('finds no changes in the requested terms', () => {
+    expect(diffTerms(requested, requested)).toEqual([]);
+  });
+
+  it('lists reduced and removed limits in request order, then the duration', () => {
+    const amended = { limits: [{ ...usdc, amount: 20_000_000 }], durationSeconds: 1800 };
+
+    expect(diffTerms(requested, amended)).toEqual([
+      { kind: 'limit_removed', limit: sol },
+      { kind: 'limit_reduced', limit: usdc, amount: 20_000_000 },
+      { kind: 'duration_shortened', from: 3600, to: 1800 },
+    ]);
+  });
+
+  it('only reports the duration for terms without limits', () => {
+    expect(
+      diffTerms({ limits: [], durationSeconds: 3600 }, { limits: [], durationSeconds: 600 })
+    ).toEqual([{ kind: 'duration_shortened', from: 3600, to: 600 }]);
+  });
+});
+
+describe('validateCounterOffer', () => {
+  it.each<[string, SessionTerms]>([
+    ['the requested terms', requested],
+    ['a lower limit', { limits: [sol, { ...usdc, amount: 1 }], durationSeconds: 3600 }],
+    ['a removed token', { limits: [usdc], durationSeconds: 3600 }],
+    ['a shorter duration', { limits: [sol, usdc], durationSeconds: 60 }],
+  ])('accepts %s', (_label, amended) => {
+    expect(validateCounterOffer(requested, amended)).toBeNull();
+  });
+
+  it.each<[string, SessionTerms, string]>([
+    [
+      'removing every limit',
+      { limits: [], durationSeconds: 3600 },
+      'Keep at least one spending limit, or reject the request',
+    ],
+    [
+      'an added token',
+      {
+        limits: [
+          sol,
+          { mint: 'Bonk1111111111111111111111111111111111111111', amount: 1, decimals: 5 },
+        ],
+        durationSeconds: 3600,
+      },
+      'A counter-offer cannot add tokens the agent did not ask for',
+    ],
+    [
+      'changed decimals',
+      { limits: [{ ...usdc, decimals: 9 }], durationSeconds: 3600 },
+      'A limit cannot change its token decimals',
+    ],
+    [
+      'a zero limit',
+      { limits: [{ ...usdc, amount: 0 }], durationSeconds: 3600 },
+      'Limits must be greater than zero; remove a token instead',
+    ],
+    [
+      'a limit above the request',
+      { limits: [{ ...sol, amount: sol.amount + 1 }], durationSeconds: 3600 },
+      'A counter-offer cannot raise a limit above the request',
+    ],
+    [
+      'a zero duration',
+      { limits: [sol], durationSeconds: 0 },
+      'Duration must be greater than zero',
+    ],
+    [
+      'a longer duration',
+      { limits: [sol], durationSeconds: 7200 },
+      'A counter-offer cannot extend the requested duration',
+    ],
+  ])('refuses %s', (_label, amended, message) => {
+    expect(validateCounterOffer(requested, amended)).toBe(message);
+  });
+
+  it('lets terms without limits be edited', () => {
+    const unlimited = { limits: [], durationSeconds: 3600 };
+
+    expect(validateCounterOffer(unlimited, { limits: [], durationSeconds: 600 })).toBeNull();
+    expect(validateCounterOffer(unlimited, { limits: [sol], durationSeconds: 600 })).toBe(
+      'A counter-offer cannot add tokens the agent did not ask for'
+    );
+  });
+});
+
+describe('narrowPolicy', () => {
+  it('keeps the policy as is while every mint is still granted', () => {
+    expect(narrowPolicy(policy, [sol, usdc])).toEqual(policy);
+  });
+
+  it('drops the amounts of a removed mint', () => {
+    const narrowed = narrowPolicy(policy, [sol]);
+
+    expect(narrowed?.maxPerTransaction).toEqual([{ mint: 'native', amount: 500_000_000 }]);
+    expect(narrowed?.dailyCaps).toBeUndefined();
+    expect(narrowed?.allowedDestinations).toEqual(policy.allowedDestinations);
+  });
+
+  it('leaves rules that were empty to begin with', () => {
+    expect(narrowPolicy({ dailyCaps: [] }, [sol])).toEqual({ dailyCaps: [] });
+  });
+
+  it('passes a missing policy through', () => {
+    expect(narrowPolicy(undefined, [sol])).toBeUndefined();
+  });
+});
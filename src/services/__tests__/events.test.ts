@@ -0,0 +1,239 @@
+import type { WalletEvent, WalletEventsResponse } from '../../types';
+import {
+  isEventStreamConnected,
+  WalletEventClient,
+  type EventSocket,
+  type WalletEventClientOptions,
+} from '../events';
+
+const WALLET = 'Wa11et1111111111111111111111111111111111111';
+
+// Stands in for the server end of one WebSocket connection
+class FakeSocket {
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((message: { data: unknown }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: unknown) => void) | null = null;
+  close = jest.fn();
+
+  constructor(public readonly url: string) {}
+
+  open() {
+    this.onopen?.({});
+  }
+
+  send(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+
+  drop() {
+    this.onerror?.({});
+    this.onclose?.({});
+  }
+}
+
+function exhausted(id: string): WalletEvent {
+  return { type: 'session_exhausted', id, walletPubkey: WALLET, at: 0, sessionId: 'session-1' };
+}
+
+describe('WalletEventClient', () => {
+  let sockets: FakeSocket[];
+  let onEvent: jest.Mock<void, [WalletEvent]>;
+  let fetchEvents: jest.Mock<Promise<WalletEventsResponse>, [string, string?]>;
+
+  const latest = () => sockets[sockets.length - 1];
+  const deliveredIds = () => onEvent.mock.calls.map(([event]) => event.id);
+
+  function createClient(options: Partial<WalletEventClientOptions> = {}) {
+    return new WalletEventClient({
+      walletPubkey: WALLET,
+      onEvent,
+      createSocket: (url) => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket as unknown as EventSocket;
+      },
+      fetchEvents,
+      baseUrl: 'https://events.test',
+      initialBackoffMs: 1000,
+      maxBackoffMs: 4000,
+      pollIntervalMs: 5000,
+      failuresBeforePolling: 2,
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // No jitter: every reconnect waits the full backoff delay
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    sockets = [];
+    onEvent = jest.fn();
+    fetchEvents = jest.fn().mockResolvedValue({ events: [], cursor: null });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('connects to the wallet stream and delivers each valid event once', () => {
+    const client = createClient();
+    client.start();
+
+    expect(latest().url).toBe(`wss://events.test/api/events/stream?wallet=${WALLET}`);
+    expect(client.getStatus()).toBe('connecting');
+
+    latest().open();
+    expect(client.getStatus()).toBe('connected');
+    expect(isEventStreamConnected(WALLET)).toBe(true);
+
+    latest().send(exhausted('e1'));
+    latest().send(exhausted('e1'));
+    latest().send('not json');
+    latest().send({ type: 'from_a_newer_server', id: 'e2', walletPubkey: WALLET, at: 0 });
+
+    expect(deliveredIds()).toEqual(['e1']);
+    expect(client.getCursor()).toBe('e1');
+
+    client.stop();
+    expect(latest().close).toHaveBeenCalled();
+    expect(isEventStreamConnected(WALLET)).toBe(false);
+  });
+
+  it('reconnects with exponential backoff capped at the maximum', () => {
+    const client = createClient({ failuresBeforePolling: 10 });
+    client.start();
+
+    for (const delay of [1000, 2000, 4000, 4000]) {
+      const count = sockets.length;
+      latest().drop();
+      expect(client.getStatus()).toBe('connecting');
+
+      jest.advanceTimersByTime(delay - 1);
+      expect(sockets).toHaveLength(count);
+      jest.advanceTimersByTime(1);
+      expect(sockets).toHaveLength(count + 1);
+    }
+
+    client.stop();
+  });
+
+  it('waits between half and all of the backoff delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const client = createClient();
+    client.start();
+
+    latest().drop();
+    jest.advanceTimersByTime(499);
+    expect(sockets).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    client.stop();
+  });
+
+  it('resets the backoff once a connection opens', () => {
+    const client = createClient({ failuresBeforePolling: 10 });
+    client.start();
+
+    latest().drop();
+    jest.advanceTimersByTime(1000);
+    latest().drop();
+    jest.advanceTimersByTime(2000);
+    latest().open();
+
+    latest().drop();
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(4);
+
+    client.stop();
+  });
+
+  it('resumes after the last delivered event when reconnecting', () => {
+    const client = createClient();
+    client.start('e0');
+    expect(latest().url).toContain('&after=e0');
+
+    latest().open();
+    latest().send(exhausted('e1'));
+    latest().send(exhausted('e2'));
+    latest().drop();
+    jest.advanceTimersByTime(1000);
+
+    expect(latest().url).toBe(`wss://events.test/api/events/stream?wallet=${WALLET}&after=e2`);
+    expect(client.getCursor()).toBe('e2');
+
+    client.stop();
+  });
+
+  it('polls from the cursor once the socket keeps failing, and stops when it reconnects', async () => {
+    fetchEvents.mockResolvedValueOnce({ events: [exhausted('e1'), exhausted('e2')], cursor: 'e2' });
+    const client = createClient();
+    client.start();
+
+    latest().open();
+    latest().send(exhausted('e1'));
+    latest().drop();
+    expect(client.getStatus()).toBe('connecting');
+    expect(fetchEvents).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    latest().drop();
+    expect(client.getStatus()).toBe('polling');
+    expect(fetchEvents).toHaveBeenCalledWith(WALLET, 'e1');
+
+    // The event already delivered over the socket is not repeated
+    await jest.advanceTimersByTimeAsync(0);
+    expect(deliveredIds()).toEqual(['e1', 'e2']);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(latest().url).toContain('&after=e2');
+    expect(client.getStatus()).toBe('polling');
+
+    latest().open();
+    expect(client.getStatus()).toBe('connected');
+
+    const polls = fetchEvents.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(fetchEvents).toHaveBeenCalledTimes(polls);
+
+    client.stop();
+  });
+
+  it('keeps polling on an interval while the socket stays down', async () => {
+    fetchEvents.mockResolvedValueOnce({ events: [], cursor: 'e9' });
+    const client = createClient({ maxBackoffMs: 60000, initialBackoffMs: 30000 });
+    client.start();
+
+    latest().drop();
+    await jest.advanceTimersByTimeAsync(30000);
+    latest().drop();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchEvents).toHaveBeenCalledTimes(1);
+
+    // An empty page still moves the cursor forward
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(fetchEvents).toHaveBeenCalledTimes(2);
+    expect(fetchEvents).toHaveBeenLastCalledWith(WALLET, 'e9');
+
+    client.stop();
+  });
+
+  it('stops reconnecting and polling once stopped', async () => {
+    const client = createClient();
+    client.start();
+
+    latest().drop();
+    await jest.advanceTimersByTimeAsync(1000);
+    latest().drop();
+    const socket = latest();
+    client.stop();
+
+    socket.drop();
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(sockets).toHaveLength(2);
+    expect(fetchEvents).toHaveBeenCalledTimes(1);
+    expect(client.getStatus()).toBe('stopped');
+  });
+});
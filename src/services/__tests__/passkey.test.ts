@@ -0,0 +1,115 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import type { SessionApprovalPayload } from '../../types';
+import { base64ToBytes, bytesToBase64Url, bytesToUtf8, utf8ToBytes } from '../encoding';
+import { PASSKEY_RP_ID, PasskeyError, SoftwarePasskeyAuthenticator } from '../passkey';
+import {
+  signSessionApproval,
+  signTransaction,
+  transactionChallenge,
+  verifyPasskeySignature,
+  verifySessionApproval,
+} from '../signing';
+import { createPasskeyWallet, deriveSmartWalletAddress } from '../wallet';
+
+function approvalFor(walletPubkey: string): SessionApprovalPayload {
+  return {
+    requestId: 'request-1',
+    walletPubkey,
+    sessionPubkey: Keypair.generate().publicKey.toBase58(),
+    limits: [{ mint: 'native', amount: 1_000_000_000, decimals: 9, symbol: 'SOL' }],
+    durationSeconds: 3600,
+    expiresAt: 1_800_000_000_000,
+    nonce: 'nonce-1',
+  };
+}
+
+describe('SoftwarePasskeyAuthenticator', () => {
+  it('creates a wallet controlled by the new passkey', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+    const wallet = await createPasskeyWallet({ name: 'Test Wallet', authenticator });
+
+    const passkeyPubkey = base64ToBytes(wallet.passkeyPubkey);
+    expect(passkeyPubkey).toHaveLength(33);
+    expect(wallet.name).toBe('Test Wallet');
+    expect(wallet.publicKey).toBe(deriveSmartWalletAddress(passkeyPubkey).toBase58());
+  });
+
+  it('signs assertions bound to the relying party', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+    const { credentialId } = await authenticator.createCredential({
+      userName: 'test',
+      displayName: 'Test',
+    });
+    const challenge = utf8ToBytes('challenge');
+
+    const assertion = await authenticator.sign(credentialId, challenge);
+
+    expect(assertion.authenticatorData.slice(0, 32)).toEqual(sha256(utf8ToBytes(PASSKEY_RP_ID)));
+    expect(JSON.parse(bytesToUtf8(assertion.clientDataJSON))).toEqual({
+      type: 'webauthn.get',
+      challenge: bytesToBase64Url(challenge),
+      origin: `https://${PASSKEY_RP_ID}`,
+    });
+    expect(assertion.signature).toHaveLength(64);
+  });
+
+  it('produces session approvals that verify against the wallet passkey', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+    const wallet = await createPasskeyWallet({ authenticator });
+
+    const signed = await signSessionApproval(wallet, approvalFor(wallet.publicKey), authenticator);
+
+    expect(verifySessionApproval(signed, wallet.passkeyPubkey)).toBe(true);
+    expect(
+      verifySessionApproval(
+        { ...signed, payload: { ...signed.payload, durationSeconds: 7200 } },
+        wallet.passkeyPubkey
+      )
+    ).toBe(false);
+
+    const other = await createPasskeyWallet({ authenticator });
+    expect(verifySessionApproval(signed, other.passkeyPubkey)).toBe(false);
+  });
+
+  it('signs wallet transactions over their message', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+    const wallet = await createPasskeyWallet({ authenticator });
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: new PublicKey(wallet.publicKey),
+        toPubkey: Keypair.generate().publicKey,
+        lamports: 1000,
+      })
+    );
+    transaction.feePayer = new PublicKey(wallet.publicKey);
+    transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+
+    const signed = await signTransaction(wallet, transaction, authenticator);
+
+    const challenge = transactionChallenge(transaction.serializeMessage());
+    expect(verifyPasskeySignature(signed, challenge, wallet.passkeyPubkey)).toBe(true);
+  });
+
+  it('refuses payloads for another wallet', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+    const wallet = await createPasskeyWallet({ authenticator });
+
+    await expect(
+      signSessionApproval(
+        wallet,
+        approvalFor(Keypair.generate().publicKey.toBase58()),
+        authenticator
+      )
+    ).rejects.toThrow('Approval payload does not belong to this wallet');
+  });
+
+  it('fails for a credential it did not create', async () => {
+    const authenticator = new SoftwarePasskeyAuthenticator();
+
+    const error = await authenticator.sign('unknown', new Uint8Array(32)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(PasskeyError);
+    expect(error.code).toBe('failed');
+  });
+});
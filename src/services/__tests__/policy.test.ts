@@ -0,0 +1,409 @@
+import {
+  describePolicyViolation,
+  evaluatePolicy,
+  hasPolicyRules,
+  isWithinTimeWindows,
+  type PolicySession,
+  type PolicyTransaction,
+} from '../policy';
+import type { TimeWindow } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const ALICE = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const BOB = '4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+// Monday 19 October 2026, 12:00 UTC
+const MONDAY_NOON = Date.UTC(2026, 9, 19, 12, 0);
+
+// Minutes after midnight UTC on the given day of the test week (0 = Sunday 18 October)
+function utc(day: number, hours: number, minutes = 0): number {
+  return Date.UTC(2026, 9, 18 + day, hours, minutes);
+}
+
+function session(overrides: Partial<PolicySession> = {}): PolicySession {
+  return {
+    limits: [
+      { mint: 'native', amount: 1000, decimals: 9 },
+      { mint: USDC, amount: 500, decimals: 6 },
+    ],
+    spent: {},
+    ...overrides,
+  };
+}
+
+function transfer(overrides: Partial<PolicyTransaction> = {}): PolicyTransaction {
+  return {
+    kind: 'transfer',
+    mint: 'native',
+    amount: 100,
+    destination: ALICE,
+    at: MONDAY_NOON,
+    ...overrides,
+  };
+}
+
+describe('evaluatePolicy', () => {
+  it('allows a transfer within the limits when there is no policy', () => {
+    expect(evaluatePolicy(session(), transfer())).toEqual({ allowed: true, violations: [] });
+  });
+
+  describe('mint_not_allowed', () => {
+    it('refuses a mint the session has no limit for', () => {
+      expect(evaluatePolicy(session(), transfer({ mint: BOB })).violations).toEqual([
+        { kind: 'mint_not_allowed', mint: BOB },
+      ]);
+    });
+  });
+
+  describe('session_limit', () => {
+    it('allows spending exactly up to the limit', () => {
+      const result = evaluatePolicy(session({ spent: { native: 900 } }), transfer());
+      expect(result.allowed).toBe(true);
+    });
+
+    it('refuses spending past the limit', () => {
+      expect(evaluatePolicy(session({ spent: { native: 901 } }), transfer()).violations).toEqual([
+        { kind: 'session_limit', mint: 'native', limit: 1000, spent: 901, amount: 100 },
+      ]);
+    });
+
+    it('counts spending per mint', () => {
+      const result = evaluatePolicy(
+        session({ spent: { native: 1000 } }),
+        transfer({ mint: USDC, amount: 500 })
+      );
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('max_per_transaction', () => {
+    const policy = { maxPerTransaction: [{ mint: 'native', amount: 100 }] };
+
+    it('allows a transfer at the maximum', () => {
+      expect(evaluatePolicy(session({ policy }), transfer()).allowed).toBe(true);
+    });
+
+    it('refuses a transfer above the maximum', () => {
+      expect(evaluatePolicy(session({ policy }), transfer({ amount: 101 })).violations).toEqual([
+        { kind: 'max_per_transaction', mint: 'native', max: 100, amount: 101 },
+      ]);
+    });
+
+    it('does not limit other mints', () => {
+      const result = evaluatePolicy(session({ policy }), transfer({ mint: USDC, amount: 400 }));
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('daily_cap', () => {
+    const policy = { dailyCaps: [{ mint: 'native', amount: 300 }] };
+    const at = MONDAY_NOON;
+
+    it('allows spending up to the cap', () => {
+      const history = [{ mint: 'native', amount: 200, at: at - 60000 }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).allowed).toBe(true);
+    });
+
+    it('refuses spending past the cap', () => {
+      const history = [
+        { mint: 'native', amount: 150, at: at - 60000 },
+        { mint: 'native', amount: 100, at: at - 2 * 60000 },
+      ];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).violations).toEqual([
+        { kind: 'daily_cap', mint: 'native', cap: 300, spentToday: 250, amount: 100 },
+      ]);
+    });
+
+    it('ignores a spend exactly 24 hours old', () => {
+      const history = [{ mint: 'native', amount: 250, at: at - DAY_MS }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).allowed).toBe(true);
+    });
+
+    it('counts a spend just inside 24 hours', () => {
+      const history = [{ mint: 'native', amount: 250, at: at - DAY_MS + 1 }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).violations).toEqual([
+        { kind: 'daily_cap', mint: 'native', cap: 300, spentToday: 250, amount: 100 },
+      ]);
+    });
+
+    it('counts a spend at the same moment', () => {
+      const history = [{ mint: 'native', amount: 250, at }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).allowed).toBe(false);
+    });
+
+    it('ignores spends after the transaction', () => {
+      const history = [{ mint: 'native', amount: 250, at: at + 1 }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).allowed).toBe(true);
+    });
+
+    it('ignores spends of other mints', () => {
+      const history = [{ mint: USDC, amount: 250, at: at - 60000 }];
+      expect(evaluatePolicy(session({ policy }), transfer(), history).allowed).toBe(true);
+    });
+  });
+
+  describe('destination_not_allowed', () => {
+    const policy = { allowedDestinations: [ALICE] };
+
+    it('allows a listed destination', () => {
+      expect(evaluatePolicy(session({ policy }), transfer()).allowed).toBe(true);
+    });
+
+    it('refuses an unlisted destination', () => {
+      expect(
+        evaluatePolicy(session({ policy }), transfer({ destination: BOB })).violations
+      ).toEqual([{ kind: 'destination_not_allowed', destination: BOB }]);
+    });
+
+    it('refuses a transfer without a destination', () => {
+      expect(
+        evaluatePolicy(session({ policy }), transfer({ destination: undefined })).violations
+      ).toEqual([{ kind: 'destination_not_allowed', destination: null }]);
+    });
+
+    it('refuses every transfer when the list is empty', () => {
+      const result = evaluatePolicy(session({ policy: { allowedDestinations: [] } }), transfer());
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe('program_not_allowed', () => {
+    const policy = { allowedPrograms: [SYSTEM_PROGRAM] };
+    const signAndSend = (programIds: string[]): PolicyTransaction => ({
+      kind: 'sign_and_send',
+      programIds,
+      at: MONDAY_NOON,
+    });
+
+    it('allows listed programs', () => {
+      expect(evaluatePolicy(session({ policy }), signAndSend([SYSTEM_PROGRAM])).allowed).toBe(true);
+    });
+
+    it('reports each unlisted program once', () => {
+      expect(
+        evaluatePolicy(
+          session({ policy }),
+          signAndSend([SYSTEM_PROGRAM, TOKEN_PROGRAM, TOKEN_PROGRAM])
+        ).violations
+      ).toEqual([{ kind: 'program_not_allowed', programId: TOKEN_PROGRAM }]);
+    });
+
+    it('does not apply to transfers', () => {
+      expect(evaluatePolicy(session({ policy }), transfer()).allowed).toBe(true);
+    });
+  });
+
+  describe('outside_time_window', () => {
+    const policy = {
+      timeWindows: [{ startMinute: 9 * 60, endMinute: 17 * 60, utcOffsetMinutes: 0 }],
+    };
+
+    it('allows a transaction inside the window', () => {
+      expect(evaluatePolicy(session({ policy }), transfer()).allowed).toBe(true);
+    });
+
+    it('refuses a transaction outside the window', () => {
+      expect(evaluatePolicy(session({ policy }), transfer({ at: utc(1, 18) })).violations).toEqual([
+        { kind: 'outside_time_window' },
+      ]);
+    });
+  });
+
+  it('reports every broken rule, not just the first', () => {
+    const result = evaluatePolicy(
+      session({
+        spent: { native: 950 },
+        policy: {
+          maxPerTransaction: [{ mint: 'native', amount: 50 }],
+          dailyCaps: [{ mint: 'native', amount: 80 }],
+          allowedDestinations: [ALICE],
+          timeWindows: [{ startMinute: 0, endMinute: 60, utcOffsetMinutes: 0 }],
+        },
+      }),
+      transfer({ destination: BOB }),
+      [{ mint: 'native', amount: 10, at: MONDAY_NOON - 60000 }]
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.violations.map((v) => v.kind)).toEqual([
+      'session_limit',
+      'max_per_transaction',
+      'daily_cap',
+      'destination_not_allowed',
+      'outside_time_window',
+    ]);
+  });
+});
+
+describe('isWithinTimeWindows', () => {
+  const businessHours: TimeWindow = {
+    days: [1, 2, 3, 4, 5],
+    startMinute: 9 * 60,
+    endMinute: 17 * 60,
+    utcOffsetMinutes: 0,
+  };
+
+  it('includes the start minute and excludes the end minute', () => {
+    expect(isWithinTimeWindows([businessHours], utc(1, 9))).toBe(true);
+    expect(isWithinTimeWindows([businessHours], utc(1, 16, 59))).toBe(true);
+    expect(isWithinTimeWindows([businessHours], utc(1, 17))).toBe(false);
+  });
+
+  it('applies the days filter', () => {
+    expect(isWithinTimeWindows([businessHours], utc(0, 12))).toBe(false);
+    expect(isWithinTimeWindows([businessHours], utc(6, 12))).toBe(false);
+  });
+
+  it('matches if any window matches', () => {
+    const weekend: TimeWindow = {
+      days: [0, 6],
+      startMinute: 0,
+      endMinute: 1440,
+      utcOffsetMinutes: 0,
+    };
+    expect(isWithinTimeWindows([businessHours, weekend], utc(0, 3))).toBe(true);
+    expect(isWithinTimeWindows([businessHours, weekend], utc(1, 3))).toBe(false);
+  });
+
+  describe('windows that wrap past midnight', () => {
+    // Friday night 22:00 until Saturday 02:00
+    const fridayNight: TimeWindow = {
+      days: [5],
+      startMinute: 22 * 60,
+      endMinute: 2 * 60,
+      utcOffsetMinutes: 0,
+    };
+
+    it('includes the late part on the start day', () => {
+      expect(isWithinTimeWindows([fridayNight], utc(5, 22))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], utc(5, 23, 59))).toBe(true);
+    });
+
+    it('includes the early part on the following day', () => {
+      expect(isWithinTimeWindows([fridayNight], utc(6, 0))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], utc(6, 1, 59))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], utc(6, 2))).toBe(false);
+    });
+
+    it('excludes the early part of the start day itself', () => {
+      expect(isWithinTimeWindows([fridayNight], utc(5, 1))).toBe(false);
+    });
+
+    it('excludes the late part of the following day', () => {
+      expect(isWithinTimeWindows([fridayNight], utc(6, 23))).toBe(false);
+    });
+
+    it('wraps Saturday night into Sunday', () => {
+      const saturdayNight = { ...fridayNight, days: [6] };
+      expect(isWithinTimeWindows([saturdayNight], utc(7, 1))).toBe(true);
+      expect(isWithinTimeWindows([saturdayNight], utc(7, 2))).toBe(false);
+      expect(isWithinTimeWindows([saturdayNight], utc(1, 1))).toBe(false);
+    });
+
+    it('applies every day when days is omitted', () => {
+      const everyNight = { ...fridayNight, days: undefined };
+      expect(isWithinTimeWindows([everyNight], utc(2, 23))).toBe(true);
+      expect(isWithinTimeWindows([everyNight], utc(3, 1))).toBe(true);
+      expect(isWithinTimeWindows([everyNight], utc(3, 12))).toBe(false);
+    });
+  });
+
+  describe('UTC offsets', () => {
+    it('shifts the window east of UTC', () => {
+      // 09:00-17:00 at UTC+2 is 07:00-15:00 UTC
+      const window: TimeWindow = { startMinute: 9 * 60, endMinute: 17 * 60, utcOffsetMinutes: 120 };
+      expect(isWithinTimeWindows([window], utc(1, 7))).toBe(true);
+      expect(isWithinTimeWindows([window], utc(1, 6, 59))).toBe(false);
+      expect(isWithinTimeWindows([window], utc(1, 15))).toBe(false);
+    });
+
+    it('shifts the window west of UTC, including fractional offsets', () => {
+      // 09:00-17:00 at UTC-3:30 is 12:30-20:30 UTC
+      const window: TimeWindow = {
+        startMinute: 9 * 60,
+        endMinute: 17 * 60,
+        utcOffsetMinutes: -210,
+      };
+      expect(isWithinTimeWindows([window], utc(1, 12, 30))).toBe(true);
+      expect(isWithinTimeWindows([window], utc(1, 12, 29))).toBe(false);
+      expect(isWithinTimeWindows([window], utc(1, 20, 29))).toBe(true);
+    });
+
+    it('uses the local day, not the UTC day', () => {
+      // Monday 23:00 UTC is already Tuesday 08:00 at UTC+9
+      const tuesdayMorning: TimeWindow = {
+        days: [2],
+        startMinute: 8 * 60,
+        endMinute: 9 * 60,
+        utcOffsetMinutes: 540,
+      };
+      expect(isWithinTimeWindows([tuesdayMorning], utc(1, 23))).toBe(true);
+      expect(isWithinTimeWindows([tuesdayMorning], utc(2, 23))).toBe(false);
+    });
+
+    it('wraps past local midnight with an offset and a days filter', () => {
+      // Friday 22:00 to Saturday 02:00 at UTC-5 is Saturday 03:00-07:00 UTC
+      const fridayNight: TimeWindow = {
+        days: [5],
+        startMinute: 22 * 60,
+        endMinute: 2 * 60,
+        utcOffsetMinutes: -300,
+      };
+      expect(isWithinTimeWindows([fridayNight], utc(6, 3))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], utc(6, 6, 59))).toBe(true);
+      expect(isWithinTimeWindows([fridayNight], utc(6, 7))).toBe(false);
+      expect(isWithinTimeWindows([fridayNight], utc(5, 3))).toBe(false);
+    });
+  });
+});
+
+describe('hasPolicyRules', () => {
+  it('is false for a missing or empty policy', () => {
+    expect(hasPolicyRules(undefined)).toBe(false);
+    expect(hasPolicyRules({})).toBe(false);
+  });
+
+  it('is true when any rule is set, even an empty list', () => {
+    expect(hasPolicyRules({ allowedPrograms: [] })).toBe(true);
+  });
+});
+
+describe('describePolicyViolation', () => {
+  const formatAmount = (mint: string, amount: number) => `${amount} ${mint}`;
+
+  it('describes each kind of violation', () => {
+    expect(
+      describePolicyViolation(
+        { kind: 'max_per_transaction', mint: 'native', max: 5, amount: 6 },
+        formatAmount
+      )
+    ).toBe('Exceeds the per-transaction maximum of 5 native');
+    expect(
+      describePolicyViolation(
+        { kind: 'daily_cap', mint: 'native', cap: 5, spentToday: 7, amount: 1 },
+        formatAmount
+      )
+    ).toBe('Exceeds the daily cap: 0 native left in the last 24 hours');
+    expect(
+      describePolicyViolation(
+        { kind: 'session_limit', mint: 'native', limit: 10, spent: 8, amount: 3 },
+        formatAmount
+      )
+    ).toBe('Exceeds the session limit: 2 native remaining');
+    expect(
+      describePolicyViolation({ kind: 'mint_not_allowed', mint: 'native' }, formatAmount)
+    ).toBe('The session has no spending limit for SOL');
+    expect(
+      describePolicyViolation({ kind: 'destination_not_allowed', destination: null }, formatAmount)
+    ).toBe('Transfer has no destination');
+    expect(
+      describePolicyViolation({ kind: 'program_not_allowed', programId: 'P' }, formatAmount)
+    ).toBe('Program P is not allowed');
+    expect(describePolicyViolation({ kind: 'outside_time_window' }, formatAmount)).toBe(
+      'Outside the allowed hours'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import type { SessionRevocation } from '../../types';
+import { OdysseyApiError } from '../api';
+import { advanceRevocations, type RevocationDeps, type RevocationEntry } from '../revocation';
+
+function pending(sessionId: string): RevocationEntry {
+  const revocation: SessionRevocation = {
+    status: 'pending',
+    requestedAt: 0,
+    payload: {
+      walletPubkey: 'wallet',
+      sessions: [{ sessionId, sessionPubkey: `${sessionId}-key` }],
+      agentIds: [],
+      nonce: 'nonce',
+    },
+    signature: 'signature',
+    authenticatorData: 'authenticator-data',
+    clientDataJSON: 'client-data',
+    transaction: null,
+    transactionSignature: null,
+    attempts: 0,
+    lastError: null,
+  };
+  return { sessionId, revocation };
+}
+
+function depsRejectingWith(error: Error): RevocationDeps {
+  return {
+    revoke: jest.fn().mockRejectedValue(error),
+    send: jest.fn(),
+    confirm: jest.fn(),
+  };
+}
+
+describe('advanceRevocations', () => {
+  it('confirms sessions the server revokes without an on-chain transaction', async () => {
+    const deps: RevocationDeps = {
+      revoke: jest.fn().mockResolvedValue({
+        status: 'revoked',
+        results: [{ sessionId: 's1', transaction: null }],
+      }),
+      send: jest.fn(),
+      confirm: jest.fn(),
+    };
+
+    const [entry] = await advanceRevocations([pending('s1')], deps);
+
+    expect(entry.revocation.status).toBe('confirmed');
+    expect(entry.revocation.attempts).toBe(1);
+  });
+
+  it('sends and confirms the on-chain revocation', async () => {
+    const deps: RevocationDeps = {
+      revoke: jest.fn().mockResolvedValue({
+        status: 'revoked',
+        results: [{ sessionId: 's1', transaction: 'tx' }],
+      }),
+      send: jest.fn().mockResolvedValue('sig'),
+      confirm: jest.fn().mockResolvedValue({ confirmed: true, status: 'confirmed', error: null }),
+    };
+
+    const [entry] = await advanceRevocations([pending('s1')], deps);
+
+    expect(deps.send).toHaveBeenCalledWith('tx');
+    expect(deps.confirm).toHaveBeenCalledWith('sig');
+    expect(entry.revocation).toMatchObject({ status: 'confirmed', transactionSignature: 'sig' });
+  });
+
+  it('asks the server for a new transaction when sending fails', async () => {
+    const deps: RevocationDeps = {
+      revoke: jest
+        .fn()
+        .mockResolvedValueOnce({
+          status: 'revoked',
+          results: [{ sessionId: 's1', transaction: 'tx' }],
+        })
+        .mockResolvedValueOnce({
+          status: 'revoked',
+          results: [{ sessionId: 's1', transaction: 'tx2' }],
+        }),
+      send: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Blockhash not found'))
+        .mockResolvedValueOnce('sig'),
+      confirm: jest.fn().mockResolvedValue({ confirmed: true, status: 'confirmed', error: null }),
+    };
+
+    const [failed] = await advanceRevocations([pending('s1')], deps);
+
+    expect(failed.revocation).toMatchObject({
+      status: 'pending',
+      transaction: null,
+      lastError: 'Blockhash not found',
+    });
+    expect(deps.confirm).not.toHaveBeenCalled();
+
+    const [retried] = await advanceRevocations([failed], deps);
+
+    expect(deps.revoke).toHaveBeenCalledTimes(2);
+    expect(deps.send).toHaveBeenLastCalledWith('tx2');
+    expect(retried.revocation).toMatchObject({ status: 'confirmed', transactionSignature: 'sig' });
+  });
+
+  it('fails a revocation the server rejects', async () => {
+    const deps = depsRejectingWith(new OdysseyApiError('Session not found', 404));
+
+    const [entry] = await advanceRevocations([pending('s1')], deps);
+
+    expect(entry.revocation).toMatchObject({ status: 'failed', lastError: 'Session not found' });
+  });
+
+  it.each([500, 502, 503, 408, 429])('keeps a revocation pending after a %i', async (status) => {
+    const deps = depsRejectingWith(new OdysseyApiError(`HTTP ${status}`, status));
+
+    const [entry] = await advanceRevocations([pending('s1')], deps);
+
+    expect(entry.revocation).toMatchObject({ status: 'pending', lastError: `HTTP ${status}` });
+  });
+
+  it('keeps a revocation pending when the network fails', async () => {
+    const deps = depsRejectingWith(new Error('Network request failed'));
+
+    const [entry] = await advanceRevocations([pending('s1')], deps);
+
+    expect(entry.revocation).toMatchObject({
+      status: 'pending',
+      lastError: 'Network request failed',
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { parseScannedCode } from '../scanParser';
+
+const ADDRESS = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+describe('parseScannedCode', () => {
+  describe('addresses', () => {
+    it('recognises a bare address', () => {
+      expect(parseScannedCode(ADDRESS)).toEqual({ type: 'address', address: ADDRESS });
+    });
+
+    it('trims surrounding whitespace', () => {
+      expect(parseScannedCode(`  ${ADDRESS}\n`)).toEqual({ type: 'address', address: ADDRESS });
+    });
+  });
+
+  describe('Solana Pay transfer requests', () => {
+    it('parses a recipient-only URL', () => {
+      expect(parseScannedCode(`solana:${ADDRESS}`)).toEqual({
+        type: 'transfer',
+        request: { recipient: ADDRESS },
+      });
+    });
+
+    it('parses amount, token, references, label, message and memo', () => {
+      const url =
+        `solana:${ADDRESS}?amount=1.5&spl-token=${MINT}&reference=${ADDRESS}&reference=${MINT}` +
+        '&label=Coffee%20Shop&message=Thanks!&memo=order-42';
+
+      expect(parseScannedCode(url)).toEqual({
+        type: 'transfer',
+        request: {
+          recipient: ADDRESS,
+          amount: '1.5',
+          splToken: MINT,
+          reference: [ADDRESS, MINT],
+          label: 'Coffee Shop',
+          message: 'Thanks!',
+          memo: 'order-42',
+        },
+      });
+    });
+
+    it('accepts an upper-case protocol', () => {
+      expect(parseScannedCode(`SOLANA:${ADDRESS}`)).toEqual({
+        type: 'transfer',
+        request: { recipient: ADDRESS },
+      });
+    });
+
+    it('ignores unknown parameters', () => {
+      expect(parseScannedCode(`solana:${ADDRESS}?foo=bar`)).toEqual({
+        type: 'transfer',
+        request: { recipient: ADDRESS },
+      });
+    });
+
+    it.each([
+      ['an invalid amount', `solana:${ADDRESS}?amount=-1`],
+      ['an invalid token mint', `solana:${ADDRESS}?spl-token=nope`],
+      ['an invalid reference', `solana:${ADDRESS}?reference=nope`],
+      ['an invalid recipient', 'solana:not-an-address'],
+    ])('rejects %s', (_, url) => {
+      expect(parseScannedCode(url)).toEqual({ type: 'unknown', data: url });
+    });
+  });
+
+  describe('Solana Pay transaction requests', () => {
+    it('parses a plain HTTPS link', () => {
+      expect(parseScannedCode('solana:https://merchant.example/pay?order=1')).toEqual({
+        type: 'transaction',
+        link: 'https://merchant.example/pay?order=1',
+      });
+    });
+
+    it('decodes a URL-encoded link', () => {
+      expect(parseScannedCode('solana:https%3A%2F%2Fmerchant.example%2Fpay%3Forder%3D1')).toEqual({
+        type: 'transaction',
+        link: 'https://merchant.example/pay?order=1',
+      });
+    });
+  });
+
+  describe('Odyssey links', () => {
+    it.each([
+      'odyssey://pair?code=ABC123',
+      'https://odyssey.app/pair?code=ABC123',
+      'ODYSSEY://pair/?code=ABC123#ignored',
+    ])('parses the pairing link %s', (url) => {
+      expect(parseScannedCode(url)).toEqual({ type: 'pair', code: 'ABC123' });
+    });
+
+    it.each([
+      'odyssey://approve-session?requestId=req-1',
+      'https://odyssey.app/approve-session?requestId=req-1',
+    ])('parses the session link %s', (url) => {
+      expect(parseScannedCode(url)).toEqual({ type: 'approve-session', requestId: 'req-1' });
+    });
+
+    it.each([
+      ['a pairing link without a code', 'odyssey://pair'],
+      ['a session link without a request id', 'odyssey://approve-session?requestId='],
+      ['an unknown action', 'odyssey://settings'],
+      ['another host', 'https://example.com/pair?code=ABC123'],
+      ['malformed percent-encoding', 'odyssey://pair?code=%E0%A4%A'],
+    ])('rejects %s', (_, url) => {
+      expect(parseScannedCode(url)).toEqual({ type: 'unknown', data: url });
+    });
+  });
+
+  describe('garbage', () => {
+    it.each([
+      ['an empty string', ''],
+      ['whitespace', '   '],
+      ['plain text', 'hello world'],
+      ['a too-short base58 string', '1111'],
+      ['a non-base58 string of address length', '0OIl0OIl0OIl0OIl0OIl0OIl0OIl0OIl'],
+      ['a bare URL', 'https://example.com'],
+    ])('returns unknown for %s', (_, data) => {
+      expect(parseScannedCode(data)).toEqual({ type: 'unknown', data: data.trim() });
+    });
+  });
+});
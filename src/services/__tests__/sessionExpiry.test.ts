@@ -0,0 +1,101 @@
+import type { Session, SessionRevocation } from '../../types';
+import { getNextExpiry, markExpiredSessions } from '../sessionExpiry';
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+function session(id: string, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    agentId: 'agent-1',
+    walletPubkey: 'wallet',
+    sessionPubkey: `${id}-key`,
+    limits: [{ mint: 'native', amount: 1_000_000_000, decimals: 9, symbol: 'SOL' }],
+    durationSeconds: 3600,
+    createdAt: NOW - HOUR_MS,
+    expiresAt: NOW + HOUR_MS,
+    status: 'active',
+    spent: {},
+    ...overrides,
+  };
+}
+
+function revocation(status: SessionRevocation['status']): SessionRevocation {
+  return {
+    status,
+    requestedAt: NOW - 1000,
+    payload: { walletPubkey: 'wallet', sessions: [], agentIds: [], nonce: 'nonce' },
+    signature: 'signature',
+    authenticatorData: 'authenticator-data',
+    clientDataJSON: 'client-data',
+    transaction: 'tx',
+    transactionSignature: null,
+    attempts: 1,
+    lastError: null,
+  };
+}
+
+describe('markExpiredSessions', () => {
+  it.each([
+    { label: 'one millisecond before its expiry', expiresAt: NOW + 1, status: 'active' },
+    { label: 'exactly at its expiry', expiresAt: NOW, status: 'expired' },
+    { label: 'after its expiry', expiresAt: NOW - 1, status: 'expired' },
+  ])('leaves a session $status $label', ({ expiresAt, status }) => {
+    const [marked] = markExpiredSessions([session('s1', { expiresAt })], NOW);
+
+    expect(marked.status).toBe(status);
+  });
+
+  it.each(['revoked', 'exhausted', 'pending'] as const)(
+    'does not touch a session that is %s',
+    (status) => {
+      const [marked] = markExpiredSessions([session('s1', { status, expiresAt: NOW - 1 })], NOW);
+
+      expect(marked.status).toBe(status);
+    }
+  );
+
+  it('expires a session whose revocation is still in progress, keeping the revocation', () => {
+    const submitted = revocation('submitted');
+
+    const [marked] = markExpiredSessions(
+      [session('s1', { expiresAt: NOW - 1, revocation: submitted })],
+      NOW
+    );
+
+    expect(marked.status).toBe('expired');
+    expect(marked.revocation).toBe(submitted);
+  });
+
+  it('returns the same array when nothing changed', () => {
+    const sessions = [session('s1'), session('s2', { status: 'revoked', expiresAt: NOW - 1 })];
+
+    expect(markExpiredSessions(sessions, NOW)).toBe(sessions);
+  });
+});
+
+describe('getNextExpiry', () => {
+  it('returns the earliest expiry among active sessions', () => {
+    const sessions = [
+      session('s1', { expiresAt: NOW + 2 * HOUR_MS }),
+      session('s2', { expiresAt: NOW + HOUR_MS }),
+      session('s3', { expiresAt: NOW + HOUR_MS / 2, status: 'revoked' }),
+    ];
+
+    expect(getNextExpiry(sessions)).toBe(NOW + HOUR_MS);
+  });
+
+  it('includes active sessions that are being revoked', () => {
+    const sessions = [
+      session('s1', { expiresAt: NOW + 2 * HOUR_MS }),
+      session('s2', { expiresAt: NOW + HOUR_MS, revocation: revocation('pending') }),
+    ];
+
+    expect(getNextExpiry(sessions)).toBe(NOW + HOUR_MS);
+  });
+
+  it('returns null when no session is active', () => {
+    expect(getNextExpiry([])).toBeNull();
+    expect(getNextExpiry([session('s1', { status: 'expired' })])).toBeNull();
+  });
+});
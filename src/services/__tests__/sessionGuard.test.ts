@@ -0,0 +1,148 @@
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import type { PolicyTransaction } from '../policy';
+import {
+  assertSessionAllows,
+  getInvokedPrograms,
+  SessionGuardError,
+  type GuardedSession,
+  type SessionGuardErrorCode,
+} from '../sessionGuard';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const ALICE = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const BOB = '4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+// Monday 19 October 2026, 12:00 UTC
+const MONDAY_NOON = Date.UTC(2026, 9, 19, 12, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+function session(overrides: Partial<GuardedSession> = {}): GuardedSession {
+  return {
+    status: 'active',
+    expiresAt: MONDAY_NOON + HOUR_MS,
+    limits: [
+      { mint: 'native', amount: 1_000_000_000, decimals: 9, symbol: 'SOL' },
+      { mint: USDC, amount: 5_000_000, decimals: 6, symbol: 'USDC' },
+    ],
+    spent: {},
+    ...overrides,
+  };
+}
+
+function transfer(overrides: Partial<PolicyTransaction> = {}): PolicyTransaction {
+  return {
+    kind: 'transfer',
+    mint: 'native',
+    amount: 100_000_000,
+    destination: ALICE,
+    at: MONDAY_NOON,
+    ...overrides,
+  };
+}
+
+// The error thrown for the request, or null if it is allowed
+function refusal(guarded: GuardedSession, transaction = transfer()): SessionGuardError | null {
+  try {
+    assertSessionAllows({ session: guarded }, transaction);
+    return null;
+  } catch (error) {
+    if (error instanceof SessionGuardError) return error;
+    throw error;
+  }
+}
+
+describe('assertSessionAllows', () => {
+  it('allows a transfer within the terms of an active session', () => {
+    expect(refusal(session())).toBeNull();
+  });
+
+  it.each<[GuardedSession['status'], SessionGuardErrorCode]>([
+    ['expired', 'session_expired'],
+    ['revoked', 'session_revoked'],
+    ['exhausted', 'session_exhausted'],
+    ['pending', 'session_not_active'],
+  ])('refuses a session that is %s with %s', (status, code) => {
+    expect(refusal(session({ status }))?.code).toBe(code);
+  });
+
+  describe('expiry', () => {
+    it.each([
+      ['one millisecond before', MONDAY_NOON - 1, null],
+      ['at', MONDAY_NOON, 'session_expired'],
+      ['after', MONDAY_NOON + 1, 'session_expired'],
+    ])('checks a transaction %s the expiry', (_label, at, code) => {
+      expect(refusal(session({ expiresAt: MONDAY_NOON }), transfer({ at }))?.code ?? null).toBe(
+        code
+      );
+    });
+  });
+
+  describe('exhaustion', () => {
+    it('refuses once every limit is spent, even while the status is still active', () => {
+      const spent = { native: 1_000_000_000, [USDC]: 5_000_000 };
+
+      expect(refusal(session({ spent }))?.code).toBe('session_exhausted');
+    });
+
+    it('allows another mint while one limit is spent', () => {
+      const spent = { native: 1_000_000_000, [USDC]: 4_999_999 };
+
+      expect(refusal(session({ spent }), transfer({ mint: USDC, amount: 1 }))).toBeNull();
+    });
+  });
+
+  describe('policy', () => {
+    it('refuses a transfer past a limit, naming the amount in its own decimals', () => {
+      const error = refusal(
+        session({ spent: { [USDC]: 4_000_000 } }),
+        transfer({ mint: USDC, amount: 2_000_000 })
+      );
+
+      expect(error?.code).toBe('policy_violation');
+      expect(error?.violations[0]).toMatchObject({ kind: 'session_limit', mint: USDC });
+      expect(error?.message).toBe('Exceeds the session limit: 1 USDC remaining');
+    });
+
+    it('reports every violation', () => {
+      const error = refusal(
+        session({ policy: { allowedDestinations: [ALICE] } }),
+        transfer({ amount: 2_000_000_000, destination: BOB })
+      );
+
+      expect(error?.violations.map((v) => v.kind)).toEqual([
+        'session_limit',
+        'destination_not_allowed',
+      ]);
+    });
+
+    it('applies daily caps against the recent history', () => {
+      const guarded = session({ policy: { dailyCaps: [{ mint: 'native', amount: 300_000_000 }] } });
+      const history = [{ mint: 'native', amount: 250_000_000, at: MONDAY_NOON - HOUR_MS }];
+
+      expect(() => assertSessionAllows({ session: guarded }, transfer())).not.toThrow();
+      expect(() => assertSessionAllows({ session: guarded, history }, transfer())).toThrow(
+        SessionGuardError
+      );
+    });
+  });
+});
+
+describe('getInvokedPrograms', () => {
+  it('lists each program a transaction invokes once', () => {
+    const payer = Keypair.generate().publicKey;
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 1 }),
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: payer, lamports: 2 })
+    );
+    transaction.feePayer = payer;
+    transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    const serialized = transaction.serialize({ requireAllSignatures: false }).toString('base64');
+
+    expect(getInvokedPrograms(serialized)).toEqual([SYSTEM_PROGRAM]);
+  });
+
+  it('refuses a transaction it cannot read', () => {
+    expect(() => getInvokedPrograms('bm90IGEgdHJhbnNhY3Rpb24=')).toThrow(SessionGuardError);
+  });
+});
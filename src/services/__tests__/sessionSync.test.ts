@@ -0,0 +1,122 @@
+import type { Session, SessionRevocation } from '../../types';
+import { mergeSessions, type RemoteSession } from '../sessionSync';
+
+const WALLET = 'Wa11et1111111111111111111111111111111111111';
+const OTHER_WALLET = '0ther11111111111111111111111111111111111111';
+const NOW = Date.UTC(2026, 9, 19, 12, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+function remote(id: string, overrides: Partial<RemoteSession> = {}): RemoteSession {
+  return {
+    id,
+    agentId: 'agent-1',
+    walletPubkey: WALLET,
+    sessionPubkey: `${id}-key`,
+    limits: [{ mint: 'native', amount: 1_000_000_000, decimals: 9, symbol: 'SOL' }],
+    durationSeconds: 3600,
+    createdAt: NOW - HOUR_MS / 2,
+    expiresAt: NOW + HOUR_MS / 2,
+    status: 'active',
+    spent: {},
+    ...overrides,
+  };
+}
+
+function local(id: string, overrides: Partial<Session> = {}): Session {
+  return { ...remote(id), ...overrides };
+}
+
+function revocation(status: SessionRevocation['status']): SessionRevocation {
+  return {
+    status,
+    requestedAt: NOW - 1000,
+    payload: { walletPubkey: WALLET, sessions: [], agentIds: [], nonce: 'nonce' },
+    signature: 'signature',
+    authenticatorData: 'authenticator-data',
+    clientDataJSON: 'client-data',
+    transaction: null,
+    transactionSignature: null,
+    attempts: 1,
+    lastError: null,
+  };
+}
+
+describe('mergeSessions', () => {
+  it('takes the status and spent amounts from the server', () => {
+    const [merged] = mergeSessions(
+      [local('s1', { spent: { native: 100 } })],
+      [remote('s1', { status: 'revoked', spent: { native: 250 } })],
+      WALLET,
+      NOW
+    );
+
+    expect(merged).toMatchObject({ status: 'revoked', spent: { native: 250 } });
+  });
+
+  it('keeps local fields the server does not track', () => {
+    const pending = revocation('pending');
+
+    const [merged] = mergeSessions(
+      [local('s1', { revocation: pending })],
+      [remote('s1', { spent: { native: 250 } })],
+      WALLET,
+      NOW
+    );
+
+    expect(merged.revocation).toBe(pending);
+    expect(merged.status).toBe('active');
+  });
+
+  it('keeps a confirmed local revocation until the server catches up', () => {
+    const [merged] = mergeSessions(
+      [local('s1', { status: 'revoked', revocation: revocation('confirmed') })],
+      [remote('s1')],
+      WALLET,
+      NOW
+    );
+
+    expect(merged.status).toBe('revoked');
+  });
+
+  it('lets the server decide while a local revocation is unconfirmed', () => {
+    const [merged] = mergeSessions(
+      [local('s1', { status: 'revoked', revocation: revocation('submitted') })],
+      [remote('s1')],
+      WALLET,
+      NOW
+    );
+
+    expect(merged.status).toBe('active');
+  });
+
+  it('leaves the sessions of other wallets untouched', () => {
+    const other = local('s2', { walletPubkey: OTHER_WALLET, spent: { native: 5 } });
+
+    const merged = mergeSessions(
+      [other],
+      [remote('s2', { walletPubkey: OTHER_WALLET, spent: { native: 999 } })],
+      WALLET,
+      NOW
+    );
+
+    expect(merged).toEqual([other]);
+  });
+
+  it('adds sessions only the server knows and keeps those it no longer lists', () => {
+    const merged = mergeSessions([local('s1')], [remote('s2')], WALLET, NOW);
+
+    expect(merged.map((s) => s.id)).toEqual(['s1', 's2']);
+    expect(merged[0]).toEqual(local('s1'));
+  });
+
+  it('marks merged sessions expired or exhausted', () => {
+    const merged = mergeSessions(
+      [local('s1', { expiresAt: NOW }), local('s2')],
+      [remote('s1'), remote('s2', { spent: { native: 1_000_000_000 } })],
+      WALLET,
+      NOW
+    );
+
+    expect(merged.map((s) => s.status)).toEqual(['expired', 'exhausted']);
+  });
+});
@@ -0,0 +1,252 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import * as solana from '../solana';
+import {
+  fetchTransactionRequest,
+  fetchTransactionRequestMetadata,
+  SolanaPayError,
+  type TransactionRequestOptions,
+} from '../solanaPay';
+
+const wallet = Keypair.generate().publicKey;
+const merchant = Keypair.generate().publicKey;
+const BLOCKHASH = Keypair.generate().publicKey.toBase58();
+
+function buildTransaction(options: { feePayer?: PublicKey; instructions?: number } = {}): string {
+  const { feePayer = wallet, instructions = 1 } = options;
+  const transaction = new Transaction();
+  for (let i = 0; i < instructions; i++) {
+    transaction.add(
+      SystemProgram.transfer({ fromPubkey: wallet, toPubkey: merchant, lamports: 1000 + i })
+    );
+  }
+  transaction.feePayer = feePayer;
+  transaction.recentBlockhash = BLOCKHASH;
+  return transaction.serialize({ requireAllSignatures: false }).toString('base64');
+}
+
+// Wire format of a transaction with no signatures: a zero signature count, then the message
+function buildUnsignedTransaction(): string {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: wallet, toPubkey: merchant, lamports: 1000 })
+  );
+  transaction.feePayer = wallet;
+  transaction.recentBlockhash = BLOCKHASH;
+  const message = transaction.serializeMessage();
+  return Buffer.concat([Buffer.from([0]), message]).toString('base64');
+}
+
+// Stub fetch answering every request with the same response
+function respondWith(status: number, body: string): TransactionRequestOptions {
+  return {
+    fetch: jest.fn(async () => new Response(body, { status })) as unknown as typeof fetch,
+  };
+}
+
+describe('transaction requests against a local stand-in server', () => {
+  let server: Server;
+  let link: string;
+  const requests: { method?: string; body: string; accept?: string }[] = [];
+  let transaction = '';
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, body, accept: req.headers.accept });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'GET') {
+          res.end(JSON.stringify({ label: 'Coffee Shop', icon: `${link}/icon.svg` }));
+        } else {
+          res.end(JSON.stringify({ transaction, message: 'Thanks for your order' }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    link = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    transaction = buildTransaction();
+  });
+
+  it('fetches the label and icon with a GET', async () => {
+    const metadata = await fetchTransactionRequestMetadata(`${link}/pay`, {
+      allowLocalHttp: true,
+    });
+
+    expect(metadata).toEqual({ label: 'Coffee Shop', icon: `${link}/icon.svg` });
+    expect(requests).toEqual([{ method: 'GET', body: '', accept: 'application/json' }]);
+  });
+
+  it('posts the account and returns the transaction to sign', async () => {
+    const result = await fetchTransactionRequest(`${link}/pay`, wallet.toBase58(), {
+      allowLocalHttp: true,
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(JSON.parse(requests[0].body)).toEqual({ account: wallet.toBase58() });
+    expect(result.message).toBe('Thanks for your order');
+    expect(result.transaction.feePayer?.equals(wallet)).toBe(true);
+    expect(result.transaction.recentBlockhash).toBe(BLOCKHASH);
+    expect(result.instructions).toHaveLength(1);
+  });
+
+  it('refuses plain HTTP unless local HTTP is allowed', async () => {
+    await expect(
+      fetchTransactionRequest(`${link}/pay`, wallet.toBase58(), { allowLocalHttp: false })
+    ).rejects.toThrow('Transaction request links must use HTTPS');
+    expect(requests).toHaveLength(0);
+  });
+});
+
+describe('fetchTransactionRequestMetadata', () => {
+  const LINK = 'https://merchant.example/pay';
+
+  it('refuses plain HTTP links to other hosts', async () => {
+    const options = { ...respondWith(200, '{}'), allowLocalHttp: true };
+    await expect(
+      fetchTransactionRequestMetadata('http://merchant.example/pay', options)
+    ).rejects.toThrow('Transaction request links must use HTTPS');
+    expect(options.fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses a local HTTP icon unless local HTTP is allowed', async () => {
+    const body = JSON.stringify({ label: 'Shop', icon: 'http://localhost/icon.png' });
+    await expect(
+      fetchTransactionRequestMetadata(LINK, { ...respondWith(200, body), allowLocalHttp: false })
+    ).rejects.toThrow('Merchant icon must be an SVG, PNG or WebP image');
+  });
+
+  it.each([
+    ['a non-image icon', { label: 'Shop', icon: 'https://merchant.example/icon.gif' }],
+    ['an HTTP icon', { label: 'Shop', icon: 'http://merchant.example/icon.png' }],
+  ])('rejects %s', async (_, body) => {
+    await expect(
+      fetchTransactionRequestMetadata(LINK, respondWith(200, JSON.stringify(body)))
+    ).rejects.toThrow('Merchant icon must be an SVG, PNG or WebP image');
+  });
+
+  it('rejects a missing label', async () => {
+    const body = JSON.stringify({ label: ' ', icon: 'https://merchant.example/icon.png' });
+    await expect(fetchTransactionRequestMetadata(LINK, respondWith(200, body))).rejects.toThrow(
+      'Merchant sent an invalid label or icon'
+    );
+  });
+
+  it('reports the status of a non-2xx response', async () => {
+    const error = await fetchTransactionRequestMetadata(LINK, respondWith(503, 'down')).catch(
+      (e: unknown) => e
+    );
+    expect(error).toBeInstanceOf(SolanaPayError);
+    expect(error).toMatchObject({
+      message: 'Merchant responded with HTTP 503',
+      statusCode: 503,
+    });
+  });
+
+  it('treats bad JSON as an unreachable merchant', async () => {
+    await expect(fetchTransactionRequestMetadata(LINK, respondWith(200, '<html>'))).rejects.toThrow(
+      'Could not reach the merchant'
+    );
+  });
+
+  it('treats a network failure as an unreachable merchant', async () => {
+    const options = {
+      fetch: jest.fn(async () => {
+        throw new TypeError('Network request failed');
+      }) as unknown as typeof fetch,
+    };
+    await expect(fetchTransactionRequestMetadata(LINK, options)).rejects.toThrow(
+      'Could not reach the merchant'
+    );
+  });
+});
+
+describe('fetchTransactionRequest', () => {
+  const LINK = 'https://merchant.example/pay';
+  const account = wallet.toBase58();
+  const respond = (body: object) => respondWith(200, JSON.stringify(body));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the status of a non-2xx response', async () => {
+    await expect(fetchTransactionRequest(LINK, account, respondWith(400, '{}'))).rejects.toThrow(
+      'Merchant responded with HTTP 400'
+    );
+  });
+
+  it('rejects bad JSON', async () => {
+    await expect(
+      fetchTransactionRequest(LINK, account, respondWith(200, 'not json'))
+    ).rejects.toThrow('Could not reach the merchant');
+  });
+
+  it('rejects a response without a transaction', async () => {
+    await expect(
+      fetchTransactionRequest(LINK, account, respond({ message: 'hi' }))
+    ).rejects.toThrow('Merchant sent an invalid transaction response');
+  });
+
+  it('rejects a malformed transaction', async () => {
+    await expect(
+      fetchTransactionRequest(LINK, account, respond({ transaction: 'AAEC' }))
+    ).rejects.toThrow('Merchant sent a transaction this wallet cannot read');
+  });
+
+  it('rejects a transaction paid for by someone else', async () => {
+    const transaction = buildTransaction({ feePayer: merchant });
+    await expect(fetchTransactionRequest(LINK, account, respond({ transaction }))).rejects.toThrow(
+      'The transaction fee payer is not your wallet'
+    );
+  });
+
+  it('rejects a transaction without instructions', async () => {
+    const transaction = buildTransaction({ instructions: 0 });
+    await expect(fetchTransactionRequest(LINK, account, respond({ transaction }))).rejects.toThrow(
+      'Merchant sent an empty transaction'
+    );
+  });
+
+  it('rejects a transaction that needs another signer', async () => {
+    const cosigner = Keypair.generate();
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: cosigner.publicKey, toPubkey: merchant, lamports: 1 })
+    );
+    transaction.feePayer = wallet;
+    transaction.recentBlockhash = BLOCKHASH;
+    transaction.partialSign(cosigner);
+    const encoded = transaction.serialize({ requireAllSignatures: false }).toString('base64');
+
+    await expect(
+      fetchTransactionRequest(LINK, account, respond({ transaction: encoded }))
+    ).rejects.toThrow('This request needs another signer, which smart wallets cannot add');
+  });
+
+  it('fills in the fee payer and blockhash of an unsigned transaction', async () => {
+    const freshBlockhash = Keypair.generate().publicKey.toBase58();
+    jest
+      .spyOn(solana, 'getRecentBlockhash')
+      .mockResolvedValue({ blockhash: freshBlockhash, lastValidBlockHeight: 1 });
+
+    const result = await fetchTransactionRequest(
+      LINK,
+      account,
+      respond({ transaction: buildUnsignedTransaction() })
+    );
+
+    expect(result.transaction.feePayer?.equals(wallet)).toBe(true);
+    expect(result.transaction.recentBlockhash).toBe(freshBlockhash);
+    expect(result.message).toBeNull();
+  });
+});
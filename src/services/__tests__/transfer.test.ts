@@ -0,0 +1,88 @@
+import { Connection, Keypair, PublicKey, SystemProgram, type AccountInfo } from '@solana/web3.js';
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { buildTransferSolTransaction, buildTransferTokenTransaction } from '../solana';
+
+const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+const wallet = Keypair.generate().publicKey;
+const merchant = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const references = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+
+// Account data of an initialized classic token mint
+function mintAccount(decimals: number): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: 0n,
+      decimals,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    data
+  );
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false };
+}
+
+describe('transfer builders', () => {
+  beforeEach(() => {
+    jest.spyOn(Connection.prototype, 'getLatestBlockhash').mockResolvedValue({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 100,
+    });
+    jest.spyOn(Connection.prototype, 'getMultipleAccountsInfo').mockResolvedValue([mintAccount(6)]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds a plain SOL transfer without payment details', async () => {
+    const transaction = await buildTransferSolTransaction(wallet, merchant, 1000);
+
+    expect(transaction.instructions).toHaveLength(1);
+    expect(transaction.instructions[0].programId.equals(SystemProgram.programId)).toBe(true);
+    expect(transaction.instructions[0].keys).toHaveLength(2);
+  });
+
+  it('adds references as read-only keys of the SOL transfer and the memo before it', async () => {
+    const transaction = await buildTransferSolTransaction(wallet, merchant, 1000, {
+      reference: references.map((ref) => ref.toBase58()),
+      memo: 'Order #42',
+    });
+
+    const [memo, transfer] = transaction.instructions;
+    expect(transaction.instructions).toHaveLength(2);
+    expect(memo.programId.toBase58()).toBe(MEMO_PROGRAM_ID);
+    expect(memo.keys).toEqual([]);
+    expect(memo.data.toString('utf8')).toBe('Order #42');
+
+    expect(transfer.programId.equals(SystemProgram.programId)).toBe(true);
+    expect(transfer.keys.slice(2)).toEqual(
+      references.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false }))
+    );
+  });
+
+  it('adds references and the memo to a token transfer', async () => {
+    const transaction = await buildTransferTokenTransaction(wallet, merchant, mint, 5_000_000n, {
+      reference: [references[0].toBase58()],
+      memo: 'Coffee',
+    });
+
+    // Create the recipient account, then the memo right before the transfer
+    const [, memo, transfer] = transaction.instructions;
+    expect(transaction.instructions).toHaveLength(3);
+    expect(memo.programId.toBase58()).toBe(MEMO_PROGRAM_ID);
+    expect(memo.data.toString('utf8')).toBe('Coffee');
+
+    expect(transfer.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(transfer.keys[transfer.keys.length - 1]).toEqual({
+      pubkey: references[0],
+      isSigner: false,
+      isWritable: false,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Agent Secrets
+ * Per-agent auth secrets, each in its own SecureStore entry rather than the agent list
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { sha256 } from '@noble/hashes/sha256';
+import type { StoredWallet } from '../types';
+import { api } from './api';
+import { createNonce, signAgentSecretUpdate } from './signing';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import { bytesToBase64, bytesToBase64Url, utf8ToBytes } from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SECRET_KEY_PREFIX = 'odyssey_agent_secret_';
+
+// 256-bit secrets
+const AUTH_SECRET_BYTES = 32;
+
+// Secrets are keyed by wallet and agent, so the same agent paired with two wallets
+// keeps two secrets. SecureStore keys only allow [A-Za-z0-9._-]: wallet addresses are
+// base58 and agent IDs are base64url encoded.
+function secretKey(walletPubkey: string, agentId: string): string {
+  return `${SECRET_KEY_PREFIX}${walletPubkey}_${bytesToBase64Url(utf8ToBytes(agentId))}`;
+}
+
+// Where secrets were kept before they were keyed by wallet
+function legacySecretKey(agentId: string): string {
+  return `${SECRET_KEY_PREFIX}${bytesToBase64Url(utf8ToBytes(agentId))}`;
+}
+
+// ============================================================================
+// Secrets
+// ============================================================================
+
+/**
+ * Generate a new random auth secret (base64url)
+ */
+export function generateAuthSecret(): string {
+  return bytesToBase64Url(Crypto.getRandomBytes(AUTH_SECRET_BYTES));
+}
+
+/**
+ * Hash an auth secret for signing, so the secret itself never appears in a payload
+ * @returns sha256 of the secret (base64)
+ */
+export function hashAuthSecret(secret: string): string {
+  return bytesToBase64(sha256(utf8ToBytes(secret)));
+}
+
+/**
+ * Store the auth secret for an agent's pairing with a wallet, replacing any previous one
+ */
+export async function saveAgentSecret(
+  walletPubkey: string,
+  agentId: string,
+  secret: string
+): Promise<void> {
+  await SecureStore.setItemAsync(secretKey(walletPubkey, agentId), secret);
+}
+
+/**
+ * Read the auth secret for an agent's pairing with a wallet
+ * @returns The secret, or null if none is stored
+ */
+export async function getAgentSecret(
+  walletPubkey: string,
+  agentId: string
+): Promise<string | null> {
+  return SecureStore.getItemAsync(secretKey(walletPubkey, agentId));
+}
+
+/**
+ * Delete the auth secret for an agent's pairing with a wallet
+ * Also removes a secret the agent may still have under the old per-agent key.
+ */
+export async function deleteAgentSecret(walletPubkey: string, agentId: string): Promise<void> {
+  await SecureStore.deleteItemAsync(secretKey(walletPubkey, agentId));
+  await SecureStore.deleteItemAsync(legacySecretKey(agentId));
+}
+
+// ============================================================================
+// Rotation
+// ============================================================================
+
+/**
+ * Replace an agent's auth secret
+ * The passkey signs the new secret's hash; the old secret stops working once the
+ * server accepts the update, and the new one is stored locally.
+ * @returns When the secret was updated (Unix timestamp in ms)
+ */
+export async function rotateAgentSecret(
+  wallet: StoredWallet,
+  agentId: string,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<number> {
+  const authSecret = generateAuthSecret();
+  const signed = await signAgentSecretUpdate(
+    wallet,
+    {
+      agentId,
+      walletPubkey: wallet.publicKey,
+      authSecretHash: hashAuthSecret(authSecret),
+      nonce: createNonce(),
+    },
+    authenticator
+  );
+
+  const response = await api.agent.updateSecret({
+    agentId,
+    walletPubkey: wallet.publicKey,
+    payload: signed.payload,
+    authSecret,
+    signature: signed.signature,
+    authenticatorData: signed.authenticatorData,
+    clientDataJSON: signed.clientDataJSON,
+  });
+
+  await saveAgentSecret(wallet.publicKey, agentId, authSecret);
+  return response.updatedAt;
+}
+
+/**
+ * Invalidate an agent's auth secret on the server and delete the local copy
+ * After this the agent can no longer request sessions.
+ */
+export async function invalidateAgentSecret(
+  wallet: StoredWallet,
+  agentId: string,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<void> {
+  const signed = await signAgentSecretUpdate(
+    wallet,
+    { agentId, walletPubkey: wallet.publicKey, authSecretHash: null, nonce: createNonce() },
+    authenticator
+  );
+
+  await api.agent.updateSecret({
+    agentId,
+    walletPubkey: wallet.publicKey,
+    payload: signed.payload,
+    authSecret: null,
+    signature: signed.signature,
+    authenticatorData: signed.authenticatorData,
+    clientDataJSON: signed.clientDataJSON,
+  });
+
+  await deleteAgentSecret(wallet.publicKey, agentId);
+}
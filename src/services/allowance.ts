@@ -0,0 +1,44 @@
+/**
+ * Allowance Service
+ * What a session can still spend, and when it has nothing left
+ *
+ * A session is exhausted once every one of its limits is fully spent. Sessions
+ * without limits never exhaust.
+ */
+
+import type { Session } from '../types';
+
+/**
+ * Amount left to spend per mint, in base units
+ */
+export function getRemainingAllowance(
+  session: Pick<Session, 'limits' | 'spent'>
+): Record<string, number> {
+  return Object.fromEntries(
+    session.limits.map((limit) => [
+      limit.mint,
+      Math.max(0, limit.amount - (session.spent[limit.mint] ?? 0)),
+    ])
+  );
+}
+
+/**
+ * Whether every limit of the session is used up
+ */
+export function isAllowanceConsumed(session: Pick<Session, 'limits' | 'spent'>): boolean {
+  const remaining = Object.values(getRemainingAllowance(session));
+  return remaining.length > 0 && remaining.every((amount) => amount === 0);
+}
+
+/**
+ * Move active sessions with nothing left to spend to exhausted
+ * Returns the same array when nothing changed.
+ */
+export function markExhaustedSessions(sessions: Session[]): Session[] {
+  if (!sessions.some((s) => s.status === 'active' && isAllowanceConsumed(s))) {
+    return sessions;
+  }
+  return sessions.map((s) =>
+    s.status === 'active' && isAllowanceConsumed(s) ? { ...s, status: 'exhausted' as const } : s
+  );
+}
@@ -7,20 +7,42 @@ import { z } from 'zod';
 import {
   PairingRequestResponseSchema,
   PairingStatusResponseSchema,
+  PairingOfferResponseSchema,
+  PairingOfferStatusResponseSchema,
+  AgentSecretResponseSchema,
+  SessionRevokeResponseSchema,
   SessionRequestResponseSchema,
   SessionDetailsResponseSchema,
+  SessionListResponseSchema,
+  WalletEventsResponseSchema,
+  PendingSessionRequestsResponseSchema,
   TransferResponseSchema,
   SpendingLimitSchema,
+  SessionPolicySchema,
   SessionSchema,
   ApiErrorSchema,
   type PairingRequestResponse,
   type PairingStatusResponse,
+  type PairingOfferResponse,
+  type PairingOfferStatusResponse,
+  type PairingApprovalPayload,
+  type AgentSecretResponse,
+  type AgentSecretPayload,
+  type SessionRevokeResponse,
+  type SessionRevocationPayload,
   type SessionRequestResponse,
   type SessionDetailsResponse,
+  type SessionListResponse,
+  type WalletEventsResponse,
+  type PendingSessionRequestsResponse,
   type TransferResponse,
   type SpendingLimit,
+  type SessionPolicy,
+  type SessionApprovalPayload,
   type ApiError,
 } from '../types';
+import { solToLamports } from './solana';
+import { assertSessionAllows, getInvokedPrograms, type SessionGuardContext } from './sessionGuard';
 
 // ============================================================================
 // Configuration
@@ -29,7 +51,7 @@ import {
 // Default API URL - can be overridden via environment
 const DEFAULT_API_URL = 'http://localhost:3001';
 
-function getApiUrl(): string {
+export function getApiUrl(): string {
   // In React Native, we'd typically use expo-constants or a config file
   // For now, use the default
   return DEFAULT_API_URL;
@@ -86,6 +108,9 @@ export class ValidationError extends Error {
   }
 }
 
+// Refusals from the local session guard, before any request is made
+export { SessionGuardError, type SessionGuardErrorCode } from './sessionGuard';
+
 // Union type for all API errors
 export type ApiClientError = OdysseyApiError | NetworkError | ValidationError;
 
@@ -170,6 +195,34 @@ interface PairingRequestParams {
   agentName: string;
 }
 
+// Pairing offer (mobile registers a code for an agent to claim)
+interface PairingOfferParams {
+  code: string;
+  walletPubkey: string;
+}
+
+// Pairing approve params
+interface PairingApproveParams {
+  requestId: string;
+  walletPubkey: string;
+  payload: PairingApprovalPayload; // Exact terms covered by the signature
+  authSecret: string; // Returned to the agent once, via the pairing status
+  signature: string; // Passkey signature over the canonical payload (base64)
+  authenticatorData: string; // WebAuthn authenticator data (base64)
+  clientDataJSON: string; // WebAuthn client data (base64)
+}
+
+// Agent secret rotation / invalidation
+interface AgentSecretParams {
+  agentId: string;
+  walletPubkey: string;
+  payload: AgentSecretPayload; // Exact update covered by the signature
+  authSecret: string | null; // New secret for the agent, null when invalidating
+  signature: string; // Passkey signature over the canonical payload (base64)
+  authenticatorData: string; // WebAuthn authenticator data (base64)
+  clientDataJSON: string; // WebAuthn client data (base64)
+}
+
 // Session request
 interface SessionRequestParams {
   agentId: string;
@@ -181,6 +234,7 @@ interface SessionRequestParams {
   timestamp: number;
   authSecret: string;
   limits: SpendingLimit[];
+  policy?: SessionPolicy; // Extra rules the agent proposes on top of the limits
 }
 
 // Transfer SOL
@@ -190,6 +244,7 @@ interface TransferParams {
   sessionSecretKey: string;
   destination: string;
   amountSol: number;
+  guard: SessionGuardContext; // Checked locally, not sent
 }
 
 // Transfer token
@@ -200,6 +255,7 @@ interface TransferTokenParams {
   destination: string;
   mint: string;
   amount: number; // In base units
+  guard: SessionGuardContext; // Checked locally, not sent
 }
 
 // Sign and send arbitrary transaction
@@ -207,6 +263,7 @@ interface SignAndSendParams {
   transaction: string; // Base64 encoded transaction
   sessionPubkey: string;
   sessionSecretKey: string;
+  guard: SessionGuardContext; // Checked locally, not sent
 }
 
 // Sign and send response schema
@@ -217,11 +274,30 @@ const SignAndSendResponseSchema = z.object({
 
 type SignAndSendResponse = z.infer<typeof SignAndSendResponseSchema>;
 
+// Wallet execute params
+interface WalletExecuteParams {
+  walletPubkey: string;
+  message: string; // Base64 serialized transaction message signed by the passkey
+  signature: string; // Passkey signature (base64)
+  authenticatorData: string; // WebAuthn authenticator data (base64)
+  clientDataJSON: string; // WebAuthn client data (base64)
+}
+
+// Wallet execute response schema
+const WalletExecuteResponseSchema = z.object({
+  transaction: z.string(), // Base64 transaction, fee payer signed, ready to send
+});
+
+type WalletExecuteResponse = z.infer<typeof WalletExecuteResponseSchema>;
+
 // Session approve params
 interface SessionApproveParams {
   requestId: string;
   walletPubkey: string;
-  signature: string; // Signed approval from wallet
+  payload: SessionApprovalPayload; // Signed terms, possibly narrower than requested
+  signature: string; // Passkey signature over the canonical payload (base64)
+  authenticatorData: string; // WebAuthn authenticator data (base64)
+  clientDataJSON: string; // WebAuthn client data (base64)
 }
 
 // Session approve response schema
@@ -232,6 +308,16 @@ const SessionApproveResponseSchema = z.object({
 
 type SessionApproveResponse = z.infer<typeof SessionApproveResponseSchema>;
 
+// Session revoke params
+interface SessionRevokeParams {
+  sessionIds: string[]; // Sessions from the payload to revoke now (may be a subset)
+  walletPubkey: string;
+  payload: SessionRevocationPayload; // Exact revocation covered by the signature
+  signature: string; // Passkey signature over the canonical payload (base64)
+  authenticatorData: string; // WebAuthn authenticator data (base64)
+  clientDataJSON: string; // WebAuthn client data (base64)
+}
+
 // Session reject response schema
 const SessionRejectResponseSchema = z.object({
   status: z.literal('rejected'),
@@ -247,6 +333,29 @@ type SessionRejectResponse = z.infer<typeof SessionRejectResponseSchema>;
  * Pairing API methods
  */
 const pairing = {
+  /**
+   * Register a pairing code
+   * Mobile calls this before showing the code; it is valid until expiresAt
+   */
+  async createOffer(params: PairingOfferParams): Promise<PairingOfferResponse> {
+    return request('/api/pairing/offer', PairingOfferResponseSchema, {
+      method: 'POST',
+      body: params,
+    });
+  },
+
+  /**
+   * Check whether an agent has claimed a pairing code
+   * Poll this endpoint until status is requested/expired
+   */
+  async getOffer(code: string): Promise<PairingOfferStatusResponse> {
+    return request(
+      `/api/pairing/offer/${encodeURIComponent(code)}`,
+      PairingOfferStatusResponseSchema,
+      { method: 'GET' }
+    );
+  },
+
   /**
    * Submit a pairing request
    * Agent calls this with the code shown on the mobile app
@@ -267,6 +376,44 @@ const pairing = {
       method: 'GET',
     });
   },
+
+  /**
+   * Approve an agent's pairing request
+   * Called by mobile wallet after the user confirms the agent and fingerprint
+   */
+  async approve(params: PairingApproveParams): Promise<PairingStatusResponse> {
+    return request('/api/pairing/approve', PairingStatusResponseSchema, {
+      method: 'POST',
+      body: params,
+    });
+  },
+
+  /**
+   * Reject an agent's pairing request
+   */
+  async reject(requestId: string): Promise<PairingStatusResponse> {
+    return request('/api/pairing/reject', PairingStatusResponseSchema, {
+      method: 'POST',
+      body: { requestId },
+    });
+  },
+};
+
+/**
+ * Agent API methods
+ */
+const agent = {
+  /**
+   * Rotate or invalidate an agent's auth secret
+   * The old secret stops working immediately; a rotated secret is handed to the
+   * agent on its next authenticated poll
+   */
+  async updateSecret(params: AgentSecretParams): Promise<AgentSecretResponse> {
+    return request('/api/agent/secret', AgentSecretResponseSchema, {
+      method: 'POST',
+      body: params,
+    });
+  },
 };
 
 /**
@@ -284,6 +431,11 @@ const session = {
       throw new ValidationError('Invalid spending limits', limitsResult.error);
     }
 
+    const policyResult = SessionPolicySchema.optional().safeParse(params.policy);
+    if (!policyResult.success) {
+      throw new ValidationError('Invalid session policy', policyResult.error);
+    }
+
     return request('/api/request-session', SessionRequestResponseSchema, {
       method: 'POST',
       body: params,
@@ -300,34 +452,85 @@ const session = {
     });
   },
 
+  /**
+   * List the sessions a wallet has approved, with current status and spent amounts
+   */
+  async list(walletPubkey: string): Promise<SessionListResponse> {
+    return request(
+      `/api/session/list?wallet=${encodeURIComponent(walletPubkey)}`,
+      SessionListResponseSchema,
+      { method: 'GET' }
+    );
+  },
+
+  /**
+   * List session requests waiting for a wallet's decision
+   */
+  async listPending(walletPubkey: string): Promise<PendingSessionRequestsResponse> {
+    return request(
+      `/api/session/pending?wallet=${encodeURIComponent(walletPubkey)}`,
+      PendingSessionRequestsResponseSchema,
+      { method: 'GET' }
+    );
+  },
+
   /**
    * Transfer SOL using an active session
+   * @throws SessionGuardError if the session cannot make the transfer
    */
   async transfer(params: TransferParams): Promise<TransferResponse> {
+    const { guard, ...body } = params;
+    assertSessionAllows(guard, {
+      kind: 'transfer',
+      mint: 'native',
+      amount: solToLamports(body.amountSol),
+      destination: body.destination,
+      at: Date.now(),
+    });
+
     return request('/api/session/transfer', TransferResponseSchema, {
       method: 'POST',
-      body: params,
+      body,
     });
   },
 
   /**
    * Transfer SPL tokens using an active session
+   * @throws SessionGuardError if the session cannot make the transfer
    */
   async transferToken(params: TransferTokenParams): Promise<TransferResponse> {
+    const { guard, ...body } = params;
+    assertSessionAllows(guard, {
+      kind: 'transfer',
+      mint: body.mint,
+      amount: body.amount,
+      destination: body.destination,
+      at: Date.now(),
+    });
+
     return request('/api/session/transfer-token', TransferResponseSchema, {
       method: 'POST',
-      body: params,
+      body,
     });
   },
 
   /**
    * Sign and send an arbitrary transaction
-   * Agent builds the transaction, API signs and submits
+   * Agent builds the transaction, API signs and submits. Only the session state and
+   * the invoked programs are checked locally; amounts are enforced by the server.
+   * @throws SessionGuardError if the session cannot send the transaction
    */
   async signAndSend(params: SignAndSendParams): Promise<SignAndSendResponse> {
+    const { guard, ...body } = params;
+    assertSessionAllows(guard, {
+      kind: 'sign_and_send',
+      programIds: getInvokedPrograms(body.transaction),
+      at: Date.now(),
+    });
+
     return request('/api/session/sign-and-send', SignAndSendResponseSchema, {
       method: 'POST',
-      body: params,
+      body,
     });
   },
 
@@ -352,6 +555,53 @@ const session = {
       body: { requestId },
     });
   },
+
+  /**
+   * Revoke active sessions
+   * The server stops accepting the session keys at once, invalidates the auth
+   * secrets of any agents in the payload and returns the on-chain revocations for
+   * the app to send. Repeating a revocation is safe.
+   */
+  async revoke(params: SessionRevokeParams): Promise<SessionRevokeResponse> {
+    return request('/api/session/revoke', SessionRevokeResponseSchema, {
+      method: 'POST',
+      body: params,
+    });
+  },
+};
+
+/**
+ * Wallet API methods
+ */
+const wallet = {
+  /**
+   * Wrap a passkey-signed message in a smart wallet execute transaction
+   * The server adds the signature verification and fee payer; the app sends the result
+   */
+  async prepareExecute(params: WalletExecuteParams): Promise<WalletExecuteResponse> {
+    return request('/api/wallet/execute', WalletExecuteResponseSchema, {
+      method: 'POST',
+      body: params,
+    });
+  },
+};
+
+/**
+ * Wallet event methods
+ */
+const events = {
+  /**
+   * Fetch wallet events newer than a cursor
+   * Fallback for when the event stream cannot connect
+   * @param after - Id of the last event already seen; without it only the current
+   * cursor is returned
+   */
+  async list(walletPubkey: string, after?: string): Promise<WalletEventsResponse> {
+    let endpoint = `/api/events?wallet=${encodeURIComponent(walletPubkey)}`;
+    if (after) endpoint += `&after=${encodeURIComponent(after)}`;
+
+    return request(endpoint, WalletEventsResponseSchema, { method: 'GET' });
+  },
 };
 
 // ============================================================================
@@ -360,18 +610,27 @@ const session = {
 
 export const api = {
   pairing,
+  agent,
   session,
+  wallet,
+  events,
 } as const;
 
 // Re-export types for consumers
 export type {
   PairingRequestParams,
+  PairingOfferParams,
+  PairingApproveParams,
+  AgentSecretParams,
   SessionRequestParams,
   TransferParams,
   TransferTokenParams,
   SignAndSendParams,
   SignAndSendResponse,
+  WalletExecuteParams,
+  WalletExecuteResponse,
   SessionApproveParams,
   SessionApproveResponse,
   SessionRejectResponse,
+  SessionRevokeParams,
 };
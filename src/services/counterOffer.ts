@@ -0,0 +1,122 @@
+/**
+ * Counter-Offer Service
+ * Narrowing a session request before approving it
+ *
+ * A counter-offer may lower or drop spending limits and shorten the duration, never
+ * widen them. The amended terms are what the wallet signs, so the backend issues
+ * exactly the narrower session.
+ */
+
+import type { MintAmount, SessionPolicy, SpendingLimit } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The negotiable terms of a session
+ */
+export interface SessionTerms {
+  limits: SpendingLimit[];
+  durationSeconds: number;
+}
+
+/**
+ * One difference between the requested and the amended terms
+ */
+export type TermChange =
+  | { kind: 'limit_reduced'; limit: SpendingLimit; amount: number }
+  | { kind: 'limit_removed'; limit: SpendingLimit }
+  | { kind: 'duration_shortened'; from: number; to: number };
+
+// ============================================================================
+// Counter-Offers
+// ============================================================================
+
+/**
+ * List how the amended terms differ from the request
+ * Limits are matched by mint; changes keep the order of the requested limits.
+ */
+export function diffTerms(requested: SessionTerms, amended: SessionTerms): TermChange[] {
+  const changes: TermChange[] = [];
+
+  for (const limit of requested.limits) {
+    const match = amended.limits.find((l) => l.mint === limit.mint);
+    if (!match) {
+      changes.push({ kind: 'limit_removed', limit });
+    } else if (match.amount !== limit.amount) {
+      changes.push({ kind: 'limit_reduced', limit, amount: match.amount });
+    }
+  }
+
+  if (amended.durationSeconds !== requested.durationSeconds) {
+    changes.push({
+      kind: 'duration_shortened',
+      from: requested.durationSeconds,
+      to: amended.durationSeconds,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Check that amended terms only narrow the request
+ * @returns A message describing the first problem, or null if the terms are valid
+ */
+export function validateCounterOffer(
+  requested: SessionTerms,
+  amended: SessionTerms
+): string | null {
+  if (amended.limits.length === 0 && requested.limits.length > 0) {
+    return 'Keep at least one spending limit, or reject the request';
+  }
+
+  for (const limit of amended.limits) {
+    const original = requested.limits.find((l) => l.mint === limit.mint);
+    if (!original) {
+      return 'A counter-offer cannot add tokens the agent did not ask for';
+    }
+    if (limit.decimals !== original.decimals) {
+      return 'A limit cannot change its token decimals';
+    }
+    if (!Number.isSafeInteger(limit.amount) || limit.amount <= 0) {
+      return 'Limits must be greater than zero; remove a token instead';
+    }
+    if (limit.amount > original.amount) {
+      return 'A counter-offer cannot raise a limit above the request';
+    }
+  }
+
+  if (!Number.isInteger(amended.durationSeconds) || amended.durationSeconds <= 0) {
+    return 'Duration must be greater than zero';
+  }
+  if (amended.durationSeconds > requested.durationSeconds) {
+    return 'A counter-offer cannot extend the requested duration';
+  }
+
+  return null;
+}
+
+/**
+ * Narrow a session policy to the mints the amended limits still grant
+ * Per-transaction maximums and daily caps of removed tokens are dropped, so the
+ * signed terms never mention a mint the session cannot spend.
+ */
+export function narrowPolicy(
+  policy: SessionPolicy | undefined,
+  limits: SpendingLimit[]
+): SessionPolicy | undefined {
+  if (!policy) return policy;
+
+  // A list left empty is dropped rather than signed as a rule with no entries
+  const granted = (amounts: MintAmount[] | undefined) => {
+    const kept = amounts?.filter((a) => limits.some((l) => l.mint === a.mint));
+    return kept && (kept.length > 0 || amounts?.length === 0) ? kept : undefined;
+  };
+  return {
+    ...policy,
+    maxPerTransaction: granted(policy.maxPerTransaction),
+    dailyCaps: granted(policy.dailyCaps),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Deep Links
+ * Parsing of Odyssey pairing and session approval links
+ * Links arrive as odyssey://<action>?... or https://odyssey.app/<action>?...
+ */
+
+import type { DeepLinkParams } from '../types';
+import { PASSKEY_RP_ID } from './passkey';
+import { parseQueryString } from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ODYSSEY_SCHEME = 'odyssey';
+
+// Universal links share the passkey relying party domain
+export const UNIVERSAL_LINK_HOST = PASSKEY_RP_ID;
+
+const LINK_PREFIXES = [`${ODYSSEY_SCHEME}://`, `https://${UNIVERSAL_LINK_HOST}/`];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse an Odyssey link into its action and parameters
+ * @returns Link params, or null if the URL is not a recognised Odyssey link
+ */
+export function parseOdysseyLink(url: string): DeepLinkParams | null {
+  const trimmed = url.trim();
+  const prefix = LINK_PREFIXES.find((p) => trimmed.toLowerCase().startsWith(p));
+  if (!prefix) {
+    return null;
+  }
+
+  const rest = trimmed.slice(prefix.length).split('#')[0];
+  const separator = rest.indexOf('?');
+  const path = (separator === -1 ? rest : rest.slice(0, separator)).replace(/^\/+|\/+$/g, '');
+
+  let params: Map<string, string>;
+  try {
+    params = new Map(parseQueryString(separator === -1 ? '' : rest.slice(separator + 1)));
+  } catch {
+    return null;
+  }
+
+  switch (path) {
+    case 'pair': {
+      const code = params.get('code')?.trim();
+      return code ? { action: 'pair', code } : null;
+    }
+    case 'approve-session': {
+      const requestId = params.get('requestId')?.trim();
+      return requestId ? { action: 'approve-session', requestId } : null;
+    }
+    default:
+      return null;
+  }
+}
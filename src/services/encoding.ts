@@ -0,0 +1,181 @@
+/**
+ * Encoding Utilities
+ * Base64 / base64url / UTF-8 helpers that work without Node's Buffer (React Native compatible)
+ */
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// ============================================================================
+// Base64
+// ============================================================================
+
+/**
+ * Decode base64 string to Uint8Array
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  // Remove padding
+  const cleanBase64 = base64.replace(/=+$/, '');
+  const length = cleanBase64.length;
+
+  // Calculate output length
+  const outputLength = Math.floor((length * 3) / 4);
+  const bytes = new Uint8Array(outputLength);
+
+  let byteIndex = 0;
+  for (let i = 0; i < length; i += 4) {
+    const a = BASE64_CHARS.indexOf(cleanBase64[i]);
+    const b = i + 1 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 1]) : 0;
+    const c = i + 2 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 2]) : 0;
+    const d = i + 3 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 3]) : 0;
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (byteIndex < outputLength) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (byteIndex < outputLength) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode Uint8Array to padded base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let output = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    output += BASE64_CHARS[a >> 2];
+    output += BASE64_CHARS[((a & 3) << 4) | (b >> 4)];
+    output += i + 1 < bytes.length ? BASE64_CHARS[((b & 15) << 2) | (c >> 6)] : '=';
+    output += i + 2 < bytes.length ? BASE64_CHARS[c & 63] : '=';
+  }
+
+  return output;
+}
+
+// ============================================================================
+// Base64url (WebAuthn)
+// ============================================================================
+
+/**
+ * Decode unpadded base64url string to Uint8Array
+ */
+export function base64UrlToBytes(base64Url: string): Uint8Array {
+  return base64ToBytes(base64Url.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+/**
+ * Encode Uint8Array to unpadded base64url string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// ============================================================================
+// UTF-8
+// ============================================================================
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8ToBytes(value: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode UTF-8 bytes to a string
+ */
+export function bytesToUtf8(bytes: Uint8Array): string {
+  let output = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 31) << 6) | (bytes[i + 1] & 63);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code = ((byte & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63);
+      i += 3;
+    } else {
+      code =
+        ((byte & 7) << 18) |
+        ((bytes[i + 1] & 63) << 12) |
+        ((bytes[i + 2] & 63) << 6) |
+        (bytes[i + 3] & 63);
+      i += 4;
+    }
+
+    output += String.fromCodePoint(code);
+  }
+
+  return output;
+}
+
+// ============================================================================
+// Byte Helpers
+// ============================================================================
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...arrays: Uint8Array[]): Uint8Array {
+  const totalLength = arrays.reduce((sum, arr) => sum + arr.length, 0);
+  const result = new Uint8Array(totalLength);
+
+  let offset = 0;
+  for (const arr of arrays) {
+    result.set(arr, offset);
+    offset += arr.length;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// URL Query Strings
+// ============================================================================
+
+/**
+ * Split a query string into decoded key/value pairs, keeping repeated keys
+ * @throws URIError on malformed percent-encoding
+ */
+export function parseQueryString(query: string): [string, string][] {
+  return query
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      const key = separator === -1 ? pair : pair.slice(0, separator);
+      const value = separator === -1 ? '' : pair.slice(separator + 1);
+      return [decodeURIComponent(key), decodeURIComponent(value.replace(/\+/g, ' '))];
+    });
+}
@@ -0,0 +1,287 @@
+/**
+ * Wallet Events
+ * Realtime wallet events over a WebSocket, with reconnect backoff and a polling fallback
+ *
+ * The client resumes from the last event it delivered, so events that arrive while it
+ * is reconnecting or polling are delivered once and in order.
+ */
+
+import { WalletEventSchema, type WalletEvent } from '../types';
+import { api, getApiUrl } from './api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Connection state of an event client
+ * - connecting: no socket yet, or waiting to reconnect
+ * - connected: events arrive over the socket
+ * - polling: the socket keeps failing; events are polled while it retries
+ */
+export type EventStreamStatus = 'idle' | 'connecting' | 'connected' | 'polling' | 'stopped';
+
+/**
+ * The parts of a WebSocket the client uses
+ */
+export type EventSocket = Pick<WebSocket, 'onopen' | 'onmessage' | 'onerror' | 'onclose' | 'close'>;
+
+export interface WalletEventClientOptions {
+  walletPubkey: string;
+  onEvent: (event: WalletEvent) => void;
+  onStatusChange?: (status: EventStreamStatus) => void;
+  createSocket?: (url: string) => EventSocket; // Defaults to the platform WebSocket
+  fetchEvents?: typeof api.events.list; // Polling fallback, defaults to the API
+  baseUrl?: string; // Defaults to the API URL
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  pollIntervalMs?: number;
+  failuresBeforePolling?: number; // Consecutive socket failures before polling starts
+}
+
+export type WalletEventListener = (event: WalletEvent) => void;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_FAILURES_BEFORE_POLLING = 2;
+
+// Event ids remembered to drop duplicates between the socket and polling
+const SEEN_EVENT_LIMIT = 200;
+
+// ============================================================================
+// Listeners
+// ============================================================================
+
+const listeners = new Set<WalletEventListener>();
+
+// Wallets whose event stream is currently connected
+const connectedWallets = new Set<string>();
+
+/**
+ * Listen for events from every wallet's event client
+ * @returns A function that removes the listener
+ */
+export function addWalletEventListener(listener: WalletEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Pass an event to every listener added with addWalletEventListener
+ */
+export function notifyWalletEventListeners(event: WalletEvent): void {
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
+
+/**
+ * Whether events for a wallet currently arrive in realtime
+ * Screens use this to skip their own polling.
+ */
+export function isEventStreamConnected(walletPubkey: string): boolean {
+  return connectedWallets.has(walletPubkey);
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Event stream for one wallet
+ */
+export class WalletEventClient {
+  private status: EventStreamStatus = 'idle';
+  private socket: EventSocket | null = null;
+  private cursor: string | null = null;
+  private failures = 0;
+  private seen: string[] = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+
+  constructor(private readonly options: WalletEventClientOptions) {}
+
+  /**
+   * Connect and keep reconnecting until stop is called
+   * @param cursor - Id of the last event already handled, to resume after it
+   */
+  start(cursor: string | null = null): void {
+    if (this.status !== 'idle' && this.status !== 'stopped') return;
+    this.cursor = cursor;
+    this.failures = 0;
+    this.connect();
+  }
+
+  stop(): void {
+    this.setStatus('stopped');
+    this.stopPolling();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  getStatus(): EventStreamStatus {
+    return this.status;
+  }
+
+  /**
+   * Id of the last event delivered
+   */
+  getCursor(): string | null {
+    return this.cursor;
+  }
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    if (this.status === 'stopped') return;
+    if (!this.pollTimer) this.setStatus('connecting');
+
+    let socket: EventSocket;
+    try {
+      socket = (this.options.createSocket ?? ((url) => new WebSocket(url)))(this.streamUrl());
+    } catch {
+      this.handleDisconnect();
+      return;
+    }
+    this.socket = socket;
+
+    // Handlers ignore a socket that has since been replaced or closed by stop()
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.failures = 0;
+      this.stopPolling();
+      this.setStatus('connected');
+    };
+    socket.onmessage = (message) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(message.data);
+    };
+    socket.onerror = () => {
+      // A close always follows; reconnecting happens there
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleDisconnect();
+    };
+  }
+
+  private streamUrl(): string {
+    const base = (this.options.baseUrl ?? getApiUrl()).replace(/^http/, 'ws');
+    let url = `${base}/api/events/stream?wallet=${encodeURIComponent(this.options.walletPubkey)}`;
+    if (this.cursor) url += `&after=${encodeURIComponent(this.cursor)}`;
+    return url;
+  }
+
+  private handleDisconnect(): void {
+    if (this.status === 'stopped') return;
+
+    this.failures += 1;
+    if (this.failures >= (this.options.failuresBeforePolling ?? DEFAULT_FAILURES_BEFORE_POLLING)) {
+      this.startPolling();
+    } else {
+      this.setStatus('connecting');
+    }
+
+    // Exponential backoff with jitter, so clients don't all reconnect at once
+    const initial = this.options.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    const max = this.options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    const delay = Math.min(max, initial * 2 ** (this.failures - 1));
+    this.reconnectTimer = setTimeout(() => this.connect(), delay / 2 + (Math.random() * delay) / 2);
+  }
+
+  private handleMessage(data: unknown): void {
+    if (typeof data !== 'string') return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    // Unknown event types (from a newer server) are skipped
+    const result = WalletEventSchema.safeParse(parsed);
+    if (result.success) {
+      this.deliver(result.data);
+    }
+  }
+
+  private deliver(event: WalletEvent): void {
+    if (this.status === 'stopped' || this.seen.includes(event.id)) return;
+
+    this.seen.push(event.id);
+    if (this.seen.length > SEEN_EVENT_LIMIT) this.seen.shift();
+    this.cursor = event.id;
+
+    try {
+      this.options.onEvent(event);
+    } catch {
+      // A failing handler must not stop the stream
+    }
+  }
+
+  private startPolling(): void {
+    this.setStatus('polling');
+    if (this.pollTimer) return;
+
+    this.poll();
+    this.pollTimer = setInterval(
+      () => this.poll(),
+      this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+    );
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      const fetchEvents =
+        this.options.fetchEvents ?? ((wallet, after) => api.events.list(wallet, after));
+      const response = await fetchEvents(this.options.walletPubkey, this.cursor ?? undefined);
+      if (!this.pollTimer) return;
+
+      response.events.forEach((event) => this.deliver(event));
+      if (response.events.length === 0 && response.cursor) {
+        this.cursor = response.cursor;
+      }
+    } catch {
+      // Keep polling; the next interval or a reconnect picks up where this left off
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private setStatus(status: EventStreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+
+    if (status === 'connected') {
+      connectedWallets.add(this.options.walletPubkey);
+    } else {
+      connectedWallets.delete(this.options.walletPubkey);
+    }
+    this.options.onStatusChange?.(status);
+  }
+}
@@ -1,3 +1,15 @@
 // API client and Solana RPC services
 export * from './api';
 export * from './solana';
+export * from './passkey';
+export * from './wallet';
+export * from './signing';
+export * from './tokenMetadata';
+export * from './tokenList';
+export * from './transfer';
+export * from './solanaPay';
+export * from './deepLinks';
+export * from './scanParser';
+export * from './agentSecrets';
+export * from './pairing';
+export * from './revocation';
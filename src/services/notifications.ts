@@ -0,0 +1,147 @@
+/**
+ * Notifications Service
+ * Local notifications about sessions
+ *
+ * Notifications are best-effort: without permission, or on a device that cannot
+ * show them, every call quietly does nothing.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { Session } from '../types';
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+const SESSIONS_CHANNEL_ID = 'sessions';
+
+// How long before a session expires its reminder is shown
+export const EXPIRY_REMINDER_LEAD_MS = 10 * 60 * 1000;
+
+// Scheduled reminders are identified by session, so rescheduling replaces them
+const EXPIRY_REMINDER_PREFIX = 'session-expiry:';
+
+/**
+ * A session to remind the user about before it expires
+ */
+export interface ExpiryReminder {
+  sessionId: string;
+  agentName: string;
+  expiresAt: number; // Unix timestamp in ms
+}
+
+// Set once the handler, channel and permission are in place
+let isReady = false;
+
+/**
+ * Show notifications while the app is open and make sure we may post them
+ * Asks for permission the first time it is needed.
+ * @returns Whether notifications can be shown
+ */
+export async function ensureNotifications(): Promise<boolean> {
+  if (isReady) return true;
+
+  try {
+    isReady = await setUpNotifications();
+  } catch {
+    // Try again next time
+    return false;
+  }
+  return isReady;
+}
+
+async function setUpNotifications(): Promise<boolean> {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(SESSIONS_CHANNEL_ID, {
+      name: 'Agent sessions',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) return current.granted;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+// ============================================================================
+// Session Notifications
+// ============================================================================
+
+/**
+ * Tell the user an agent's session has used up its spending limits
+ */
+export async function notifySessionExhausted(session: Session, agentName: string): Promise<void> {
+  try {
+    if (!(await ensureNotifications())) return;
+
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: 'Session limit reached',
+        body: `${agentName} has spent its full allowance and can't make more transfers until you approve a new session.`,
+        data: { sessionId: session.id },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: SESSIONS_CHANNEL_ID } : null,
+    });
+  } catch {
+    // Best-effort; the session detail screen shows the same state
+  }
+}
+
+/**
+ * Make the scheduled expiry reminders match the given sessions
+ * Reminders for sessions not in the list are cancelled; sessions expiring too soon
+ * for a reminder get none.
+ */
+export async function scheduleExpiryReminders(reminders: ExpiryReminder[]): Promise<void> {
+  try {
+    const now = Date.now();
+    const due = reminders.filter((r) => r.expiresAt - EXPIRY_REMINDER_LEAD_MS > now);
+
+    const scheduled = (await Notifications.getAllScheduledNotificationsAsync()).filter((n) =>
+      n.identifier.startsWith(EXPIRY_REMINDER_PREFIX)
+    );
+    const scheduledAt = new Map(scheduled.map((n) => [n.identifier, n.content.data?.expiresAt]));
+
+    const wanted = new Set(due.map((r) => EXPIRY_REMINDER_PREFIX + r.sessionId));
+    await Promise.all(
+      scheduled
+        .filter((n) => !wanted.has(n.identifier))
+        .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+    );
+
+    const changed = due.filter(
+      (r) => scheduledAt.get(EXPIRY_REMINDER_PREFIX + r.sessionId) !== r.expiresAt
+    );
+    if (changed.length === 0 || !(await ensureNotifications())) return;
+
+    for (const reminder of changed) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: EXPIRY_REMINDER_PREFIX + reminder.sessionId,
+        content: {
+          title: 'Session expiring soon',
+          body: `${reminder.agentName}'s session expires in ${EXPIRY_REMINDER_LEAD_MS / 60000} minutes.`,
+          data: { sessionId: reminder.sessionId, expiresAt: reminder.expiresAt },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(reminder.expiresAt - EXPIRY_REMINDER_LEAD_MS),
+          ...(Platform.OS === 'android' && { channelId: SESSIONS_CHANNEL_ID }),
+        },
+      });
+    }
+  } catch {
+    // Best-effort; sessions still expire on schedule while the app runs
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Pairing Service
+ * Phone-issued pairing codes, agent fingerprints and pairing confirmation
+ *
+ * Protocol:
+ * 1. The phone registers a short code (api.pairing.createOffer) and shows it
+ * 2. The agent submits PairingRequestParams with that code (api.pairing.request)
+ * 3. The phone sees the request (api.pairing.getOffer) and shows the agent's name
+ *    and fingerprint; the agent shows the same fingerprint for the user to compare
+ * 4. On confirmation the phone generates an auth secret, passkey-signs its hash and
+ *    approves; the agent receives the secret from its pairing status
+ */
+
+import { sha256 } from '@noble/hashes/sha256';
+import * as Crypto from 'expo-crypto';
+import type { Agent, PairingAgentRequest, StoredWallet } from '../types';
+import { api } from './api';
+import { canonicalJson, createNonce, signPairingApproval } from './signing';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import {
+  deleteAgentSecret,
+  generateAuthSecret,
+  getAgentSecret,
+  hashAuthSecret,
+  saveAgentSecret,
+} from './agentSecrets';
+import { utf8ToBytes } from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const PAIRING_CODE_LENGTH = 8;
+
+// No 0/O, 1/I/L, so codes survive being read aloud or typed
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const FINGERPRINT_DOMAIN = 'odyssey:pairing-fingerprint:v1';
+const FINGERPRINT_BYTES = 6;
+
+// ============================================================================
+// Pairing Codes
+// ============================================================================
+
+/**
+ * Generate a random pairing code
+ * @param randomBytes - Optional randomness source override
+ */
+export function generatePairingCode(
+  randomBytes: (count: number) => Uint8Array = Crypto.getRandomBytes
+): string {
+  // Rejection sampling keeps every character equally likely
+  const limit = 256 - (256 % PAIRING_CODE_ALPHABET.length);
+  let code = '';
+
+  while (code.length < PAIRING_CODE_LENGTH) {
+    for (const byte of randomBytes(PAIRING_CODE_LENGTH)) {
+      if (byte < limit && code.length < PAIRING_CODE_LENGTH) {
+        code += PAIRING_CODE_ALPHABET[byte % PAIRING_CODE_ALPHABET.length];
+      }
+    }
+  }
+
+  return code;
+}
+
+/**
+ * Normalize a typed or scanned pairing code
+ * Case, spaces and dashes are ignored
+ * @returns The bare code, or null if it is not a valid pairing code
+ */
+export function normalizePairingCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== PAIRING_CODE_LENGTH) return null;
+  return [...code].every((char) => PAIRING_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+/**
+ * Format a pairing code for display, e.g. "ABCD-EFGH"
+ */
+export function formatPairingCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+// ============================================================================
+// Fingerprints
+// ============================================================================
+
+/**
+ * Fingerprint of a pairing request, e.g. "3F2A-91C0-7B44"
+ * The agent derives the same value from its own request, so a matching fingerprint
+ * shows the user is confirming their agent and not another claim on the code.
+ */
+export function pairingFingerprint(code: string, request: PairingAgentRequest): string {
+  const body = canonicalJson({
+    code,
+    requestId: request.requestId,
+    agentId: request.agentId,
+    agentName: request.agentName,
+  });
+  const digest = sha256(utf8ToBytes(`${FINGERPRINT_DOMAIN}\n${body}`));
+
+  const hex = Array.from(digest.slice(0, FINGERPRINT_BYTES), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  )
+    .join('')
+    .toUpperCase();
+  return hex.match(/.{4}/g)?.join('-') ?? hex;
+}
+
+// ============================================================================
+// Confirmation
+// ============================================================================
+
+/**
+ * Approve an agent's pairing request
+ * Generates the agent's auth secret, stores it, and sends it with a passkey-signed
+ * approval. If the approval fails, the secret of an earlier pairing with the wallet
+ * is put back, or the new one removed.
+ * @returns The newly paired agent
+ */
+export async function confirmPairing(
+  wallet: StoredWallet,
+  request: PairingAgentRequest,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<Agent> {
+  const authSecret = generateAuthSecret();
+  const signed = await signPairingApproval(
+    wallet,
+    {
+      requestId: request.requestId,
+      agentId: request.agentId,
+      agentName: request.agentName,
+      walletPubkey: wallet.publicKey,
+      authSecretHash: hashAuthSecret(authSecret),
+      nonce: createNonce(),
+    },
+    authenticator
+  );
+
+  const previousSecret = await getAgentSecret(wallet.publicKey, request.agentId);
+  await saveAgentSecret(wallet.publicKey, request.agentId, authSecret);
+  try {
+    const response = await api.pairing.approve({
+      requestId: request.requestId,
+      walletPubkey: wallet.publicKey,
+      payload: signed.payload,
+      authSecret,
+      signature: signed.signature,
+      authenticatorData: signed.authenticatorData,
+      clientDataJSON: signed.clientDataJSON,
+    });
+    if (response.status !== 'approved') {
+      throw new Error(`Pairing request ${response.status}`);
+    }
+  } catch (error) {
+    if (previousSecret) {
+      await saveAgentSecret(wallet.publicKey, request.agentId, previousSecret);
+    } else {
+      await deleteAgentSecret(wallet.publicKey, request.agentId);
+    }
+    throw error;
+  }
+
+  const pairedAt = Date.now();
+  return {
+    id: request.agentId,
+    name: request.agentName,
+    walletPubkey: wallet.publicKey,
+    pairedAt,
+    lastSeen: null,
+    status: 'active',
+    secretUpdatedAt: pairedAt,
+  };
+}
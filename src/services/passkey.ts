@@ -0,0 +1,378 @@
+/**
+ * Passkey Service
+ * WebAuthn credential management behind a swappable authenticator interface.
+ * The platform authenticator talks to the OS passkey provider; the software
+ * authenticator keeps P-256 keys in memory so flows can run without a device.
+ */
+
+import { Passkey } from 'react-native-passkey';
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from '@noble/hashes/sha256';
+import { randomBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+import {
+  base64UrlToBytes,
+  bytesToBase64Url,
+  bytesToUtf8,
+  concatBytes,
+  utf8ToBytes,
+} from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Relying party the passkeys are bound to. The domain must vouch for the app: iOS reads
+// webcredentials from its apple-app-site-association, Android needs a
+// delegate_permission/common.get_login_creds statement for app.odyssey.mobile in
+// /.well-known/assetlinks.json
+export const PASSKEY_RP_ID = 'odyssey.app';
+const PASSKEY_RP_NAME = 'Odyssey';
+
+// COSE algorithm identifier for ES256 (ECDSA P-256 with SHA-256)
+const COSE_ALG_ES256 = -7;
+
+const PASSKEY_TIMEOUT_MS = 60000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A newly created passkey credential
+ */
+export interface PasskeyCredential {
+  credentialId: string; // base64url credential ID
+  publicKey: Uint8Array; // Compressed P-256 public key (33 bytes)
+}
+
+/**
+ * Options for creating a passkey credential
+ */
+export interface PasskeyCreateOptions {
+  userName: string;
+  displayName: string;
+}
+
+/**
+ * WebAuthn assertion produced when a passkey signs a challenge
+ * The signature covers authenticatorData || sha256(clientDataJSON)
+ */
+export interface PasskeyAssertion {
+  signature: Uint8Array; // Compact (r || s) low-S P-256 signature
+  authenticatorData: Uint8Array;
+  clientDataJSON: Uint8Array;
+}
+
+/**
+ * Authenticator capable of creating passkey credentials and signing with them
+ */
+export interface PasskeyAuthenticator {
+  createCredential(options: PasskeyCreateOptions): Promise<PasskeyCredential>;
+  sign(credentialId: string, challenge: Uint8Array): Promise<PasskeyAssertion>;
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export type PasskeyErrorCode = 'not_supported' | 'cancelled' | 'invalid_response' | 'failed';
+
+/**
+ * Passkey error with a machine-readable code
+ */
+export class PasskeyError extends Error {
+  public readonly code: PasskeyErrorCode;
+
+  constructor(message: string, code: PasskeyErrorCode) {
+    super(message);
+    this.name = 'PasskeyError';
+    this.code = code;
+  }
+}
+
+/**
+ * Map errors thrown by react-native-passkey to PasskeyError
+ */
+function toPasskeyError(error: unknown): PasskeyError {
+  if (error instanceof PasskeyError) {
+    return error;
+  }
+
+  if (typeof error === 'object' && error !== null && 'error' in error) {
+    const nativeError = error as { error: string; message?: string };
+    if (nativeError.error === 'UserCancelled') {
+      return new PasskeyError('Passkey request was cancelled', 'cancelled');
+    }
+    if (nativeError.error === 'NotSupported') {
+      return new PasskeyError('Passkeys are not supported on this device', 'not_supported');
+    }
+    return new PasskeyError(nativeError.message ?? nativeError.error, 'failed');
+  }
+
+  return new PasskeyError(error instanceof Error ? error.message : String(error), 'failed');
+}
+
+// ============================================================================
+// Public Key Extraction
+// ============================================================================
+
+/**
+ * Compress an uncompressed (0x04 || x || y) P-256 point
+ */
+function compressP256PublicKey(uncompressed: Uint8Array): Uint8Array {
+  return p256.Point.fromBytes(uncompressed).toBytes(true);
+}
+
+/**
+ * Extract the P-256 point from a DER SubjectPublicKeyInfo
+ * The uncompressed point is always the trailing 65 bytes for P-256 keys
+ */
+function publicKeyFromSpki(spki: Uint8Array): Uint8Array {
+  if (spki.length < 65 || spki[spki.length - 65] !== 0x04) {
+    throw new PasskeyError('Unsupported public key encoding', 'invalid_response');
+  }
+  return compressP256PublicKey(spki.slice(spki.length - 65));
+}
+
+type CborValue = number | string | boolean | null | Uint8Array | CborValue[] | CborMap;
+type CborMap = Map<CborValue, CborValue>;
+
+/**
+ * Minimal CBOR decoder covering what WebAuthn attestation objects use
+ */
+function decodeCbor(bytes: Uint8Array, start = 0): { value: CborValue; offset: number } {
+  let offset = start;
+  const initial = bytes[offset++];
+  const majorType = initial >> 5;
+  const additional = initial & 31;
+
+  let length = additional;
+  if (additional === 24) {
+    length = bytes[offset];
+    offset += 1;
+  } else if (additional === 25) {
+    length = (bytes[offset] << 8) | bytes[offset + 1];
+    offset += 2;
+  } else if (additional === 26) {
+    length =
+      bytes[offset] * 0x1000000 +
+      ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+    offset += 4;
+  } else if (additional > 26) {
+    throw new PasskeyError('Unsupported CBOR encoding', 'invalid_response');
+  }
+
+  switch (majorType) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+      return { value: bytes.slice(offset, offset + length), offset: offset + length };
+    case 3:
+      return { value: bytesToUtf8(bytes.slice(offset, offset + length)), offset: offset + length };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(bytes, offset);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const map: CborMap = new Map();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(bytes, offset);
+        const value = decodeCbor(bytes, key.offset);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7:
+      if (additional === 20) return { value: false, offset };
+      if (additional === 21) return { value: true, offset };
+      return { value: null, offset };
+    default:
+      throw new PasskeyError('Unsupported CBOR major type', 'invalid_response');
+  }
+}
+
+/**
+ * Extract the credential public key from a WebAuthn attestation object
+ * authData layout: rpIdHash(32) | flags(1) | signCount(4) | aaguid(16) | credIdLen(2) | credId | COSE key
+ */
+function publicKeyFromAttestationObject(attestationObject: Uint8Array): Uint8Array {
+  const { value } = decodeCbor(attestationObject);
+  const authData = value instanceof Map ? value.get('authData') : undefined;
+  if (!(authData instanceof Uint8Array)) {
+    throw new PasskeyError('Attestation object has no authenticator data', 'invalid_response');
+  }
+
+  const credentialIdLength = (authData[53] << 8) | authData[54];
+  const { value: coseKey } = decodeCbor(authData, 55 + credentialIdLength);
+  if (!(coseKey instanceof Map) || coseKey.get(3) !== COSE_ALG_ES256) {
+    throw new PasskeyError('Passkey is not an ES256 credential', 'invalid_response');
+  }
+
+  const x = coseKey.get(-2);
+  const y = coseKey.get(-3);
+  if (!(x instanceof Uint8Array) || !(y instanceof Uint8Array)) {
+    throw new PasskeyError('Passkey public key is malformed', 'invalid_response');
+  }
+
+  const uncompressed = new Uint8Array(65);
+  uncompressed[0] = 0x04;
+  uncompressed.set(x, 1);
+  uncompressed.set(y, 33);
+  return compressP256PublicKey(uncompressed);
+}
+
+/**
+ * Convert a DER-encoded WebAuthn signature to compact low-S form
+ */
+function normalizeSignature(der: Uint8Array): Uint8Array {
+  return p256.Signature.fromBytes(der, 'der').normalizeS().toBytes('compact');
+}
+
+// ============================================================================
+// Authenticators
+// ============================================================================
+
+/**
+ * Platform authenticator backed by the OS passkey provider
+ * (iCloud Keychain / Google Password Manager)
+ */
+export class PlatformPasskeyAuthenticator implements PasskeyAuthenticator {
+  async createCredential(options: PasskeyCreateOptions): Promise<PasskeyCredential> {
+    if (!Passkey.isSupported()) {
+      throw new PasskeyError('Passkeys are not supported on this device', 'not_supported');
+    }
+
+    try {
+      const result = await Passkey.createPlatformKey({
+        challenge: bytesToBase64Url(Crypto.getRandomBytes(32)),
+        rp: { id: PASSKEY_RP_ID, name: PASSKEY_RP_NAME },
+        user: {
+          id: bytesToBase64Url(utf8ToBytes(`${options.userName}:${Date.now()}`)),
+          name: options.userName,
+          displayName: options.displayName,
+        },
+        pubKeyCredParams: [{ type: 'public-key', alg: COSE_ALG_ES256 }],
+        timeout: PASSKEY_TIMEOUT_MS,
+        authenticatorSelection: {
+          authenticatorAttachment: 'platform',
+          residentKey: 'required',
+          requireResidentKey: true,
+          userVerification: 'required',
+        },
+        attestation: 'none',
+      });
+
+      // Prefer the SPKI public key when the platform provides it
+      const publicKey = result.response.publicKey
+        ? publicKeyFromSpki(base64UrlToBytes(result.response.publicKey))
+        : publicKeyFromAttestationObject(base64UrlToBytes(result.response.attestationObject));
+
+      return { credentialId: result.id, publicKey };
+    } catch (error) {
+      throw toPasskeyError(error);
+    }
+  }
+
+  async sign(credentialId: string, challenge: Uint8Array): Promise<PasskeyAssertion> {
+    if (!Passkey.isSupported()) {
+      throw new PasskeyError('Passkeys are not supported on this device', 'not_supported');
+    }
+
+    try {
+      const result = await Passkey.getPlatformKey({
+        challenge: bytesToBase64Url(challenge),
+        rpId: PASSKEY_RP_ID,
+        timeout: PASSKEY_TIMEOUT_MS,
+        allowCredentials: [{ type: 'public-key', id: credentialId }],
+        userVerification: 'required',
+      });
+
+      return {
+        signature: normalizeSignature(base64UrlToBytes(result.response.signature)),
+        authenticatorData: base64UrlToBytes(result.response.authenticatorData),
+        clientDataJSON: base64UrlToBytes(result.response.clientDataJSON),
+      };
+    } catch (error) {
+      throw toPasskeyError(error);
+    }
+  }
+}
+
+/**
+ * In-memory software authenticator
+ * Stands in for the platform authenticator in tests and simulators
+ */
+export class SoftwarePasskeyAuthenticator implements PasskeyAuthenticator {
+  private readonly privateKeys = new Map<string, Uint8Array>();
+
+  async createCredential(_options: PasskeyCreateOptions): Promise<PasskeyCredential> {
+    const privateKey = p256.utils.randomSecretKey();
+    const credentialId = bytesToBase64Url(randomBytes(16));
+    this.privateKeys.set(credentialId, privateKey);
+
+    return {
+      credentialId,
+      publicKey: p256.getPublicKey(privateKey, true),
+    };
+  }
+
+  async sign(credentialId: string, challenge: Uint8Array): Promise<PasskeyAssertion> {
+    const privateKey = this.privateKeys.get(credentialId);
+    if (!privateKey) {
+      throw new PasskeyError('Unknown passkey credential', 'failed');
+    }
+
+    // Flags: user present (0x01) | user verified (0x04), sign count 0
+    const authenticatorData = concatBytes(
+      sha256(utf8ToBytes(PASSKEY_RP_ID)),
+      new Uint8Array([0x05, 0, 0, 0, 0])
+    );
+    const clientDataJSON = utf8ToBytes(
+      JSON.stringify({
+        type: 'webauthn.get',
+        challenge: bytesToBase64Url(challenge),
+        origin: `https://${PASSKEY_RP_ID}`,
+      })
+    );
+
+    const signature = p256.sign(
+      concatBytes(authenticatorData, sha256(clientDataJSON)),
+      privateKey,
+      { prehash: true }
+    );
+
+    return { signature: signature.toBytes('compact'), authenticatorData, clientDataJSON };
+  }
+}
+
+// ============================================================================
+// Authenticator Management
+// ============================================================================
+
+let authenticatorInstance: PasskeyAuthenticator | null = null;
+
+/**
+ * Get the active passkey authenticator (defaults to the platform authenticator)
+ */
+export function getPasskeyAuthenticator(): PasskeyAuthenticator {
+  if (!authenticatorInstance) {
+    authenticatorInstance = new PlatformPasskeyAuthenticator();
+  }
+  return authenticatorInstance;
+}
+
+/**
+ * Replace the passkey authenticator (pass null to restore the platform default)
+ */
+export function setPasskeyAuthenticator(authenticator: PasskeyAuthenticator | null): void {
+  authenticatorInstance = authenticator;
+}
@@ -0,0 +1,254 @@
+/**
+ * Policy Service
+ * Evaluating a session's rules against a proposed transaction
+ *
+ * A session's limits cap the total spent per mint over its lifetime; its policy adds
+ * per-transaction maximums, rolling daily caps, destination and program allowlists
+ * and time-of-day windows. Everything here is pure - the caller supplies the clock
+ * (via the transaction's timestamp) and the spending history.
+ */
+
+import type { MintAmount, Session, SessionPolicy, TimeWindow } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A transaction an agent wants to make under a session
+ */
+export interface PolicyTransaction {
+  kind: 'transfer' | 'sign_and_send';
+  mint?: string; // "native" for SOL or token mint pubkey
+  amount?: number; // Base units
+  destination?: string; // Transfer recipient
+  programIds?: string[]; // Programs invoked by a signAndSend transaction
+  at: number; // Unix timestamp in ms
+}
+
+/**
+ * A past spend under the session, used for rolling caps
+ */
+export interface PolicySpend {
+  mint: string;
+  amount: number; // Base units
+  at: number; // Unix timestamp in ms
+}
+
+/**
+ * One rule a transaction breaks
+ */
+export type PolicyViolation =
+  | { kind: 'mint_not_allowed'; mint: string }
+  | { kind: 'session_limit'; mint: string; limit: number; spent: number; amount: number }
+  | { kind: 'max_per_transaction'; mint: string; max: number; amount: number }
+  | { kind: 'daily_cap'; mint: string; cap: number; spentToday: number; amount: number }
+  | { kind: 'destination_not_allowed'; destination: string | null }
+  | { kind: 'program_not_allowed'; programId: string }
+  | { kind: 'outside_time_window' };
+
+/**
+ * Result of evaluating a transaction against a session
+ */
+export interface PolicyEvaluation {
+  allowed: boolean;
+  violations: PolicyViolation[];
+}
+
+/**
+ * The parts of a session its rules are made of
+ */
+export type PolicySession = Pick<Session, 'limits' | 'spent' | 'policy'>;
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Check a transaction against a session's limits and policy
+ * Every broken rule is reported, not just the first.
+ * @param session - Session the transaction would run under
+ * @param transaction - The proposed transaction
+ * @param history - Earlier spends under the session; only the last 24 hours matter
+ */
+export function evaluatePolicy(
+  session: PolicySession,
+  transaction: PolicyTransaction,
+  history: PolicySpend[] = []
+): PolicyEvaluation {
+  const violations: PolicyViolation[] = [];
+  const policy = session.policy ?? {};
+  const { mint, amount } = transaction;
+
+  if (mint !== undefined && amount !== undefined && amount > 0) {
+    violations.push(...checkAmount(session, policy, { mint, amount, at: transaction.at }, history));
+  }
+
+  if (transaction.kind === 'transfer' && policy.allowedDestinations) {
+    const destination = transaction.destination ?? null;
+    if (destination === null || !policy.allowedDestinations.includes(destination)) {
+      violations.push({ kind: 'destination_not_allowed', destination });
+    }
+  }
+
+  if (transaction.kind === 'sign_and_send' && policy.allowedPrograms) {
+    for (const programId of new Set(transaction.programIds ?? [])) {
+      if (!policy.allowedPrograms.includes(programId)) {
+        violations.push({ kind: 'program_not_allowed', programId });
+      }
+    }
+  }
+
+  if (policy.timeWindows && !isWithinTimeWindows(policy.timeWindows, transaction.at)) {
+    violations.push({ kind: 'outside_time_window' });
+  }
+
+  return { allowed: violations.length === 0, violations };
+}
+
+// Spending rules for one mint
+function checkAmount(
+  session: PolicySession,
+  policy: SessionPolicy,
+  spend: PolicySpend,
+  history: PolicySpend[]
+): PolicyViolation[] {
+  const { mint, amount } = spend;
+  const limit = session.limits.find((l) => l.mint === mint);
+  if (!limit) {
+    // Mints without a limit were never granted
+    return [{ kind: 'mint_not_allowed', mint }];
+  }
+
+  const violations: PolicyViolation[] = [];
+
+  const spent = session.spent[mint] ?? 0;
+  if (spent + amount > limit.amount) {
+    violations.push({ kind: 'session_limit', mint, limit: limit.amount, spent, amount });
+  }
+
+  const max = findAmount(policy.maxPerTransaction, mint);
+  if (max !== null && amount > max) {
+    violations.push({ kind: 'max_per_transaction', mint, max, amount });
+  }
+
+  const cap = findAmount(policy.dailyCaps, mint);
+  if (cap !== null) {
+    const spentToday = history
+      .filter((h) => h.mint === mint && h.at > spend.at - DAY_MS && h.at <= spend.at)
+      .reduce((sum, h) => sum + h.amount, 0);
+    if (spentToday + amount > cap) {
+      violations.push({ kind: 'daily_cap', mint, cap, spentToday, amount });
+    }
+  }
+
+  return violations;
+}
+
+function findAmount(amounts: MintAmount[] | undefined, mint: string): number | null {
+  return amounts?.find((a) => a.mint === mint)?.amount ?? null;
+}
+
+/**
+ * Whether a moment falls inside any of the windows
+ * A window that wraps past midnight belongs to the day it starts on.
+ */
+export function isWithinTimeWindows(windows: TimeWindow[], at: number): boolean {
+  return windows.some((window) => {
+    const local = new Date(at + window.utcOffsetMinutes * 60000);
+    const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+    const day = local.getUTCDay();
+    const onDay = (d: number) => !window.days || window.days.includes(d);
+
+    if (window.startMinute < window.endMinute) {
+      return onDay(day) && minute >= window.startMinute && minute < window.endMinute;
+    }
+
+    // Wraps past midnight: the late part is on the start day, the early part the day after
+    return (
+      (onDay(day) && minute >= window.startMinute) ||
+      (onDay((day + 6) % 7) && minute < window.endMinute)
+    );
+  });
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Whether a policy sets any rule at all
+ */
+export function hasPolicyRules(policy: SessionPolicy | undefined): boolean {
+  return (
+    !!policy &&
+    [
+      policy.maxPerTransaction,
+      policy.dailyCaps,
+      policy.allowedDestinations,
+      policy.allowedPrograms,
+      policy.timeWindows,
+    ].some((rule) => rule !== undefined)
+  );
+}
+
+// Format minutes since midnight as HH:MM
+function formatMinute(minute: number): string {
+  const hours = Math.floor(minute / 60) % 24;
+  const minutes = minute % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Format a UTC offset as UTC+H or UTC+H:MM
+function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const minutes = abs % 60;
+  return `UTC${sign}${Math.floor(abs / 60)}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Describe a time window, e.g. "Mon, Tue 09:00-17:00 UTC+2"
+ */
+export function describeTimeWindow(window: TimeWindow): string {
+  const days =
+    window.days && window.days.length < 7
+      ? [...window.days]
+          .sort()
+          .map((d) => DAY_NAMES[d])
+          .join(', ')
+      : 'Every day';
+  return `${days} ${formatMinute(window.startMinute)}-${formatMinute(window.endMinute)} ${formatOffset(window.utcOffsetMinutes)}`;
+}
+
+/**
+ * Describe why a transaction was refused
+ * @param formatAmount - Formats a base-unit amount of a mint for display
+ */
+export function describePolicyViolation(
+  violation: PolicyViolation,
+  formatAmount: (mint: string, amount: number) => string
+): string {
+  switch (violation.kind) {
+    case 'mint_not_allowed':
+      return `The session has no spending limit for ${violation.mint === 'native' ? 'SOL' : violation.mint}`;
+    case 'session_limit':
+      return `Exceeds the session limit: ${formatAmount(violation.mint, violation.limit - violation.spent)} remaining`;
+    case 'max_per_transaction':
+      return `Exceeds the per-transaction maximum of ${formatAmount(violation.mint, violation.max)}`;
+    case 'daily_cap':
+      return `Exceeds the daily cap: ${formatAmount(violation.mint, Math.max(0, violation.cap - violation.spentToday))} left in the last 24 hours`;
+    case 'destination_not_allowed':
+      return violation.destination
+        ? `${violation.destination} is not an allowed destination`
+        : 'Transfer has no destination';
+    case 'program_not_allowed':
+      return `Program ${violation.programId} is not allowed`;
+    case 'outside_time_window':
+      return 'Outside the allowed hours';
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Revocation Service
+ * Signs session revocations and drives them through the API and on-chain
+ *
+ * A revocation moves pending -> submitted -> confirmed. One passkey signature can
+ * cover many sessions; each session then tracks its own progress. Each call to
+ * advanceRevocations makes as much progress as it can and returns the new states,
+ * so an offline or interrupted revocation can be resumed later without a new
+ * passkey prompt.
+ */
+
+import type { Session, SessionRevocation, SessionRevocationPayload, StoredWallet } from '../types';
+import { api, OdysseyApiError } from './api';
+import { createNonce, signSessionRevocation, type SignedPayload } from './signing';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import { confirmTransaction, sendTransaction } from './solana';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Network operations used to advance a revocation, replaceable in tests
+ */
+export interface RevocationDeps {
+  revoke: typeof api.session.revoke;
+  send: (transaction: string) => Promise<string>;
+  confirm: typeof confirmTransaction;
+}
+
+/**
+ * A session and the state of its revocation
+ */
+export interface RevocationEntry {
+  sessionId: string;
+  revocation: SessionRevocation;
+}
+
+const defaultDeps: RevocationDeps = {
+  revoke: (params) => api.session.revoke(params),
+  send: (transaction) => sendTransaction(transaction),
+  confirm: (signature) => confirmTransaction(signature),
+};
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Ask the wallet passkey to sign one revocation covering several sessions
+ * @param wallet - Wallet that approved the sessions
+ * @param sessions - Sessions to revoke, all belonging to the wallet
+ * @param agentIds - Agents whose auth secrets the server should invalidate too
+ * @param authenticator - Optional authenticator override
+ * @returns One pending revocation per session, ready for advanceRevocations
+ */
+export async function createRevocations(
+  wallet: StoredWallet,
+  sessions: Session[],
+  agentIds: string[] = [],
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<RevocationEntry[]> {
+  if (sessions.some((s) => s.walletPubkey !== wallet.publicKey)) {
+    throw new Error('Session does not belong to this wallet');
+  }
+
+  const signed = await signSessionRevocation(
+    wallet,
+    {
+      walletPubkey: wallet.publicKey,
+      sessions: sessions.map((s) => ({ sessionId: s.id, sessionPubkey: s.sessionPubkey })),
+      agentIds,
+      nonce: createNonce(),
+    },
+    authenticator
+  );
+
+  if (sessions.length === 0) {
+    // Nothing to track per session; deliver the agent invalidations right away
+    await submitRevocation(signed, []);
+    return [];
+  }
+
+  const requestedAt = Date.now();
+  return sessions.map((session) => ({
+    sessionId: session.id,
+    revocation: {
+      status: 'pending',
+      requestedAt,
+      payload: signed.payload,
+      signature: signed.signature,
+      authenticatorData: signed.authenticatorData,
+      clientDataJSON: signed.clientDataJSON,
+      transaction: null,
+      transactionSignature: null,
+      attempts: 0,
+      lastError: null,
+    },
+  }));
+}
+
+/**
+ * Send a signed revocation to the server
+ * @param sessionIds - Sessions from the payload to revoke in this call
+ */
+function submitRevocation(
+  signed: SignedPayload<SessionRevocationPayload>,
+  sessionIds: string[],
+  deps: RevocationDeps = defaultDeps
+) {
+  return deps.revoke({
+    sessionIds,
+    walletPubkey: signed.payload.walletPubkey,
+    payload: signed.payload,
+    signature: signed.signature,
+    authenticatorData: signed.authenticatorData,
+    clientDataJSON: signed.clientDataJSON,
+  });
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Whether a revocation still has work left that a retry could finish
+ */
+export function isRevocationInProgress(revocation: SessionRevocation | undefined): boolean {
+  return revocation?.status === 'pending' || revocation?.status === 'submitted';
+}
+
+// Group session ids by a shared key, skipping entries without one
+function groupBy(
+  states: Map<string, SessionRevocation>,
+  keyOf: (revocation: SessionRevocation) => string | null
+): string[][] {
+  const groups = new Map<string, string[]>();
+  for (const [sessionId, revocation] of states) {
+    const key = keyOf(revocation);
+    if (key === null) continue;
+    groups.set(key, [...(groups.get(key) ?? []), sessionId]);
+  }
+  return [...groups.values()];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Revocation failed';
+}
+
+// A 4xx response is final; server errors, timeouts and rate limiting are worth retrying
+function isRejection(error: unknown): error is OdysseyApiError {
+  return (
+    error instanceof OdysseyApiError &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 408 &&
+    error.statusCode !== 429
+  );
+}
+
+/**
+ * Move revocations forward as far as possible
+ * Sessions signed together are revoked with one API call, and a transaction shared
+ * by several sessions is sent and confirmed once. Network failures, server errors
+ * and rate limiting leave the status unchanged (with lastError set) so the caller
+ * can retry; rejections by the server or the chain mark the revocation failed.
+ * An on-chain revocation that cannot be sent or expires goes back to pending, so the
+ * server issues a new transaction.
+ * @param onProgress - Called with the current states after each step
+ */
+export async function advanceRevocations(
+  entries: RevocationEntry[],
+  deps: RevocationDeps = defaultDeps,
+  onProgress?: (entries: RevocationEntry[]) => void | Promise<void>
+): Promise<RevocationEntry[]> {
+  const states = new Map<string, SessionRevocation>(
+    entries.map(({ sessionId, revocation }) => [
+      sessionId,
+      { ...revocation, attempts: revocation.attempts + 1, lastError: null },
+    ])
+  );
+
+  const update = (sessionIds: string[], changes: Partial<SessionRevocation>) => {
+    for (const sessionId of sessionIds) {
+      states.set(sessionId, { ...states.get(sessionId)!, ...changes });
+    }
+  };
+
+  const snapshot = (): RevocationEntry[] =>
+    entries.map(({ sessionId }) => ({ sessionId, revocation: states.get(sessionId)! }));
+
+  // 1. Revoke server-side, one call per signed batch
+  const pending = groupBy(states, (r) => (r.status === 'pending' ? r.signature : null));
+  for (const sessionIds of pending) {
+    const first = states.get(sessionIds[0])!;
+    try {
+      const response = await submitRevocation(first, sessionIds, deps);
+      const transactions = new Map(response.results.map((r) => [r.sessionId, r.transaction]));
+
+      for (const sessionId of sessionIds) {
+        const transaction = transactions.get(sessionId);
+        if (transaction === undefined) {
+          update([sessionId], { status: 'failed', lastError: 'Session not revoked by the server' });
+        } else if (transaction) {
+          update([sessionId], { status: 'submitted', transaction, transactionSignature: null });
+        } else {
+          update([sessionId], { status: 'confirmed' });
+        }
+      }
+    } catch (error) {
+      update(
+        sessionIds,
+        isRejection(error)
+          ? { status: 'failed', lastError: error.message }
+          : { lastError: errorMessage(error) }
+      );
+    }
+  }
+  if (pending.length > 0) await onProgress?.(snapshot());
+
+  // 2. Send each on-chain revocation once
+  const unsent = groupBy(states, (r) =>
+    r.status === 'submitted' && !r.transactionSignature ? r.transaction : null
+  );
+  for (const sessionIds of unsent) {
+    try {
+      const transactionSignature = await deps.send(states.get(sessionIds[0])!.transaction!);
+      update(sessionIds, { transactionSignature });
+    } catch (error) {
+      // A rejected send usually means the transaction's blockhash is no longer valid;
+      // ask the server for a fresh transaction on the next attempt
+      update(sessionIds, { status: 'pending', transaction: null, lastError: errorMessage(error) });
+    }
+  }
+  if (unsent.length > 0) await onProgress?.(snapshot());
+
+  // Nothing to send or confirm; fetch the on-chain revocation again next time
+  for (const [sessionId, r] of states) {
+    if (r.status === 'submitted' && !r.transaction && !r.transactionSignature) {
+      update([sessionId], { status: 'pending' });
+    }
+  }
+
+  // 3. Confirm each sent transaction once
+  const sent = groupBy(states, (r) => (r.status === 'submitted' ? r.transactionSignature : null));
+  for (const sessionIds of sent) {
+    try {
+      const result = await deps.confirm(states.get(sessionIds[0])!.transactionSignature!);
+      if (result.confirmed) {
+        update(sessionIds, { status: 'confirmed', transaction: null });
+      } else if (result.status !== null) {
+        // The transaction landed but failed
+        update(sessionIds, { status: 'failed', lastError: result.error });
+      } else if (result.error?.startsWith('Transaction expired')) {
+        // Ask the server for a fresh transaction on the next attempt
+        update(sessionIds, {
+          status: 'pending',
+          transaction: null,
+          transactionSignature: null,
+          lastError: result.error,
+        });
+      } else {
+        update(sessionIds, { lastError: result.error });
+      }
+    } catch (error) {
+      update(sessionIds, { lastError: errorMessage(error) });
+    }
+  }
+  if (sent.length > 0) await onProgress?.(snapshot());
+
+  return snapshot();
+}
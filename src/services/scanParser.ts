@@ -0,0 +1,50 @@
+/**
+ * Scan Parser
+ * Classifies scanned or pasted text: wallet addresses, Solana Pay URLs and Odyssey links.
+ * Pure - no I/O - so the same rules apply to the camera, the clipboard and tests.
+ */
+
+import { isValidAddress } from './solana';
+import { parseSolanaPayUrl, type TransferRequestParams } from './solanaPay';
+import { parseOdysseyLink } from './deepLinks';
+
+/**
+ * What a scanned code resolved to
+ */
+export type ScanResult =
+  | { type: 'address'; address: string }
+  | { type: 'transfer'; request: TransferRequestParams }
+  | { type: 'transaction'; link: string }
+  | { type: 'pair'; code: string }
+  | { type: 'approve-session'; requestId: string }
+  | { type: 'unknown'; data: string };
+
+/**
+ * Classify scanned or pasted text
+ * @param data - Raw QR payload or clipboard text
+ */
+export function parseScannedCode(data: string): ScanResult {
+  const trimmed = data.trim();
+
+  if (isValidAddress(trimmed)) {
+    return { type: 'address', address: trimmed };
+  }
+
+  const solanaPay = parseSolanaPayUrl(trimmed);
+  if (solanaPay?.type === 'transfer') {
+    return { type: 'transfer', request: solanaPay.request };
+  }
+  if (solanaPay?.type === 'transaction') {
+    return { type: 'transaction', link: solanaPay.link };
+  }
+
+  const link = parseOdysseyLink(trimmed);
+  if (link?.action === 'pair' && link.code) {
+    return { type: 'pair', code: link.code };
+  }
+  if (link?.action === 'approve-session' && link.requestId) {
+    return { type: 'approve-session', requestId: link.requestId };
+  }
+
+  return { type: 'unknown', data: trimmed };
+}
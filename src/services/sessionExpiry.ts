@@ -0,0 +1,27 @@
+/**
+ * Session Expiry
+ * Finding and marking sessions that have run out of time
+ */
+
+import type { Session } from '../types';
+
+/**
+ * Move active sessions past their expiry to expired
+ * Returns the same array when nothing changed.
+ */
+export function markExpiredSessions(sessions: Session[], now: number = Date.now()): Session[] {
+  if (!sessions.some((s) => s.status === 'active' && s.expiresAt <= now)) {
+    return sessions;
+  }
+  return sessions.map((s) =>
+    s.status === 'active' && s.expiresAt <= now ? { ...s, status: 'expired' as const } : s
+  );
+}
+
+/**
+ * When the next active session expires, or null if none is active
+ */
+export function getNextExpiry(sessions: Session[]): number | null {
+  const expiries = sessions.filter((s) => s.status === 'active').map((s) => s.expiresAt);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
@@ -0,0 +1,140 @@
+/**
+ * Session Guard
+ * Local checks run before a session transaction is sent to the API
+ *
+ * The server enforces every rule again; the guard exists so that callers holding a
+ * session's terms fail fast, with a typed error, instead of paying a round trip for
+ * a request that cannot succeed.
+ */
+
+import { VersionedTransaction } from '@solana/web3.js';
+import type { Session } from '../types';
+import { base64ToBytes } from './encoding';
+import { isAllowanceConsumed } from './allowance';
+import {
+  describePolicyViolation,
+  evaluatePolicy,
+  type PolicySpend,
+  type PolicyTransaction,
+  type PolicyViolation,
+} from './policy';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the guard needs to know about a session
+ */
+export type GuardedSession = Pick<Session, 'status' | 'expiresAt' | 'limits' | 'spent' | 'policy'>;
+
+/**
+ * Session context attached to a session transaction request
+ */
+export interface SessionGuardContext {
+  session: GuardedSession;
+  history?: PolicySpend[]; // Recent spends, needed to enforce daily caps
+}
+
+// ============================================================================
+// Error Types
+// ============================================================================
+
+export type SessionGuardErrorCode =
+  | 'session_not_active'
+  | 'session_expired'
+  | 'session_revoked'
+  | 'session_exhausted'
+  | 'policy_violation'
+  | 'invalid_transaction';
+
+/**
+ * A session request refused locally, before any network call
+ */
+export class SessionGuardError extends Error {
+  public readonly code: SessionGuardErrorCode;
+  public readonly violations: PolicyViolation[];
+
+  constructor(message: string, code: SessionGuardErrorCode, violations: PolicyViolation[] = []) {
+    super(message);
+    this.name = 'SessionGuardError';
+    this.code = code;
+    this.violations = violations;
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Refuse a transaction the session cannot make
+ * @param context - The session and its recent spends
+ * @param transaction - The transaction about to be requested
+ * @throws SessionGuardError describing the first reason the request would fail
+ */
+export function assertSessionAllows(
+  context: SessionGuardContext,
+  transaction: PolicyTransaction
+): void {
+  const { session, history } = context;
+
+  switch (session.status) {
+    case 'active':
+      break;
+    case 'expired':
+      throw new SessionGuardError('Session has expired', 'session_expired');
+    case 'revoked':
+      throw new SessionGuardError('Session has been revoked', 'session_revoked');
+    case 'exhausted':
+      throw new SessionGuardError('Session spending limits are used up', 'session_exhausted');
+    default:
+      throw new SessionGuardError('Session is not active', 'session_not_active');
+  }
+
+  if (session.expiresAt <= transaction.at) {
+    throw new SessionGuardError('Session has expired', 'session_expired');
+  }
+
+  // The status can lag behind the last spend
+  if (isAllowanceConsumed(session)) {
+    throw new SessionGuardError('Session spending limits are used up', 'session_exhausted');
+  }
+
+  const { allowed, violations } = evaluatePolicy(session, transaction, history);
+  if (!allowed) {
+    const formatAmount = (mint: string, amount: number) => {
+      const limit = session.limits.find((l) => l.mint === mint);
+      const symbol = limit?.symbol ?? (mint === 'native' ? 'SOL' : mint);
+      return limit ? `${amount / Math.pow(10, limit.decimals)} ${symbol}` : `${amount} ${symbol}`;
+    };
+    throw new SessionGuardError(
+      describePolicyViolation(violations[0], formatAmount),
+      'policy_violation',
+      violations
+    );
+  }
+}
+
+/**
+ * List the programs a serialized transaction invokes
+ * Accepts legacy and versioned transactions.
+ * @param transaction - Base64 encoded transaction
+ * @throws SessionGuardError if the transaction cannot be read
+ */
+export function getInvokedPrograms(transaction: string): string[] {
+  let message: VersionedTransaction['message'];
+  try {
+    message = VersionedTransaction.deserialize(base64ToBytes(transaction)).message;
+  } catch {
+    throw new SessionGuardError('Transaction could not be read', 'invalid_transaction');
+  }
+
+  // Program ids are always static account keys, never loaded from lookup tables
+  const keys = message.staticAccountKeys;
+  const programs = message.compiledInstructions.map((ix) => keys[ix.programIdIndex]?.toBase58());
+  if (programs.some((p) => p === undefined)) {
+    throw new SessionGuardError('Transaction could not be read', 'invalid_transaction');
+  }
+  return [...new Set(programs as string[])];
+}
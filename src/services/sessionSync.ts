@@ -0,0 +1,80 @@
+/**
+ * Session Sync
+ * Merges the server's view of a wallet's sessions into the records on this device
+ *
+ * Conflict rules, per session id:
+ * - The server wins for `spent` and `status`; it sees every transfer the agent makes
+ * - A revocation confirmed on this device wins over an `active` server status until
+ *   the server catches up
+ * - Everything else, including revocation progress, stays as recorded locally
+ * - Sessions only the server knows are added; sessions it no longer lists are kept
+ * - Active sessions past their expiry or out of allowance are marked as such
+ */
+
+import type { Session, SessionListResponse } from '../types';
+import { api } from './api';
+import { markExhaustedSessions } from './allowance';
+import { markExpiredSessions } from './sessionExpiry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A session as listed by the server
+ */
+export type RemoteSession = SessionListResponse['sessions'][number];
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+// Server status, unless the server has not caught up with a confirmed revocation
+function mergeStatus(local: Session, remote: RemoteSession): Session['status'] {
+  const revokedLocally = local.status === 'revoked' && local.revocation?.status === 'confirmed';
+  return revokedLocally && remote.status === 'active' ? 'revoked' : remote.status;
+}
+
+/**
+ * Merge a wallet's server sessions into the local sessions
+ * Sessions of other wallets pass through untouched.
+ * @param local - All sessions stored on the device
+ * @param remote - Sessions the server lists for the wallet
+ * @param walletPubkey - Wallet the server sessions were fetched for
+ * @param now - Current time, used to expire sessions past their expiry
+ */
+export function mergeSessions(
+  local: Session[],
+  remote: RemoteSession[],
+  walletPubkey: string,
+  now: number = Date.now()
+): Session[] {
+  // Ignore anything the server returns for another wallet
+  const remoteById = new Map(
+    remote.filter((s) => s.walletPubkey === walletPubkey).map((s) => [s.id, s])
+  );
+
+  const merged = local.map((session) => {
+    const match = remoteById.get(session.id);
+    if (!match || session.walletPubkey !== walletPubkey) return session;
+
+    remoteById.delete(session.id);
+    return { ...session, spent: match.spent, status: mergeStatus(session, match) };
+  });
+
+  const added = [...remoteById.values()].map((s): Session => ({ ...s }));
+
+  return markExhaustedSessions(markExpiredSessions([...merged, ...added], now));
+}
+
+// ============================================================================
+// Fetch
+// ============================================================================
+
+/**
+ * Fetch the sessions the server lists for a wallet
+ */
+export async function fetchWalletSessions(walletPubkey: string): Promise<RemoteSession[]> {
+  const { sessions } = await api.session.list(walletPubkey);
+  return sessions;
+}
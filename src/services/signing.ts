@@ -0,0 +1,407 @@
+/**
+ * Signing Service
+ * Canonical encoding of wallet approvals and passkey signing / verification.
+ * The encoder is shared with the backend so both sides hash identical bytes.
+ */
+
+import { p256 } from '@noble/curves/p256';
+import { sha256 } from '@noble/hashes/sha256';
+import * as Crypto from 'expo-crypto';
+import type { Transaction } from '@solana/web3.js';
+import {
+  SessionApprovalPayloadSchema,
+  PairingApprovalPayloadSchema,
+  AgentSecretPayloadSchema,
+  SessionRevocationPayloadSchema,
+  parseOrThrow,
+  type SessionApprovalPayload,
+  type PairingApprovalPayload,
+  type AgentSecretPayload,
+  type SessionRevocationPayload,
+  type SessionPolicy,
+  type MintAmount,
+  type StoredWallet,
+} from '../types';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  bytesToUtf8,
+  concatBytes,
+  utf8ToBytes,
+} from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Domain separators so a signature for one message type can never be replayed as another
+const SESSION_APPROVAL_DOMAIN = 'odyssey:session-approval:v1';
+const TRANSACTION_DOMAIN = 'odyssey:transaction:v1';
+const PAIRING_APPROVAL_DOMAIN = 'odyssey:pairing-approval:v1';
+const AGENT_SECRET_DOMAIN = 'odyssey:agent-secret:v1';
+const SESSION_REVOCATION_DOMAIN = 'odyssey:session-revocation:v1';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A payload together with the passkey assertion that signed it
+ * Binary fields are base64 encoded for transport
+ */
+export interface SignedPayload<T> {
+  payload: T;
+  signature: string;
+  authenticatorData: string;
+  clientDataJSON: string;
+}
+
+// ============================================================================
+// Canonical Encoding
+// ============================================================================
+
+type CanonicalValue = string | number | boolean | null | CanonicalValue[] | CanonicalObject;
+interface CanonicalObject {
+  [key: string]: CanonicalValue;
+}
+
+/**
+ * Serialize a value as canonical JSON: object keys sorted, no whitespace
+ */
+export function canonicalJson(value: CanonicalValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error('Cannot canonically encode a non-finite number');
+  }
+
+  return JSON.stringify(value);
+}
+
+// Policy with its lists in a fixed order; omitted rules stay omitted
+function canonicalPolicy(policy: SessionPolicy): CanonicalValue {
+  const byMint = (amounts: MintAmount[]) =>
+    [...amounts]
+      .sort((a, b) => (a.mint < b.mint ? -1 : a.mint > b.mint ? 1 : 0))
+      .map((a) => ({ mint: a.mint, amount: a.amount }));
+
+  return {
+    ...(policy.maxPerTransaction && { maxPerTransaction: byMint(policy.maxPerTransaction) }),
+    ...(policy.dailyCaps && { dailyCaps: byMint(policy.dailyCaps) }),
+    ...(policy.allowedDestinations && {
+      allowedDestinations: [...policy.allowedDestinations].sort(),
+    }),
+    ...(policy.allowedPrograms && { allowedPrograms: [...policy.allowedPrograms].sort() }),
+    ...(policy.timeWindows && {
+      timeWindows: policy.timeWindows.map((w) => ({
+        ...(w.days && { days: [...w.days].sort() }),
+        startMinute: w.startMinute,
+        endMinute: w.endMinute,
+        utcOffsetMinutes: w.utcOffsetMinutes,
+      })),
+    }),
+  };
+}
+
+/**
+ * Encode a session approval payload to its canonical bytes
+ * Limits are sorted by mint and display-only fields (symbol) are dropped,
+ * so the encoding depends only on the terms being granted.
+ */
+export function encodeSessionApproval(payload: SessionApprovalPayload): Uint8Array {
+  const validated = parseOrThrow(SessionApprovalPayloadSchema, payload, 'Invalid approval');
+
+  const limits = [...validated.limits]
+    .sort((a, b) => (a.mint < b.mint ? -1 : a.mint > b.mint ? 1 : 0))
+    .map((limit) => ({ mint: limit.mint, amount: limit.amount, decimals: limit.decimals }));
+
+  const body = canonicalJson({
+    requestId: validated.requestId,
+    walletPubkey: validated.walletPubkey,
+    sessionPubkey: validated.sessionPubkey,
+    limits,
+    durationSeconds: validated.durationSeconds,
+    expiresAt: validated.expiresAt,
+    // Approvals without a policy encode exactly as before policies existed
+    ...(validated.policy ? { policy: canonicalPolicy(validated.policy) } : {}),
+    nonce: validated.nonce,
+  });
+
+  return utf8ToBytes(`${SESSION_APPROVAL_DOMAIN}\n${body}`);
+}
+
+/**
+ * WebAuthn challenge for a session approval: sha256 of the canonical bytes
+ */
+export function sessionApprovalChallenge(payload: SessionApprovalPayload): Uint8Array {
+  return sha256(encodeSessionApproval(payload));
+}
+
+/**
+ * Encode a pairing approval payload to its canonical bytes
+ */
+export function encodePairingApproval(payload: PairingApprovalPayload): Uint8Array {
+  const validated = parseOrThrow(PairingApprovalPayloadSchema, payload, 'Invalid pairing approval');
+
+  const body = canonicalJson({
+    requestId: validated.requestId,
+    agentId: validated.agentId,
+    agentName: validated.agentName,
+    walletPubkey: validated.walletPubkey,
+    authSecretHash: validated.authSecretHash,
+    nonce: validated.nonce,
+  });
+
+  return utf8ToBytes(`${PAIRING_APPROVAL_DOMAIN}\n${body}`);
+}
+
+/**
+ * WebAuthn challenge for a pairing approval: sha256 of the canonical bytes
+ */
+export function pairingApprovalChallenge(payload: PairingApprovalPayload): Uint8Array {
+  return sha256(encodePairingApproval(payload));
+}
+
+/**
+ * Encode an agent secret update payload to its canonical bytes
+ */
+export function encodeAgentSecretUpdate(payload: AgentSecretPayload): Uint8Array {
+  const validated = parseOrThrow(AgentSecretPayloadSchema, payload, 'Invalid secret update');
+
+  const body = canonicalJson({
+    agentId: validated.agentId,
+    walletPubkey: validated.walletPubkey,
+    authSecretHash: validated.authSecretHash,
+    nonce: validated.nonce,
+  });
+
+  return utf8ToBytes(`${AGENT_SECRET_DOMAIN}\n${body}`);
+}
+
+/**
+ * WebAuthn challenge for an agent secret update: sha256 of the canonical bytes
+ */
+export function agentSecretChallenge(payload: AgentSecretPayload): Uint8Array {
+  return sha256(encodeAgentSecretUpdate(payload));
+}
+
+/**
+ * Encode a session revocation payload to its canonical bytes
+ */
+export function encodeSessionRevocation(payload: SessionRevocationPayload): Uint8Array {
+  const validated = parseOrThrow(SessionRevocationPayloadSchema, payload, 'Invalid revocation');
+
+  // Order-independent, so the same batch always produces the same challenge
+  const sessions = [...validated.sessions].sort((a, b) => a.sessionId.localeCompare(b.sessionId));
+
+  const body = canonicalJson({
+    walletPubkey: validated.walletPubkey,
+    sessions: sessions.map((s) => ({ sessionId: s.sessionId, sessionPubkey: s.sessionPubkey })),
+    agentIds: [...validated.agentIds].sort(),
+    nonce: validated.nonce,
+  });
+
+  return utf8ToBytes(`${SESSION_REVOCATION_DOMAIN}\n${body}`);
+}
+
+/**
+ * WebAuthn challenge for a session revocation: sha256 of the canonical bytes
+ * The server checks it for the API revoke and the smart wallet program checks it on-chain
+ */
+export function sessionRevocationChallenge(payload: SessionRevocationPayload): Uint8Array {
+  return sha256(encodeSessionRevocation(payload));
+}
+
+/**
+ * WebAuthn challenge for a wallet transaction: sha256 of the domain-tagged message bytes
+ * @param message - Serialized transaction message
+ */
+export function transactionChallenge(message: Uint8Array): Uint8Array {
+  return sha256(concatBytes(utf8ToBytes(`${TRANSACTION_DOMAIN}\n`), message));
+}
+
+/**
+ * Generate a random nonce for a signed payload
+ */
+export function createNonce(): string {
+  return bytesToBase64Url(Crypto.getRandomBytes(16));
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Ask the wallet's passkey to sign a challenge
+ */
+async function signChallenge<T>(
+  wallet: StoredWallet,
+  payload: T,
+  challenge: Uint8Array,
+  authenticator: PasskeyAuthenticator
+): Promise<SignedPayload<T>> {
+  const assertion = await authenticator.sign(wallet.credentialId, challenge);
+
+  return {
+    payload,
+    signature: bytesToBase64(assertion.signature),
+    authenticatorData: bytesToBase64(assertion.authenticatorData),
+    clientDataJSON: bytesToBase64(assertion.clientDataJSON),
+  };
+}
+
+/**
+ * Sign a session approval with the wallet's passkey
+ * @param wallet - Wallet whose passkey approves the session
+ * @param payload - Approval terms (walletPubkey must match the wallet)
+ * @param authenticator - Optional authenticator override
+ */
+export async function signSessionApproval(
+  wallet: StoredWallet,
+  payload: SessionApprovalPayload,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<SignedPayload<SessionApprovalPayload>> {
+  if (payload.walletPubkey !== wallet.publicKey) {
+    throw new Error('Approval payload does not belong to this wallet');
+  }
+
+  return signChallenge(wallet, payload, sessionApprovalChallenge(payload), authenticator);
+}
+
+/**
+ * Sign a pairing approval with the wallet's passkey
+ * @param wallet - Wallet the agent is being paired with
+ * @param payload - Pairing terms (walletPubkey must match the wallet)
+ * @param authenticator - Optional authenticator override
+ */
+export async function signPairingApproval(
+  wallet: StoredWallet,
+  payload: PairingApprovalPayload,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<SignedPayload<PairingApprovalPayload>> {
+  if (payload.walletPubkey !== wallet.publicKey) {
+    throw new Error('Pairing payload does not belong to this wallet');
+  }
+
+  return signChallenge(wallet, payload, pairingApprovalChallenge(payload), authenticator);
+}
+
+/**
+ * Sign an agent secret rotation or invalidation with the wallet's passkey
+ * @param wallet - Wallet the agent is paired with
+ * @param payload - Secret update (walletPubkey must match the wallet)
+ * @param authenticator - Optional authenticator override
+ */
+export async function signAgentSecretUpdate(
+  wallet: StoredWallet,
+  payload: AgentSecretPayload,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<SignedPayload<AgentSecretPayload>> {
+  if (payload.walletPubkey !== wallet.publicKey) {
+    throw new Error('Secret update does not belong to this wallet');
+  }
+
+  return signChallenge(wallet, payload, agentSecretChallenge(payload), authenticator);
+}
+
+/**
+ * Sign a session revocation with the wallet's passkey
+ * @param wallet - Wallet that approved the sessions
+ * @param payload - Sessions to revoke (walletPubkey must match the wallet)
+ * @param authenticator - Optional authenticator override
+ */
+export async function signSessionRevocation(
+  wallet: StoredWallet,
+  payload: SessionRevocationPayload,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<SignedPayload<SessionRevocationPayload>> {
+  if (payload.walletPubkey !== wallet.publicKey) {
+    throw new Error('Revocation does not belong to this wallet');
+  }
+
+  return signChallenge(wallet, payload, sessionRevocationChallenge(payload), authenticator);
+}
+
+/**
+ * Sign a wallet transaction with the wallet's passkey
+ * The payload is the base64 serialized message; the smart wallet program executes
+ * its instructions once the passkey signature verifies.
+ * @param wallet - Wallet whose passkey authorizes the transaction
+ * @param transaction - Unsigned transaction with the wallet as fee payer
+ * @param authenticator - Optional authenticator override
+ */
+export async function signTransaction(
+  wallet: StoredWallet,
+  transaction: Transaction,
+  authenticator: PasskeyAuthenticator = getPasskeyAuthenticator()
+): Promise<SignedPayload<string>> {
+  if (transaction.feePayer?.toBase58() !== wallet.publicKey) {
+    throw new Error('Transaction does not belong to this wallet');
+  }
+
+  const message = transaction.serializeMessage();
+  return signChallenge(
+    wallet,
+    bytesToBase64(message),
+    transactionChallenge(message),
+    authenticator
+  );
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a passkey assertion over an expected challenge
+ * Checks that clientDataJSON embeds the challenge and the signature is valid
+ * for authenticatorData || sha256(clientDataJSON).
+ * @param passkeyPubkey - Compressed P-256 public key (base64)
+ */
+export function verifyPasskeySignature(
+  signed: Omit<SignedPayload<unknown>, 'payload'>,
+  challenge: Uint8Array,
+  passkeyPubkey: string
+): boolean {
+  try {
+    const clientDataJSON = base64ToBytes(signed.clientDataJSON);
+    const clientData = JSON.parse(bytesToUtf8(clientDataJSON)) as {
+      type?: string;
+      challenge?: string;
+    };
+    if (
+      clientData.type !== 'webauthn.get' ||
+      clientData.challenge !== bytesToBase64Url(challenge)
+    ) {
+      return false;
+    }
+
+    const message = concatBytes(base64ToBytes(signed.authenticatorData), sha256(clientDataJSON));
+    return p256.verify(base64ToBytes(signed.signature), message, base64ToBytes(passkeyPubkey), {
+      prehash: true,
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a signed session approval against the approving wallet's passkey
+ */
+export function verifySessionApproval(
+  signed: SignedPayload<SessionApprovalPayload>,
+  passkeyPubkey: string
+): boolean {
+  return verifyPasskeySignature(signed, sessionApprovalChallenge(signed.payload), passkeyPubkey);
+}
@@ -14,10 +14,33 @@ import {
   SendOptions,
   TransactionSignature,
   TransactionConfirmationStatus,
+  TransactionInstruction,
+  SystemInstruction,
+  ComputeBudgetProgram,
   clusterApiUrl,
   ParsedAccountData,
 } from '@solana/web3.js';
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  decodeInstruction as decodeTokenInstruction,
+  isTransferInstruction,
+  isTransferCheckedInstruction,
+  unpackMint,
+  getTransferFeeConfig,
+  getEpochFee,
+  calculateEpochFee,
+  getNonTransferable,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
+  type TransferFeeConfig,
+} from '@solana/spl-token';
+import { Buffer } from 'buffer';
 import type { TokenBalance } from '../types';
+import { base64ToBytes, bytesToUtf8 } from './encoding';
 
 // ============================================================================
 // Constants
@@ -26,8 +49,18 @@ import type { TokenBalance } from '../types';
 const DEFAULT_CLUSTER = 'devnet';
 const DEFAULT_COMMITMENT: Commitment = 'confirmed';
 
-// Token program ID for SPL tokens
-const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+// Token holdings may live under either the original token program or Token-2022
+const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+// getMultipleAccountsInfo accepts at most 100 keys per request
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+// Current and legacy SPL Memo programs
+const MEMO_PROGRAM_IDS = [
+  'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr',
+  'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo',
+];
+const MEMO_PROGRAM_ID = new PublicKey(MEMO_PROGRAM_IDS[0]);
 
 // ============================================================================
 // Connection Management
@@ -96,7 +129,7 @@ interface TokenAccountInfo {
 }
 
 /**
- * Get all token balances for a wallet (SOL + SPL tokens)
+ * Get all token balances for a wallet (SOL + SPL and Token-2022 tokens)
  * @param publicKey - Wallet public key (string or PublicKey)
  * @returns Array of token balances including native SOL
  */
@@ -106,56 +139,216 @@ export async function getTokenBalances(publicKey: string | PublicKey): Promise<T
 
   const balances: TokenBalance[] = [];
 
-  // Get native SOL balance
-  const solBalance = await connection.getBalance(pubkey);
+  // Get native SOL balance and token accounts under both token programs
+  const [solBalance, ...tokenAccountsByProgram] = await Promise.all([
+    connection.getBalance(pubkey),
+    ...TOKEN_PROGRAM_IDS.map((programId) =>
+      connection.getParsedTokenAccountsByOwner(pubkey, { programId })
+    ),
+  ]);
+
   balances.push({
     mint: 'native',
     amount: solBalance,
     decimals: 9,
     symbol: 'SOL',
+    name: 'Solana',
     uiAmount: solBalance / LAMPORTS_PER_SOL,
     logoUri: null, // Could add SOL logo URI if needed
+    programId: null,
+    transferFeeBps: null,
+    nonTransferable: false,
   });
 
-  // Get SPL token accounts
-  const tokenAccounts = await connection.getParsedTokenAccountsByOwner(pubkey, {
-    programId: TOKEN_PROGRAM_ID,
-  });
+  const tokenAccounts = tokenAccountsByProgram.flatMap(({ value }) =>
+    value.flatMap(({ account }) => {
+      const parsedData = account.data as ParsedAccountData;
+      const info = parsedData.parsed?.info as TokenAccountInfo | undefined;
+      return info ? [{ info, programId: account.owner.toBase58() }] : [];
+    })
+  );
 
-  for (const { account } of tokenAccounts.value) {
-    const parsedData = account.data as ParsedAccountData;
-    const info = parsedData.parsed?.info as TokenAccountInfo | undefined;
-
-    if (info) {
-      balances.push({
-        mint: info.mint,
-        amount: Number(info.tokenAmount.amount),
-        decimals: info.tokenAmount.decimals,
-        symbol: null, // Token metadata would require additional lookup
-        uiAmount: info.tokenAmount.uiAmount,
-        logoUri: null,
-      });
-    }
+  const extensions = await getTokenExtensions(tokenAccounts.map(({ info }) => info.mint));
+
+  for (const { info, programId } of tokenAccounts) {
+    balances.push({
+      mint: info.mint,
+      amount: Number(info.tokenAmount.amount),
+      decimals: info.tokenAmount.decimals,
+      symbol: null, // Resolved separately by the token metadata service
+      name: null,
+      uiAmount: info.tokenAmount.uiAmount,
+      logoUri: null,
+      programId,
+      transferFeeBps: extensions[info.mint]?.transferFeeBps ?? null,
+      nonTransferable: extensions[info.mint]?.nonTransferable ?? false,
+    });
   }
 
   return balances;
 }
 
+// ============================================================================
+// Mint Functions
+// ============================================================================
+
+/**
+ * Decoded mint with the Token-2022 extensions that affect transfers
+ */
+export interface MintInfo {
+  address: PublicKey;
+  programId: PublicKey;
+  decimals: number;
+  transferFeeConfig: TransferFeeConfig | null;
+  nonTransferable: boolean;
+}
+
+/**
+ * Transfer-relevant token extensions, in a display-friendly form
+ */
+export interface TokenExtensions {
+  programId: string;
+  transferFeeBps: number | null; // Fee for the current epoch, null if the mint has none
+  nonTransferable: boolean;
+}
+
+/**
+ * Fetch and decode mint accounts under either token program
+ * Mints that don't exist or aren't owned by a token program are omitted.
+ * @param mints - Mint addresses
+ * @returns Mint info keyed by base58 mint address
+ */
+export async function getMintInfos(mints: (string | PublicKey)[]): Promise<Map<string, MintInfo>> {
+  const connection = getConnection();
+  const keys = mints.map((mint) => (typeof mint === 'string' ? new PublicKey(mint) : mint));
+  const result = new Map<string, MintInfo>();
+
+  for (let i = 0; i < keys.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+    const batch = keys.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+    const accounts = await connection.getMultipleAccountsInfo(batch);
+
+    batch.forEach((address, index) => {
+      const account = accounts[index];
+      const programId = TOKEN_PROGRAM_IDS.find((id) => account?.owner.equals(id));
+      if (!account || !programId) return;
+
+      const mint = unpackMint(address, account, programId);
+      result.set(address.toBase58(), {
+        address,
+        programId,
+        decimals: mint.decimals,
+        transferFeeConfig: getTransferFeeConfig(mint),
+        nonTransferable: getNonTransferable(mint) !== null,
+      });
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Fetch and decode a single mint
+ * @throws If the account is not a token mint
+ */
+export async function getMintInfo(mint: string | PublicKey): Promise<MintInfo> {
+  const key = typeof mint === 'string' ? new PublicKey(mint) : mint;
+  const info = (await getMintInfos([key])).get(key.toBase58());
+  if (!info) {
+    throw new Error(`${key.toBase58()} is not a token mint`);
+  }
+  return info;
+}
+
+/**
+ * Get the current epoch, which selects the active Token-2022 transfer fee
+ */
+async function getCurrentEpoch(): Promise<bigint> {
+  const { epoch } = await getConnection().getEpochInfo();
+  return BigInt(epoch);
+}
+
+/**
+ * Describe the transfer-relevant extensions of a set of mints
+ * @param mints - Mint addresses ("native" entries are skipped)
+ * @returns Extensions keyed by mint address
+ */
+export async function getTokenExtensions(
+  mints: string[]
+): Promise<Record<string, TokenExtensions>> {
+  const tokenMints = [...new Set(mints)].filter((mint) => mint !== 'native');
+  if (tokenMints.length === 0) {
+    return {};
+  }
+
+  const mintInfos = await getMintInfos(tokenMints);
+  const needsEpoch = [...mintInfos.values()].some((info) => info.transferFeeConfig);
+  const epoch = needsEpoch ? await getCurrentEpoch() : 0n;
+
+  const result: Record<string, TokenExtensions> = {};
+  for (const [mint, info] of mintInfos) {
+    result[mint] = {
+      programId: info.programId.toBase58(),
+      transferFeeBps: info.transferFeeConfig
+        ? getEpochFee(info.transferFeeConfig, epoch).transferFeeBasisPoints
+        : null,
+      nonTransferable: info.nonTransferable,
+    };
+  }
+  return result;
+}
+
 // ============================================================================
 // Transaction Building
 // ============================================================================
 
+/**
+ * Solana Pay fields carried into a transfer
+ */
+export interface PaymentDetails {
+  // Keys the merchant watches for to find the payment on chain
+  reference?: string[];
+  memo?: string;
+}
+
+/**
+ * Add a transfer instruction with its payment details
+ * References become read-only keys of the transfer and the memo goes right before it,
+ * as Solana Pay expects.
+ */
+function addTransfer(
+  transaction: Transaction,
+  transfer: TransactionInstruction,
+  { reference = [], memo }: PaymentDetails
+): void {
+  if (memo) {
+    transaction.add(
+      new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [],
+        data: Buffer.from(memo, 'utf8'),
+      })
+    );
+  }
+
+  for (const ref of reference) {
+    transfer.keys.push({ pubkey: new PublicKey(ref), isSigner: false, isWritable: false });
+  }
+  transaction.add(transfer);
+}
+
 /**
  * Build a SOL transfer transaction
  * @param from - Sender public key
  * @param to - Recipient public key
  * @param amount - Amount in lamports
+ * @param details - Solana Pay reference and memo, if any
  * @returns Unsigned Transaction
  */
 export async function buildTransferSolTransaction(
   from: string | PublicKey,
   to: string | PublicKey,
-  amount: number
+  amount: number,
+  details: PaymentDetails = {}
 ): Promise<Transaction> {
   const fromPubkey = typeof from === 'string' ? new PublicKey(from) : from;
   const toPubkey = typeof to === 'string' ? new PublicKey(to) : to;
@@ -176,14 +369,112 @@ export async function buildTransferSolTransaction(
   });
 
   // Add transfer instruction
-  transaction.add(
+  addTransfer(
+    transaction,
     SystemProgram.transfer({
       fromPubkey,
       toPubkey,
       lamports: amount,
-    })
+    }),
+    details
+  );
+
+  return transaction;
+}
+
+/**
+ * Build a token transfer transaction for either token program
+ * Creates the recipient's associated token account if needed and, for Token-2022
+ * mints with a transfer fee, includes the fee for the current epoch.
+ * @param from - Sender wallet public key
+ * @param to - Recipient wallet public key
+ * @param mint - Token mint
+ * @param amount - Amount in base units
+ * @param details - Solana Pay reference and memo, if any
+ * @returns Unsigned Transaction
+ */
+export async function buildTransferTokenTransaction(
+  from: string | PublicKey,
+  to: string | PublicKey,
+  mint: string | PublicKey,
+  amount: number | bigint,
+  details: PaymentDetails = {}
+): Promise<Transaction> {
+  const fromPubkey = typeof from === 'string' ? new PublicKey(from) : from;
+  const toPubkey = typeof to === 'string' ? new PublicKey(to) : to;
+
+  // Validate amount
+  if (typeof amount === 'number' && !Number.isSafeInteger(amount)) {
+    throw new Error('Transfer amount must be a whole number of base units');
+  }
+  const baseUnits = BigInt(amount);
+  if (baseUnits <= 0n) {
+    throw new Error('Transfer amount must be positive');
+  }
+
+  const mintInfo = await getMintInfo(mint);
+  if (mintInfo.nonTransferable) {
+    throw new Error('This token is non-transferable');
+  }
+
+  // Wallets are program-derived addresses, so owners may be off-curve
+  const { address: mintPubkey, programId, decimals } = mintInfo;
+  const source = getAssociatedTokenAddressSync(mintPubkey, fromPubkey, true, programId);
+  const destination = getAssociatedTokenAddressSync(mintPubkey, toPubkey, true, programId);
+
+  const { blockhash, lastValidBlockHeight } = await getRecentBlockhash();
+
+  const transaction = new Transaction({
+    feePayer: fromPubkey,
+    blockhash,
+    lastValidBlockHeight,
+  });
+
+  // No-op if the recipient already has a token account
+  transaction.add(
+    createAssociatedTokenAccountIdempotentInstruction(
+      fromPubkey,
+      destination,
+      toPubkey,
+      mintPubkey,
+      programId
+    )
   );
 
+  if (mintInfo.transferFeeConfig) {
+    const fee = calculateEpochFee(mintInfo.transferFeeConfig, await getCurrentEpoch(), baseUnits);
+    addTransfer(
+      transaction,
+      createTransferCheckedWithFeeInstruction(
+        source,
+        mintPubkey,
+        destination,
+        fromPubkey,
+        baseUnits,
+        decimals,
+        fee,
+        [],
+        programId
+      ),
+      details
+    );
+  } else {
+    addTransfer(
+      transaction,
+      createTransferCheckedInstruction(
+        source,
+        mintPubkey,
+        destination,
+        fromPubkey,
+        baseUnits,
+        decimals,
+        [],
+        programId
+      ),
+      details
+    );
+  }
+
   return transaction;
 }
 
@@ -232,7 +523,7 @@ export async function sendTransaction(
     serializedTx = transaction.serialize();
   } else if (typeof transaction === 'string') {
     // Assume base64 encoded - decode to Uint8Array
-    serializedTx = base64ToUint8Array(transaction);
+    serializedTx = base64ToBytes(transaction);
   } else {
     serializedTx = transaction;
   }
@@ -319,6 +610,109 @@ export async function confirmTransaction(
   };
 }
 
+// ============================================================================
+// Instruction Decoding
+// ============================================================================
+
+/**
+ * Readable summary of a single instruction, for transaction previews
+ * Amounts are in base units; mint and decimals are only known for checked transfers
+ */
+export type InstructionSummary =
+  | { type: 'sol_transfer'; from: string; to: string; lamports: bigint }
+  | {
+      type: 'token_transfer';
+      source: string;
+      destination: string;
+      owner: string;
+      mint: string | null;
+      amount: bigint;
+      decimals: number | null;
+    }
+  | { type: 'create_token_account'; account: string; owner: string; mint: string }
+  | { type: 'memo'; text: string }
+  | { type: 'compute_budget' }
+  | { type: 'unknown'; programId: string };
+
+function decodeSystemInstruction(instruction: TransactionInstruction): InstructionSummary | null {
+  try {
+    if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') return null;
+    const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+    return {
+      type: 'sol_transfer',
+      from: fromPubkey.toBase58(),
+      to: toPubkey.toBase58(),
+      lamports: BigInt(lamports),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function decodeTokenTransfer(instruction: TransactionInstruction): InstructionSummary | null {
+  try {
+    const decoded = decodeTokenInstruction(instruction, instruction.programId);
+
+    if (isTransferCheckedInstruction(decoded)) {
+      return {
+        type: 'token_transfer',
+        source: decoded.keys.source.pubkey.toBase58(),
+        destination: decoded.keys.destination.pubkey.toBase58(),
+        owner: decoded.keys.owner.pubkey.toBase58(),
+        mint: decoded.keys.mint.pubkey.toBase58(),
+        amount: decoded.data.amount,
+        decimals: decoded.data.decimals,
+      };
+    }
+
+    if (isTransferInstruction(decoded)) {
+      return {
+        type: 'token_transfer',
+        source: decoded.keys.source.pubkey.toBase58(),
+        destination: decoded.keys.destination.pubkey.toBase58(),
+        owner: decoded.keys.owner.pubkey.toBase58(),
+        mint: null,
+        amount: decoded.data.amount,
+        decimals: null,
+      };
+    }
+
+    return null;
+  } catch {
+    // Token-2022 extension instructions are not decoded
+    return null;
+  }
+}
+
+/**
+ * Summarize an instruction for display
+ * Instructions that cannot be decoded are reported as unknown with their program
+ */
+export function summarizeInstruction(instruction: TransactionInstruction): InstructionSummary {
+  const { programId } = instruction;
+  let summary: InstructionSummary | null = null;
+
+  if (programId.equals(SystemProgram.programId)) {
+    summary = decodeSystemInstruction(instruction);
+  } else if (TOKEN_PROGRAM_IDS.some((id) => id.equals(programId))) {
+    summary = decodeTokenTransfer(instruction);
+  } else if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && instruction.keys.length >= 4) {
+    // Keys: payer, associated account, owner, mint, ...
+    summary = {
+      type: 'create_token_account',
+      account: instruction.keys[1].pubkey.toBase58(),
+      owner: instruction.keys[2].pubkey.toBase58(),
+      mint: instruction.keys[3].pubkey.toBase58(),
+    };
+  } else if (MEMO_PROGRAM_IDS.includes(programId.toBase58())) {
+    summary = { type: 'memo', text: bytesToUtf8(instruction.data) };
+  } else if (programId.equals(ComputeBudgetProgram.programId)) {
+    summary = { type: 'compute_budget' };
+  }
+
+  return summary ?? { type: 'unknown', programId: programId.toBase58() };
+}
+
 // ============================================================================
 // Address Utilities
 // ============================================================================
@@ -365,39 +759,6 @@ export function shortenAddress(address: string, chars = 4): string {
   return `${address.slice(0, chars)}...${address.slice(-chars)}`;
 }
 
-// ============================================================================
-// Base64 Utilities (React Native compatible)
-// ============================================================================
-
-const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
-
-/**
- * Decode base64 string to Uint8Array (React Native compatible)
- */
-function base64ToUint8Array(base64: string): Uint8Array {
-  // Remove padding
-  const cleanBase64 = base64.replace(/=+$/, '');
-  const length = cleanBase64.length;
-
-  // Calculate output length
-  const outputLength = Math.floor((length * 3) / 4);
-  const bytes = new Uint8Array(outputLength);
-
-  let byteIndex = 0;
-  for (let i = 0; i < length; i += 4) {
-    const a = BASE64_CHARS.indexOf(cleanBase64[i]);
-    const b = i + 1 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 1]) : 0;
-    const c = i + 2 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 2]) : 0;
-    const d = i + 3 < length ? BASE64_CHARS.indexOf(cleanBase64[i + 3]) : 0;
-
-    bytes[byteIndex++] = (a << 2) | (b >> 4);
-    if (byteIndex < outputLength) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
-    if (byteIndex < outputLength) bytes[byteIndex++] = ((c & 3) << 6) | d;
-  }
-
-  return bytes;
-}
-
 // ============================================================================
 // Utility Exports
 // ============================================================================
@@ -423,3 +784,42 @@ export function formatSol(lamports: number, decimals = 4): string {
   const sol = lamportsToSol(lamports);
   return sol.toFixed(decimals);
 }
+
+/**
+ * Format a fee in basis points as a percentage (e.g. 150 -> "1.5%")
+ */
+export function formatFeeBps(basisPoints: number): string {
+  return `${Number((basisPoints / 100).toFixed(2))}%`;
+}
+
+/**
+ * Parse a decimal amount string into base units without floating point rounding
+ * @param value - User-entered amount (e.g. "1.25")
+ * @param decimals - Token decimals
+ * @returns Amount in base units, or null if the string is not a valid amount
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint | null {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    return null;
+  }
+
+  return (
+    BigInt(whole || '0') * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0')
+  );
+}
+
+/**
+ * Format an amount in base units as an exact decimal string (e.g. 1250000n, 6 -> "1.25")
+ */
+export function formatTokenAmount(amount: bigint, decimals: number): string {
+  const divisor = 10n ** BigInt(decimals);
+  const whole = amount / divisor;
+  const fraction = (amount % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
@@ -0,0 +1,345 @@
+/**
+ * Solana Pay
+ * Encoding and parsing of Solana Pay transfer and transaction request URLs
+ * Spec: https://docs.solanapay.com/spec
+ */
+
+import { z } from 'zod';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import {
+  getRecentBlockhash,
+  isValidAddress,
+  summarizeInstruction,
+  type InstructionSummary,
+} from './solana';
+import { base64ToBytes, parseQueryString } from './encoding';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A Solana Pay transfer request
+ * amount is a decimal string in display units (e.g. "1.5"), never base units
+ */
+export interface TransferRequestParams {
+  recipient: string;
+  amount?: string;
+  splToken?: string; // Token mint, omitted for SOL
+  reference?: string[];
+  label?: string;
+  message?: string;
+  memo?: string;
+}
+
+/**
+ * A parsed solana: URL
+ * Transaction requests carry an HTTPS link the wallet fetches the transaction from
+ */
+export type SolanaPayRequest =
+  | { type: 'transfer'; request: TransferRequestParams }
+  | { type: 'transaction'; link: string };
+
+/**
+ * Merchant details returned by a transaction request GET
+ */
+export interface TransactionRequestMetadata {
+  label: string;
+  icon: string;
+}
+
+/**
+ * Transaction returned by a transaction request POST, ready for the wallet to sign
+ */
+export interface TransactionRequestResult {
+  transaction: Transaction;
+  message: string | null;
+  instructions: InstructionSummary[];
+}
+
+export interface TransactionRequestOptions {
+  fetch?: typeof fetch; // Override for tests or a local stand-in server
+  timeoutMs?: number;
+  allowLocalHttp?: boolean; // Accept plain HTTP on this machine; defaults to dev builds only
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * A transaction request that could not be fetched or failed validation
+ */
+export class SolanaPayError extends Error {
+  public readonly statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = 'SolanaPayError';
+    this.statusCode = statusCode;
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const SOLANA_PAY_PROTOCOL = 'solana:';
+
+// Non-negative decimal without exponent, as required by the spec
+const AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Encode a transfer request as a solana: URL
+ * @throws If the recipient, token or references are not valid addresses, or the amount is malformed
+ */
+export function encodeTransferRequestUrl(params: TransferRequestParams): string {
+  const { recipient, amount, splToken, reference = [], label, message, memo } = params;
+
+  if (!isValidAddress(recipient)) {
+    throw new Error('Invalid recipient address');
+  }
+  if (splToken !== undefined && !isValidAddress(splToken)) {
+    throw new Error('Invalid SPL token mint');
+  }
+  if (reference.some((ref) => !isValidAddress(ref))) {
+    throw new Error('Invalid reference address');
+  }
+
+  const query: string[] = [];
+
+  if (amount !== undefined && amount !== '') {
+    if (!AMOUNT_PATTERN.test(amount)) {
+      throw new Error('Amount must be a non-negative decimal number');
+    }
+    query.push(`amount=${amount}`);
+  }
+  if (splToken) {
+    query.push(`spl-token=${splToken}`);
+  }
+  for (const ref of reference) {
+    query.push(`reference=${ref}`);
+  }
+  if (label) {
+    query.push(`label=${encodeURIComponent(label)}`);
+  }
+  if (message) {
+    query.push(`message=${encodeURIComponent(message)}`);
+  }
+  if (memo) {
+    query.push(`memo=${encodeURIComponent(memo)}`);
+  }
+
+  const url = `${SOLANA_PAY_PROTOCOL}${recipient}`;
+  return query.length > 0 ? `${url}?${query.join('&')}` : url;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a solana: URL into a transfer or transaction request
+ * @returns The request, or null if the URL is not a valid Solana Pay URL
+ */
+export function parseSolanaPayUrl(url: string): SolanaPayRequest | null {
+  const trimmed = url.trim();
+  if (trimmed.slice(0, SOLANA_PAY_PROTOCOL.length).toLowerCase() !== SOLANA_PAY_PROTOCOL) {
+    return null;
+  }
+
+  const body = trimmed.slice(SOLANA_PAY_PROTOCOL.length);
+
+  try {
+    // Transaction request: the (possibly URL-encoded) HTTPS link follows the protocol
+    const decodedBody = decodeURIComponent(body);
+    if (/^https:\/\//i.test(decodedBody)) {
+      return { type: 'transaction', link: decodedBody };
+    }
+
+    const separator = body.indexOf('?');
+    const recipient = separator === -1 ? body : body.slice(0, separator);
+    const query = separator === -1 ? '' : body.slice(separator + 1);
+    if (!isValidAddress(recipient)) {
+      return null;
+    }
+
+    const request: TransferRequestParams = { recipient };
+    for (const [key, value] of parseQueryString(query)) {
+      switch (key) {
+        case 'amount':
+          if (!AMOUNT_PATTERN.test(value)) return null;
+          request.amount = value;
+          break;
+        case 'spl-token':
+          if (!isValidAddress(value)) return null;
+          request.splToken = value;
+          break;
+        case 'reference':
+          if (!isValidAddress(value)) return null;
+          request.reference = [...(request.reference ?? []), value];
+          break;
+        case 'label':
+          request.label = value;
+          break;
+        case 'message':
+          request.message = value;
+          break;
+        case 'memo':
+          request.memo = value;
+          break;
+        default:
+          // Unknown parameters are ignored per the spec
+          break;
+      }
+    }
+
+    return { type: 'transfer', request };
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+// ============================================================================
+// Transaction Requests
+// ============================================================================
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Plain HTTP is only accepted, in dev builds, for a stand-in server on this machine or
+// the emulator host
+const LOCAL_LINK_PATTERN = /^http:\/\/(localhost|127\.0\.0\.1|10\.0\.2\.2)(:\d+)?(\/|$)/i;
+
+// The spec allows SVG, PNG and WebP icons only
+const ICON_EXTENSION_PATTERN = /\.(svg|png|webp)$/i;
+
+const TransactionRequestMetadataSchema = z.object({
+  label: z.string().trim().min(1),
+  icon: z.string(),
+});
+
+const TransactionRequestResponseSchema = z.object({
+  transaction: z.string().min(1),
+  message: z.string().optional(),
+});
+
+function isRequestLink(
+  link: string,
+  { allowLocalHttp = __DEV__ }: TransactionRequestOptions
+): boolean {
+  return /^https:\/\//i.test(link) || (allowLocalHttp && LOCAL_LINK_PATTERN.test(link));
+}
+
+async function requestJson(
+  link: string,
+  init: { method: 'GET' | 'POST'; body?: string },
+  options: TransactionRequestOptions
+): Promise<unknown> {
+  const { fetch: fetchFn = fetch, timeoutMs = REQUEST_TIMEOUT_MS } = options;
+  if (!isRequestLink(link, options)) {
+    throw new SolanaPayError('Transaction request links must use HTTPS');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetchFn(link, {
+      method: init.method,
+      headers: {
+        Accept: 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new SolanaPayError(`Merchant responded with HTTP ${response.status}`, response.status);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof SolanaPayError) throw error;
+    throw new SolanaPayError('Could not reach the merchant');
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch the merchant label and icon for a transaction request
+ * @throws SolanaPayError if the request fails or the response is malformed
+ */
+export async function fetchTransactionRequestMetadata(
+  link: string,
+  options: TransactionRequestOptions = {}
+): Promise<TransactionRequestMetadata> {
+  const result = TransactionRequestMetadataSchema.safeParse(
+    await requestJson(link, { method: 'GET' }, options)
+  );
+  if (!result.success) {
+    throw new SolanaPayError('Merchant sent an invalid label or icon');
+  }
+
+  const { label, icon } = result.data;
+  const iconPath = icon.split(/[?#]/, 1)[0];
+  if (!isRequestLink(icon, options) || !ICON_EXTENSION_PATTERN.test(iconPath)) {
+    throw new SolanaPayError('Merchant icon must be an SVG, PNG or WebP image');
+  }
+
+  return { label, icon };
+}
+
+/**
+ * Fetch the transaction for a transaction request and check it can be signed
+ * An unsigned transaction gets the wallet as fee payer and a fresh blockhash, as the
+ * spec requires. Smart wallets can only provide their own signature, so requests
+ * needing any other signer are rejected.
+ * @param account - Wallet public key sent to the merchant
+ * @throws SolanaPayError if the request fails or the transaction is unusable
+ */
+export async function fetchTransactionRequest(
+  link: string,
+  account: string,
+  options: TransactionRequestOptions = {}
+): Promise<TransactionRequestResult> {
+  const result = TransactionRequestResponseSchema.safeParse(
+    await requestJson(link, { method: 'POST', body: JSON.stringify({ account }) }, options)
+  );
+  if (!result.success) {
+    throw new SolanaPayError('Merchant sent an invalid transaction response');
+  }
+
+  let transaction: Transaction;
+  try {
+    transaction = Transaction.from(base64ToBytes(result.data.transaction));
+  } catch {
+    // Includes versioned transactions, which the signing flow does not support
+    throw new SolanaPayError('Merchant sent a transaction this wallet cannot read');
+  }
+
+  const accountKey = new PublicKey(account);
+  if (transaction.signatures.length === 0) {
+    transaction.feePayer = accountKey;
+    transaction.recentBlockhash = (await getRecentBlockhash()).blockhash;
+  } else if (!transaction.feePayer?.equals(accountKey)) {
+    throw new SolanaPayError('The transaction fee payer is not your wallet');
+  }
+
+  if (transaction.instructions.length === 0) {
+    throw new SolanaPayError('Merchant sent an empty transaction');
+  }
+
+  const message = transaction.compileMessage();
+  const signers = message.accountKeys.slice(0, message.header.numRequiredSignatures);
+  if (signers.some((key) => !key.equals(accountKey))) {
+    throw new SolanaPayError('This request needs another signer, which smart wallets cannot add');
+  }
+
+  return {
+    transaction,
+    message: result.data.message ?? null,
+    instructions: transaction.instructions.map(summarizeInstruction),
+  };
+}
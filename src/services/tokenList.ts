@@ -0,0 +1,93 @@
+/**
+ * Bundled Token List
+ * Metadata for well-known mints, used when on-chain metadata is missing or unreachable
+ */
+
+import type { TokenMetadata } from '../types';
+
+const TOKEN_LIST_ASSETS =
+  'https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet';
+
+const BUNDLED_TOKENS: TokenMetadata[] = [
+  {
+    mint: 'native',
+    name: 'Solana',
+    symbol: 'SOL',
+    logoUri: `${TOKEN_LIST_ASSETS}/So11111111111111111111111111111111111111112/logo.png`,
+    source: 'token_list',
+  },
+  {
+    mint: 'So11111111111111111111111111111111111111112',
+    name: 'Wrapped SOL',
+    symbol: 'wSOL',
+    logoUri: `${TOKEN_LIST_ASSETS}/So11111111111111111111111111111111111111112/logo.png`,
+    source: 'token_list',
+  },
+  {
+    mint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    name: 'USD Coin',
+    symbol: 'USDC',
+    logoUri: `${TOKEN_LIST_ASSETS}/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png`,
+    source: 'token_list',
+  },
+  {
+    // Circle devnet USDC
+    mint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    name: 'USD Coin (Devnet)',
+    symbol: 'USDC',
+    logoUri: `${TOKEN_LIST_ASSETS}/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png`,
+    source: 'token_list',
+  },
+  {
+    mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB',
+    name: 'USDT',
+    symbol: 'USDT',
+    logoUri: `${TOKEN_LIST_ASSETS}/Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB/logo.svg`,
+    source: 'token_list',
+  },
+  {
+    mint: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo',
+    name: 'PayPal USD',
+    symbol: 'PYUSD',
+    logoUri: null,
+    source: 'token_list',
+  },
+  {
+    mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So',
+    name: 'Marinade staked SOL',
+    symbol: 'mSOL',
+    logoUri: `${TOKEN_LIST_ASSETS}/mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So/logo.png`,
+    source: 'token_list',
+  },
+  {
+    mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn',
+    name: 'Jito Staked SOL',
+    symbol: 'JitoSOL',
+    logoUri: null,
+    source: 'token_list',
+  },
+  {
+    mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN',
+    name: 'Jupiter',
+    symbol: 'JUP',
+    logoUri: null,
+    source: 'token_list',
+  },
+  {
+    mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    name: 'Bonk',
+    symbol: 'Bonk',
+    logoUri: null,
+    source: 'token_list',
+  },
+];
+
+const TOKENS_BY_MINT = new Map(BUNDLED_TOKENS.map((token) => [token.mint, token]));
+
+/**
+ * Look up a mint in the bundled token list
+ * @param mint - Token mint address, or "native" for SOL
+ */
+export function getBundledToken(mint: string): TokenMetadata | null {
+  return TOKENS_BY_MINT.get(mint) ?? null;
+}
@@ -0,0 +1,385 @@
+/**
+ * Token Metadata Service
+ * Resolves token names, symbols and icons from Token-2022 metadata extensions
+ * and Metaplex metadata accounts, with an in-memory cache and a bundled fallback list.
+ */
+
+import { Connection, PublicKey, type AccountInfo, type ParsedAccountData } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { type TokenBalance, type TokenMetadata, type TokenMetadataSource } from '../types';
+import { getConnection } from './solana';
+import { getBundledToken } from './tokenList';
+import { bytesToUtf8, utf8ToBytes } from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+// Metaplex account discriminator for MetadataV1
+const METAPLEX_METADATA_KEY = 4;
+
+// Resolved metadata rarely changes; misses are retried sooner in case metadata is added
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MISS_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// getMultipleAccountsInfo accepts at most 100 keys; each mint needs two
+const MINTS_PER_BATCH = 50;
+
+const OFF_CHAIN_FETCH_TIMEOUT_MS = 5000;
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CacheEntry {
+  metadata: TokenMetadata | null;
+  cachedAt: number; // Unix timestamp in ms
+}
+
+/**
+ * Metadata as stored on-chain, before the off-chain icon is resolved
+ */
+interface OnChainMetadata {
+  name: string;
+  symbol: string;
+  uri: string;
+  source: TokenMetadataSource;
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+// Memory only: metadata is public and cheap to fetch again, so it stays out of the keychain
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<TokenMetadata | null>>();
+
+function isFresh(entry: CacheEntry): boolean {
+  const ttl = entry.metadata ? CACHE_TTL_MS : MISS_CACHE_TTL_MS;
+  return Date.now() - entry.cachedAt < ttl;
+}
+
+function readCachedMetadata(mint: string): CacheEntry | null {
+  const cached = memoryCache.get(mint);
+  if (cached && !isFresh(cached)) {
+    memoryCache.delete(mint);
+    return null;
+  }
+  return cached ?? null;
+}
+
+function writeCachedMetadata(mint: string, metadata: TokenMetadata | null): void {
+  memoryCache.set(mint, { metadata, cachedAt: Date.now() });
+}
+
+// ============================================================================
+// On-chain Decoding
+// ============================================================================
+
+/**
+ * Derive the Metaplex metadata PDA for a mint
+ */
+export function getMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [utf8ToBytes('metadata'), METADATA_PROGRAM_ID.toBytes(), mint.toBytes()],
+    METADATA_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * Strip the null padding Metaplex stores in fixed-width string fields
+ */
+function cleanString(value: string): string {
+  return value.replace(/\0/g, '').trim();
+}
+
+/**
+ * Decode name, symbol and uri from a Metaplex metadata account
+ * Layout: key (u8), update authority (32), mint (32), then borsh strings (u32 LE length + bytes)
+ */
+export function decodeMetaplexMetadata(data: Uint8Array): OnChainMetadata | null {
+  if (data.length < 65 || data[0] !== METAPLEX_METADATA_KEY) {
+    return null;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 65;
+
+  const readString = (): string | null => {
+    if (offset + 4 > data.length) return null;
+    const length = view.getUint32(offset, true);
+    offset += 4;
+    if (offset + length > data.length) return null;
+    const value = bytesToUtf8(data.subarray(offset, offset + length));
+    offset += length;
+    return cleanString(value);
+  };
+
+  const name = readString();
+  const symbol = readString();
+  const uri = readString();
+  if (name === null || symbol === null || uri === null) {
+    return null;
+  }
+
+  return { name, symbol, uri, source: 'metaplex' };
+}
+
+/**
+ * Read the Token-2022 metadata extension from a jsonParsed mint account
+ */
+function decodeToken2022Metadata(
+  account: AccountInfo<Uint8Array | ParsedAccountData>
+): OnChainMetadata | null {
+  if (!account.owner.equals(TOKEN_2022_PROGRAM_ID) || !('parsed' in account.data)) {
+    return null;
+  }
+
+  const info = account.data.parsed?.info as
+    | { extensions?: { extension: string; state?: Record<string, unknown> }[] }
+    | undefined;
+  const state = info?.extensions?.find((ext) => ext.extension === 'tokenMetadata')?.state;
+  if (!state || typeof state.name !== 'string' || typeof state.symbol !== 'string') {
+    return null;
+  }
+
+  return {
+    name: cleanString(state.name),
+    symbol: cleanString(state.symbol),
+    uri: typeof state.uri === 'string' ? cleanString(state.uri) : '',
+    source: 'token2022',
+  };
+}
+
+// ============================================================================
+// Off-chain Metadata
+// ============================================================================
+
+/**
+ * Rewrite ipfs:// URIs to an HTTPS gateway; other non-HTTPS URIs are rejected
+ */
+function toHttpsUri(uri: string): string | null {
+  if (uri.startsWith('ipfs://')) {
+    return `${IPFS_GATEWAY}${uri.slice('ipfs://'.length)}`;
+  }
+  return uri.startsWith('https://') ? uri : null;
+}
+
+/**
+ * Fetch the off-chain JSON a metadata uri points to and return its image
+ * Best effort: any failure resolves to null.
+ */
+async function fetchLogoUri(uri: string): Promise<string | null> {
+  const url = toHttpsUri(uri);
+  if (!url) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OFF_CHAIN_FETCH_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      return null;
+    }
+    const json = (await response.json()) as { image?: unknown };
+    return typeof json.image === 'string' ? toHttpsUri(json.image) : null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Combine on-chain metadata with its off-chain icon, falling back to the bundled list
+ */
+async function buildMetadata(
+  mint: string,
+  onChain: OnChainMetadata | null
+): Promise<TokenMetadata | null> {
+  const bundled = getBundledToken(mint);
+  if (!onChain || (!onChain.name && !onChain.symbol)) {
+    return bundled;
+  }
+
+  const logoUri = (onChain.uri ? await fetchLogoUri(onChain.uri) : null) ?? bundled?.logoUri;
+
+  return {
+    mint,
+    name: onChain.name || bundled?.name || onChain.symbol,
+    symbol: onChain.symbol || bundled?.symbol || onChain.name,
+    logoUri: logoUri ?? null,
+    source: onChain.source,
+  };
+}
+
+/**
+ * Fetch and decode on-chain metadata for a batch of mints
+ * Token-2022 extension metadata takes precedence over a Metaplex account.
+ */
+async function fetchOnChainMetadata(
+  mints: string[],
+  connection: Connection
+): Promise<Map<string, OnChainMetadata | null>> {
+  const results = new Map<string, OnChainMetadata | null>();
+
+  for (let i = 0; i < mints.length; i += MINTS_PER_BATCH) {
+    const batch = mints.slice(i, i + MINTS_PER_BATCH);
+    const mintKeys = batch.map((mint) => new PublicKey(mint));
+    const keys = mintKeys.flatMap((mintKey) => [mintKey, getMetadataAddress(mintKey)]);
+
+    const accounts = await connection.getMultipleParsedAccounts(keys);
+
+    batch.forEach((mint, index) => {
+      const mintAccount = accounts.value[index * 2];
+      const metadataAccount = accounts.value[index * 2 + 1];
+
+      const fromExtension = mintAccount ? decodeToken2022Metadata(mintAccount) : null;
+      const fromMetaplex =
+        metadataAccount && !('parsed' in metadataAccount.data)
+          ? decodeMetaplexMetadata(metadataAccount.data)
+          : null;
+
+      results.set(mint, fromExtension ?? fromMetaplex);
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Resolve metadata for mints that missed the cache and store the results
+ * If the RPC is unreachable the bundled list is returned without caching.
+ */
+async function resolveUncached(
+  mints: string[],
+  connection: Connection
+): Promise<Map<string, TokenMetadata | null>> {
+  const resolved = new Map<string, TokenMetadata | null>();
+
+  let onChain: Map<string, OnChainMetadata | null>;
+  try {
+    onChain = await fetchOnChainMetadata(mints, connection);
+  } catch {
+    for (const mint of mints) {
+      resolved.set(mint, getBundledToken(mint));
+    }
+    return resolved;
+  }
+
+  await Promise.all(
+    mints.map(async (mint) => {
+      const metadata = await buildMetadata(mint, onChain.get(mint) ?? null);
+      writeCachedMetadata(mint, metadata);
+      resolved.set(mint, metadata);
+    })
+  );
+
+  return resolved;
+}
+
+/**
+ * Resolve metadata for a list of mints
+ * @param mints - Token mint addresses ("native" resolves to SOL)
+ * @param connection - Optional connection override
+ * @returns Metadata keyed by mint, null where none could be found
+ */
+export async function getTokenMetadataForMints(
+  mints: string[],
+  connection: Connection = getConnection()
+): Promise<Record<string, TokenMetadata | null>> {
+  const results: Record<string, TokenMetadata | null> = {};
+  const uncached: string[] = [];
+  const pending: Promise<void>[] = [];
+
+  for (const mint of new Set(mints)) {
+    if (mint === 'native' || !isValidMint(mint)) {
+      results[mint] = getBundledToken(mint);
+      continue;
+    }
+
+    const request = inFlight.get(mint);
+    if (request) {
+      pending.push(
+        request.then((metadata) => {
+          results[mint] = metadata;
+        })
+      );
+      continue;
+    }
+
+    const cached = readCachedMetadata(mint);
+    if (cached) {
+      results[mint] = cached.metadata;
+    } else {
+      uncached.push(mint);
+    }
+  }
+
+  if (uncached.length > 0) {
+    const batch = resolveUncached(uncached, connection);
+    for (const mint of uncached) {
+      const request = batch.then((resolved) => resolved.get(mint) ?? null);
+      inFlight.set(mint, request);
+      pending.push(
+        request.then((metadata) => {
+          results[mint] = metadata;
+        })
+      );
+    }
+    batch.finally(() => uncached.forEach((mint) => inFlight.delete(mint))).catch(() => {});
+  }
+
+  await Promise.all(pending);
+  return results;
+}
+
+/**
+ * Resolve metadata for a single mint
+ */
+export async function getTokenMetadata(
+  mint: string,
+  connection?: Connection
+): Promise<TokenMetadata | null> {
+  const results = await getTokenMetadataForMints([mint], connection);
+  return results[mint] ?? null;
+}
+
+/**
+ * Fill in symbol, name and logo on balances from resolved metadata
+ */
+export function applyTokenMetadata(
+  balances: TokenBalance[],
+  metadataByMint: Record<string, TokenMetadata | null>
+): TokenBalance[] {
+  return balances.map((balance) => {
+    const metadata = metadataByMint[balance.mint];
+    if (!metadata) {
+      return balance;
+    }
+    return {
+      ...balance,
+      symbol: metadata.symbol,
+      name: metadata.name,
+      logoUri: metadata.logoUri,
+    };
+  });
+}
+
+function isValidMint(mint: string): boolean {
+  try {
+    new PublicKey(mint);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Transfer Service
+ * Builds, passkey-signs and sends SOL and token transfers from a smart wallet
+ * Any other wallet transaction (e.g. a Solana Pay request) goes through the same signing path
+ */
+
+import type { Transaction, TransactionSignature } from '@solana/web3.js';
+import type { StoredWallet } from '../types';
+import { api } from './api';
+import { signTransaction } from './signing';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import {
+  buildTransferSolTransaction,
+  buildTransferTokenTransaction,
+  sendTransaction,
+  type PaymentDetails,
+} from './solana';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Progress through a transfer, for UI feedback
+ */
+export type TransferStage = 'building' | 'signing' | 'sending';
+
+export interface TransferRequest extends PaymentDetails {
+  wallet: StoredWallet;
+  recipient: string;
+  mint: string; // "native" for SOL or token mint address
+  amount: bigint; // In base units
+}
+
+export interface TransferOptions {
+  authenticator?: PasskeyAuthenticator;
+  onStage?: (stage: TransferStage) => void;
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * Passkey-sign a wallet transaction and submit it
+ * The passkey signs the transaction message, the API wraps it in a smart wallet
+ * execute transaction, and the result is submitted to the network.
+ * @param transaction - Transaction with the wallet as fee payer
+ * @returns Transaction signature (not yet confirmed)
+ */
+export async function signAndSendTransaction(
+  wallet: StoredWallet,
+  transaction: Transaction,
+  { authenticator = getPasskeyAuthenticator(), onStage }: TransferOptions = {}
+): Promise<TransactionSignature> {
+  onStage?.('signing');
+  const signed = await signTransaction(wallet, transaction, authenticator);
+
+  onStage?.('sending');
+  const prepared = await api.wallet.prepareExecute({
+    walletPubkey: wallet.publicKey,
+    message: signed.payload,
+    signature: signed.signature,
+    authenticatorData: signed.authenticatorData,
+    clientDataJSON: signed.clientDataJSON,
+  });
+
+  return sendTransaction(prepared.transaction);
+}
+
+/**
+ * Send SOL or tokens from a wallet
+ * @returns Transaction signature (not yet confirmed)
+ */
+export async function sendTransfer(
+  { wallet, recipient, mint, amount, reference, memo }: TransferRequest,
+  options: TransferOptions = {}
+): Promise<TransactionSignature> {
+  options.onStage?.('building');
+  const details = { reference, memo };
+  const transaction =
+    mint === 'native'
+      ? await buildTransferSolTransaction(wallet.publicKey, recipient, Number(amount), details)
+      : await buildTransferTokenTransaction(wallet.publicKey, recipient, mint, amount, details);
+
+  return signAndSendTransaction(wallet, transaction, options);
+}
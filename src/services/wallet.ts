@@ -0,0 +1,78 @@
+/**
+ * Wallet Service
+ * Creates passkey-backed smart wallets
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { sha256 } from '@noble/hashes/sha256';
+import { StoredWalletSchema, parseOrThrow, type StoredWallet } from '../types';
+import { getPasskeyAuthenticator, type PasskeyAuthenticator } from './passkey';
+import { base64ToBytes, bytesToBase64, utf8ToBytes } from './encoding';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Lazorkit smart wallet program
+export const SMART_WALLET_PROGRAM_ID = new PublicKey(
+  'Gsuz7YcA5sbMGVRXT3xSYhJBessW4xFC4xYsihNCqMFh'
+);
+
+const SMART_WALLET_SEED = 'smart_wallet';
+
+// ============================================================================
+// Address Derivation
+// ============================================================================
+
+/**
+ * Derive the smart wallet address controlled by a passkey
+ * PDA seeds: ["smart_wallet", sha256(compressed passkey public key)]
+ * @param passkeyPubkey - Compressed P-256 public key (raw bytes or base64)
+ * @returns Smart wallet PDA
+ */
+export function deriveSmartWalletAddress(passkeyPubkey: Uint8Array | string): PublicKey {
+  const keyBytes = typeof passkeyPubkey === 'string' ? base64ToBytes(passkeyPubkey) : passkeyPubkey;
+
+  const [address] = PublicKey.findProgramAddressSync(
+    [utf8ToBytes(SMART_WALLET_SEED), sha256(keyBytes)],
+    SMART_WALLET_PROGRAM_ID
+  );
+
+  return address;
+}
+
+// ============================================================================
+// Wallet Creation
+// ============================================================================
+
+interface CreateWalletOptions {
+  name?: string;
+  authenticator?: PasskeyAuthenticator;
+}
+
+/**
+ * Create a new passkey-backed wallet
+ * Registers a passkey credential and derives the smart wallet it controls
+ * @returns Validated StoredWallet (not yet persisted)
+ */
+export async function createPasskeyWallet(
+  options: CreateWalletOptions = {}
+): Promise<StoredWallet> {
+  const name = options.name ?? 'Main Wallet';
+  const authenticator = options.authenticator ?? getPasskeyAuthenticator();
+
+  const credential = await authenticator.createCredential({
+    userName: `odyssey-${Date.now()}`,
+    displayName: name,
+  });
+
+  const wallet = {
+    publicKey: deriveSmartWalletAddress(credential.publicKey).toBase58(),
+    createdAt: Date.now(),
+    name,
+    credentialId: credential.credentialId,
+    passkeyPubkey: bytesToBase64(credential.publicKey),
+  };
+
+  return parseOrThrow(StoredWalletSchema, wallet, 'Invalid wallet');
+}
@@ -1,3 +1,6 @@
 // Zustand stores
 export { useAgentStore } from './useAgentStore';
 export { useSessionStore } from './useSessionStore';
+export { useWalletStore } from './useWalletStore';
+export { useBalanceStore } from './useBalanceStore';
+export { useTokenMetadataStore } from './useTokenMetadataStore';
@@ -4,21 +4,72 @@
 
 import { create } from 'zustand';
 import * as SecureStore from 'expo-secure-store';
-import type { Agent, AgentStoreState } from '../types';
+import { AgentSchema, type Agent, type AgentStoreState } from '../types';
+import { useWalletStore } from './useWalletStore';
 
 const AGENTS_STORAGE_KEY = 'odyssey_agents';
 
 interface AgentStoreActions {
   loadAgents: () => Promise<void>;
   addAgent: (agent: Agent) => Promise<void>;
-  updateAgentStatus: (agentId: string, status: Agent['status']) => Promise<void>;
-  updateAgentLastSeen: (agentId: string, lastSeen: number) => Promise<void>;
-  removeAgent: (agentId: string) => Promise<void>;
+  updateAgent: (walletPubkey: string, agentId: string, updates: Partial<Agent>) => Promise<void>;
+  updateAgentStatus: (
+    walletPubkey: string,
+    agentId: string,
+    status: Agent['status']
+  ) => Promise<void>;
+  updateAgentLastSeen: (walletPubkey: string, agentId: string, lastSeen: number) => Promise<void>;
+  removeAgent: (walletPubkey: string, agentId: string) => Promise<void>;
+  archiveAgent: (walletPubkey: string, agentId: string) => Promise<void>;
+  getAgentsForWallet: (walletPubkey: string) => Agent[];
   clearError: () => void;
 }
 
 type AgentStore = AgentStoreState & AgentStoreActions;
 
+/**
+ * Whether a record is the pairing of an agent with a wallet
+ * An agent paired with several wallets has one record (and one secret) per wallet.
+ */
+export function isAgentPairing(agent: Agent, walletPubkey: string, agentId: string): boolean {
+  return agent.walletPubkey === walletPubkey && agent.id === agentId;
+}
+
+/**
+ * Parse stored agents, dropping records that fail validation
+ * Agents paired before multi-wallet support carry no walletPubkey; they belong to
+ * the first wallet created on this device.
+ * @returns The agents, and whether any of them had to be migrated
+ */
+function parseAgents(stored: string): { agents: Agent[]; migrated: boolean } {
+  const raw: unknown = JSON.parse(stored);
+  if (!Array.isArray(raw)) {
+    return { agents: [], migrated: false };
+  }
+
+  const [firstWallet] = [...useWalletStore.getState().wallets].sort(
+    (a, b) => a.createdAt - b.createdAt
+  );
+  let migrated = false;
+
+  const agents = raw.flatMap((item) => {
+    const result = AgentSchema.safeParse(item);
+    if (result.success) return [result.data];
+
+    const isLegacy = typeof item === 'object' && item !== null && !('walletPubkey' in item);
+    const legacy =
+      isLegacy && firstWallet
+        ? AgentSchema.safeParse({ ...item, walletPubkey: firstWallet.publicKey })
+        : null;
+    if (!legacy?.success) return [];
+
+    migrated = true;
+    return [legacy.data];
+  });
+
+  return { agents, migrated };
+}
+
 export const useAgentStore = create<AgentStore>((set, get) => ({
   // Initial state
   agents: [],
@@ -31,8 +82,11 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     try {
       const stored = await SecureStore.getItemAsync(AGENTS_STORAGE_KEY);
       if (stored) {
-        const agents = JSON.parse(stored) as Agent[];
+        const { agents, migrated } = parseAgents(stored);
         set({ agents, isLoading: false });
+        if (migrated) {
+          await SecureStore.setItemAsync(AGENTS_STORAGE_KEY, JSON.stringify(agents));
+        }
       } else {
         set({ agents: [], isLoading: false });
       }
@@ -47,7 +101,7 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
   addAgent: async (agent: Agent) => {
     const { agents } = get();
     // Check for duplicate
-    if (agents.some((a) => a.id === agent.id)) {
+    if (agents.some((a) => isAgentPairing(a, agent.walletPubkey, agent.id))) {
       set({ error: 'Agent already paired' });
       return;
     }
@@ -61,9 +115,11 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }
   },
 
-  updateAgentStatus: async (agentId: string, status: Agent['status']) => {
+  updateAgent: async (walletPubkey: string, agentId: string, updates: Partial<Agent>) => {
     const { agents } = get();
-    const updatedAgents = agents.map((a) => (a.id === agentId ? { ...a, status } : a));
+    const updatedAgents = agents.map((a) =>
+      isAgentPairing(a, walletPubkey, agentId) ? { ...a, ...updates } : a
+    );
 
     try {
       await SecureStore.setItemAsync(AGENTS_STORAGE_KEY, JSON.stringify(updatedAgents));
@@ -73,9 +129,11 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }
   },
 
-  updateAgentLastSeen: async (agentId: string, lastSeen: number) => {
+  updateAgentStatus: async (walletPubkey: string, agentId: string, status: Agent['status']) => {
     const { agents } = get();
-    const updatedAgents = agents.map((a) => (a.id === agentId ? { ...a, lastSeen } : a));
+    const updatedAgents = agents.map((a) =>
+      isAgentPairing(a, walletPubkey, agentId) ? { ...a, status } : a
+    );
 
     try {
       await SecureStore.setItemAsync(AGENTS_STORAGE_KEY, JSON.stringify(updatedAgents));
@@ -85,9 +143,23 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }
   },
 
-  removeAgent: async (agentId: string) => {
+  updateAgentLastSeen: async (walletPubkey: string, agentId: string, lastSeen: number) => {
     const { agents } = get();
-    const updatedAgents = agents.filter((a) => a.id !== agentId);
+    const updatedAgents = agents.map((a) =>
+      isAgentPairing(a, walletPubkey, agentId) ? { ...a, lastSeen } : a
+    );
+
+    try {
+      await SecureStore.setItemAsync(AGENTS_STORAGE_KEY, JSON.stringify(updatedAgents));
+      set({ agents: updatedAgents });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update agent' });
+    }
+  },
+
+  removeAgent: async (walletPubkey: string, agentId: string) => {
+    const { agents } = get();
+    const updatedAgents = agents.filter((a) => !isAgentPairing(a, walletPubkey, agentId));
 
     try {
       await SecureStore.setItemAsync(AGENTS_STORAGE_KEY, JSON.stringify(updatedAgents));
@@ -97,5 +169,13 @@ export const useAgentStore = create<AgentStore>((set, get) => ({
     }
   },
 
+  archiveAgent: async (walletPubkey: string, agentId: string) => {
+    await get().updateAgent(walletPubkey, agentId, { status: 'revoked', archivedAt: Date.now() });
+  },
+
+  getAgentsForWallet: (walletPubkey: string) => {
+    return get().agents.filter((a) => a.walletPubkey === walletPubkey);
+  },
+
   clearError: () => set({ error: null }),
 }));
@@ -0,0 +1,79 @@
+/**
+ * Balance Store - Zustand store for on-chain token balances per wallet
+ */
+
+import { create } from 'zustand';
+import type { BalanceStoreState, WalletBalances } from '../types';
+import { getTokenBalances } from '../services/solana';
+import { applyTokenMetadata, getTokenMetadataForMints } from '../services/tokenMetadata';
+
+const EMPTY_BALANCES: WalletBalances = {
+  balances: [],
+  fetchedAt: null,
+  isLoading: false,
+  error: null,
+};
+
+interface BalanceStoreActions {
+  loadBalances: (walletPubkey: string) => Promise<void>;
+  getBalances: (walletPubkey: string) => WalletBalances;
+  clearBalances: (walletPubkey: string) => void;
+}
+
+type BalanceStore = BalanceStoreState & BalanceStoreActions;
+
+export const useBalanceStore = create<BalanceStore>((set, get) => {
+  // Merge an update into one wallet's entry
+  const update = (walletPubkey: string, updates: Partial<WalletBalances>) =>
+    set((state) => ({
+      balancesByWallet: {
+        ...state.balancesByWallet,
+        [walletPubkey]: {
+          ...(state.balancesByWallet[walletPubkey] ?? EMPTY_BALANCES),
+          ...updates,
+        },
+      },
+    }));
+
+  return {
+    // Initial state
+    balancesByWallet: {},
+
+    // Actions
+    loadBalances: async (walletPubkey: string) => {
+      // Skip if a fetch for this wallet is already in flight
+      if (get().balancesByWallet[walletPubkey]?.isLoading) return;
+
+      update(walletPubkey, { isLoading: true });
+      try {
+        const rawBalances = await getTokenBalances(walletPubkey);
+        const metadata = await getTokenMetadataForMints(rawBalances.map((b) => b.mint));
+        const balances = applyTokenMetadata(rawBalances, metadata);
+        update(walletPubkey, {
+          balances,
+          fetchedAt: Date.now(),
+          isLoading: false,
+          error: null,
+        });
+      } catch (error) {
+        // Keep the last good balances so the UI can show them as stale
+        update(walletPubkey, {
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load balances',
+        });
+      }
+    },
+
+    getBalances: (walletPubkey: string) => {
+      return get().balancesByWallet[walletPubkey] ?? EMPTY_BALANCES;
+    },
+
+    clearBalances: (walletPubkey: string) => {
+      set((state) => {
+        const balancesByWallet = { ...state.balancesByWallet };
+        delete balancesByWallet[walletPubkey];
+        return { balancesByWallet };
+      });
+    },
+  };
+});
@@ -4,17 +4,66 @@
 
 import { create } from 'zustand';
 import * as SecureStore from 'expo-secure-store';
-import type { Session, SessionStoreState } from '../types';
+import type { PendingSessionRequest, Session, SessionStoreState, StoredWallet } from '../types';
+import {
+  advanceRevocations,
+  createRevocations,
+  isRevocationInProgress,
+  type RevocationEntry,
+} from '../services/revocation';
+import { fetchWalletSessions, mergeSessions } from '../services/sessionSync';
+import { markExhaustedSessions } from '../services/allowance';
+import { markExpiredSessions } from '../services/sessionExpiry';
+import { api } from '../services/api';
 
 const SESSIONS_STORAGE_KEY = 'odyssey_sessions';
 
+// Sessions whose revocation is being advanced, so retries never overlap
+const advancingRevocations = new Set<string>();
+
+// Wallets with a sync in flight, so periodic and manual syncs never overlap
+const syncingWallets = new Set<string>();
+
+/**
+ * Advance the revocations not already being advanced, saving progress as it is made
+ */
+async function advanceUntracked(
+  entries: RevocationEntry[],
+  save: (entries: RevocationEntry[]) => Promise<void>
+): Promise<void> {
+  const untracked = entries.filter((e) => !advancingRevocations.has(e.sessionId));
+  if (untracked.length === 0) return;
+
+  untracked.forEach((e) => advancingRevocations.add(e.sessionId));
+  try {
+    await advanceRevocations(untracked, undefined, save);
+  } finally {
+    untracked.forEach((e) => advancingRevocations.delete(e.sessionId));
+  }
+}
+
 interface SessionStoreActions {
   loadSessions: () => Promise<void>;
   addSession: (session: Session) => Promise<void>;
   updateSession: (sessionId: string, updates: Partial<Session>) => Promise<void>;
   removeSession: (sessionId: string) => Promise<void>;
+  expireSessions: () => Promise<void>;
   removeSessionsForAgent: (agentId: string) => Promise<void>;
+  revokeSession: (sessionId: string, wallet: StoredWallet) => Promise<void>;
+  revokeSessions: (
+    sessionIds: string[],
+    wallet: StoredWallet,
+    agentIds?: string[]
+  ) => Promise<void>;
+  saveRevocations: (entries: RevocationEntry[]) => Promise<void>;
+  retryRevocations: () => Promise<void>;
+  syncSessions: (walletPubkey: string) => Promise<void>;
+  loadPendingRequests: (walletPubkeys: string[]) => Promise<void>;
+  addPendingRequest: (request: PendingSessionRequest) => void;
+  removePendingRequest: (requestId: string) => void;
+  pruneExpiredRequests: () => void;
   getSessionsForAgent: (agentId: string) => Session[];
+  getSessionsForWallet: (walletPubkey: string) => Session[];
   clearError: () => void;
 }
 
@@ -25,7 +74,10 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
   sessions: [],
   pendingRequests: [],
   isLoading: false,
+  hasLoaded: false,
   error: null,
+  lastSyncedAt: {},
+  syncError: null,
 
   // Actions
   loadSessions: async () => {
@@ -34,21 +86,15 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
       const stored = await SecureStore.getItemAsync(SESSIONS_STORAGE_KEY);
       if (stored) {
         const sessions = JSON.parse(stored) as Session[];
-        // Update expired sessions
-        const now = Date.now();
-        const updatedSessions = sessions.map((s) => {
-          if (s.status === 'active' && s.expiresAt < now) {
-            return { ...s, status: 'expired' as const };
-          }
-          return s;
-        });
-        set({ sessions: updatedSessions, isLoading: false });
+        // Update expired and exhausted sessions
+        const updatedSessions = markExhaustedSessions(markExpiredSessions(sessions));
+        set({ sessions: updatedSessions, isLoading: false, hasLoaded: true });
         // Persist if any sessions were updated
         if (JSON.stringify(sessions) !== JSON.stringify(updatedSessions)) {
           await SecureStore.setItemAsync(SESSIONS_STORAGE_KEY, JSON.stringify(updatedSessions));
         }
       } else {
-        set({ sessions: [], isLoading: false });
+        set({ sessions: [], isLoading: false, hasLoaded: true });
       }
     } catch (error) {
       set({
@@ -77,7 +123,10 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
 
   updateSession: async (sessionId: string, updates: Partial<Session>) => {
     const { sessions } = get();
-    const updatedSessions = sessions.map((s) => (s.id === sessionId ? { ...s, ...updates } : s));
+    // A spending update may use up the last of the session's limits
+    const updatedSessions = markExhaustedSessions(
+      sessions.map((s) => (s.id === sessionId ? { ...s, ...updates } : s))
+    );
 
     try {
       await SecureStore.setItemAsync(SESSIONS_STORAGE_KEY, JSON.stringify(updatedSessions));
@@ -87,6 +136,21 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
     }
   },
 
+  expireSessions: async () => {
+    const { sessions } = get();
+    const updatedSessions = markExpiredSessions(sessions);
+    if (updatedSessions === sessions) return;
+
+    // Expiry follows from the clock, so it applies even if the write fails (loading
+    // marks the same sessions expired again); otherwise the expiry timer never re-arms
+    set({ sessions: updatedSessions });
+    try {
+      await SecureStore.setItemAsync(SESSIONS_STORAGE_KEY, JSON.stringify(updatedSessions));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update sessions' });
+    }
+  },
+
   removeSession: async (sessionId: string) => {
     const { sessions } = get();
     const updatedSessions = sessions.filter((s) => s.id !== sessionId);
@@ -111,9 +175,130 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
     }
   },
 
+  revokeSession: async (sessionId: string, wallet: StoredWallet) => {
+    await get().revokeSessions([sessionId], wallet);
+  },
+
+  revokeSessions: async (sessionIds: string[], wallet: StoredWallet, agentIds: string[] = []) => {
+    const sessions = get().sessions.filter((s) => sessionIds.includes(s.id));
+    if (sessions.length === 0 && agentIds.length === 0) return;
+
+    // One passkey prompt for the whole batch; a cancelled prompt leaves the sessions untouched
+    const entries = await createRevocations(wallet, sessions, agentIds);
+    await get().saveRevocations(entries);
+    await advanceUntracked(entries, get().saveRevocations);
+  },
+
+  saveRevocations: async (entries: RevocationEntry[]) => {
+    const revocations = new Map(entries.map((e) => [e.sessionId, e.revocation]));
+    // A session counts as revoked only once its revocation is confirmed on-chain
+    const updatedSessions = get().sessions.map((s) => {
+      const revocation = revocations.get(s.id);
+      if (!revocation) return s;
+      return revocation.status === 'confirmed'
+        ? { ...s, status: 'revoked' as const, revocation }
+        : { ...s, revocation };
+    });
+
+    try {
+      await SecureStore.setItemAsync(SESSIONS_STORAGE_KEY, JSON.stringify(updatedSessions));
+      set({ sessions: updatedSessions });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update sessions' });
+    }
+  },
+
+  retryRevocations: async () => {
+    const entries = get().sessions.flatMap((s) =>
+      s.revocation && isRevocationInProgress(s.revocation)
+        ? [{ sessionId: s.id, revocation: s.revocation }]
+        : []
+    );
+    await advanceUntracked(entries, get().saveRevocations);
+  },
+
+  syncSessions: async (walletPubkey: string) => {
+    if (syncingWallets.has(walletPubkey)) return;
+    syncingWallets.add(walletPubkey);
+
+    try {
+      // A sync must never merge into a list that has not been read from storage
+      if (!get().hasLoaded) {
+        await get().loadSessions();
+        if (!get().hasLoaded) return;
+      }
+
+      const remote = await fetchWalletSessions(walletPubkey);
+
+      // Merge into the latest sessions, which may have changed during the fetch
+      const updatedSessions = mergeSessions(get().sessions, remote, walletPubkey);
+      await SecureStore.setItemAsync(SESSIONS_STORAGE_KEY, JSON.stringify(updatedSessions));
+      set((state) => ({
+        sessions: updatedSessions,
+        lastSyncedAt: { ...state.lastSyncedAt, [walletPubkey]: Date.now() },
+        syncError: null,
+      }));
+    } catch (error) {
+      set({ syncError: error instanceof Error ? error.message : 'Failed to sync sessions' });
+    } finally {
+      syncingWallets.delete(walletPubkey);
+    }
+  },
+
+  loadPendingRequests: async (walletPubkeys: string[]) => {
+    const results = await Promise.allSettled(
+      walletPubkeys.map((walletPubkey) => api.session.listPending(walletPubkey))
+    );
+
+    // Wallets that could not be reached keep the requests already known for them
+    const refreshed = new Set<string>();
+    const fetched: PendingSessionRequest[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        refreshed.add(walletPubkeys[index]);
+        fetched.push(...result.value.requests);
+      }
+    });
+
+    const now = Date.now();
+    set((state) => ({
+      pendingRequests: [
+        ...state.pendingRequests.filter((r) => !refreshed.has(r.walletPubkey)),
+        ...fetched,
+      ].filter((r) => r.expiresAt > now),
+    }));
+  },
+
+  addPendingRequest: (request: PendingSessionRequest) => {
+    set((state) =>
+      state.pendingRequests.some((r) => r.requestId === request.requestId)
+        ? state
+        : { pendingRequests: [...state.pendingRequests, request] }
+    );
+  },
+
+  removePendingRequest: (requestId: string) => {
+    set((state) => ({
+      pendingRequests: state.pendingRequests.filter((r) => r.requestId !== requestId),
+    }));
+  },
+
+  pruneExpiredRequests: () => {
+    const now = Date.now();
+    set((state) =>
+      state.pendingRequests.every((r) => r.expiresAt > now)
+        ? state
+        : { pendingRequests: state.pendingRequests.filter((r) => r.expiresAt > now) }
+    );
+  },
+
   getSessionsForAgent: (agentId: string) => {
     return get().sessions.filter((s) => s.agentId === agentId);
   },
 
+  getSessionsForWallet: (walletPubkey: string) => {
+    return get().sessions.filter((s) => s.walletPubkey === walletPubkey);
+  },
+
   clearError: () => set({ error: null }),
 }));
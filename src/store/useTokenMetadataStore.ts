@@ -0,0 +1,30 @@
+/**
+ * Token Metadata Store - Zustand store exposing resolved token metadata to the UI
+ * Persistence and cache expiry live in the token metadata service.
+ */
+
+import { create } from 'zustand';
+import type { TokenMetadataStoreState } from '../types';
+import { getTokenMetadataForMints } from '../services/tokenMetadata';
+
+interface TokenMetadataStoreActions {
+  loadMetadata: (mints: string[]) => Promise<void>;
+}
+
+type TokenMetadataStore = TokenMetadataStoreState & TokenMetadataStoreActions;
+
+export const useTokenMetadataStore = create<TokenMetadataStore>((set, get) => ({
+  // Initial state
+  metadataByMint: {},
+
+  // Actions
+  loadMetadata: async (mints: string[]) => {
+    // Only resolve mints not already loaded this session
+    const { metadataByMint } = get();
+    const missing = mints.filter((mint) => !(mint in metadataByMint));
+    if (missing.length === 0) return;
+
+    const resolved = await getTokenMetadataForMints(missing);
+    set((state) => ({ metadataByMint: { ...state.metadataByMint, ...resolved } }));
+  },
+}));
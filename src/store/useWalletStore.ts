@@ -0,0 +1,179 @@
+/**
+ * Wallet Store - Zustand store for managing passkey wallets
+ */
+
+import { create } from 'zustand';
+import * as SecureStore from 'expo-secure-store';
+import { StoredWalletSchema, type StoredWallet, type WalletStoreState } from '../types';
+import { isValidAddress } from '../services/solana';
+
+const WALLETS_STORAGE_KEY = 'odyssey_wallets';
+const ACTIVE_WALLET_STORAGE_KEY = 'odyssey_active_wallet';
+// Single-wallet key used before multi-wallet storage, migrated on load
+const LEGACY_WALLET_STORAGE_KEY = 'odyssey_wallet';
+
+interface WalletStoreActions {
+  loadWallets: () => Promise<void>;
+  addWallet: (wallet: StoredWallet) => Promise<boolean>;
+  renameWallet: (publicKey: string, name: string) => Promise<void>;
+  removeWallet: (publicKey: string) => Promise<void>;
+  setActiveWallet: (publicKey: string) => Promise<void>;
+  getActiveWallet: () => StoredWallet | null;
+  clearError: () => void;
+}
+
+type WalletStore = WalletStoreState & WalletStoreActions;
+
+/**
+ * Parse stored wallets, dropping records that fail validation
+ * A wallet needs a valid address and its passkey public key to sign anything.
+ */
+function parseWallets(stored: string): StoredWallet[] {
+  const raw: unknown = JSON.parse(stored);
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((item) => {
+    const result = StoredWalletSchema.safeParse(item);
+    return result.success && isValidAddress(result.data.publicKey) ? [result.data] : [];
+  });
+}
+
+async function persistWallets(wallets: StoredWallet[], activeWalletPubkey: string | null) {
+  await SecureStore.setItemAsync(WALLETS_STORAGE_KEY, JSON.stringify(wallets));
+  if (activeWalletPubkey) {
+    await SecureStore.setItemAsync(ACTIVE_WALLET_STORAGE_KEY, activeWalletPubkey);
+  } else {
+    await SecureStore.deleteItemAsync(ACTIVE_WALLET_STORAGE_KEY);
+  }
+}
+
+export const useWalletStore = create<WalletStore>((set, get) => ({
+  // Initial state
+  wallets: [],
+  activeWalletPubkey: null,
+  isLoading: false,
+  error: null,
+
+  // Actions
+  loadWallets: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const stored = await SecureStore.getItemAsync(WALLETS_STORAGE_KEY);
+      let wallets = stored ? parseWallets(stored) : [];
+
+      // Migrate the legacy single-wallet record. Records from before passkey wallets
+      // (a hex placeholder address and no passkey key) are dropped, so onboarding runs again.
+      const legacy = await SecureStore.getItemAsync(LEGACY_WALLET_STORAGE_KEY);
+      const [legacyWallet] = legacy ? parseWallets(`[${legacy}]`) : [];
+      if (legacyWallet && !wallets.some((w) => w.publicKey === legacyWallet.publicKey)) {
+        wallets = [...wallets, legacyWallet];
+      }
+
+      const storedActive = await SecureStore.getItemAsync(ACTIVE_WALLET_STORAGE_KEY);
+      const activeWalletPubkey = wallets.some((w) => w.publicKey === storedActive)
+        ? storedActive
+        : (wallets[0]?.publicKey ?? null);
+
+      if (legacyWallet) {
+        await persistWallets(wallets, activeWalletPubkey);
+      }
+      if (legacy !== null) {
+        await SecureStore.deleteItemAsync(LEGACY_WALLET_STORAGE_KEY);
+      }
+
+      set({ wallets, activeWalletPubkey, isLoading: false });
+    } catch (error) {
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load wallets',
+      });
+    }
+  },
+
+  addWallet: async (wallet: StoredWallet) => {
+    const { wallets, activeWalletPubkey } = get();
+    // Check for duplicate
+    if (wallets.some((w) => w.publicKey === wallet.publicKey)) {
+      set({ error: 'Wallet already added' });
+      return false;
+    }
+
+    const result = StoredWalletSchema.safeParse(wallet);
+    if (!result.success) {
+      set({ error: `Invalid wallet: ${result.error.message}` });
+      return false;
+    }
+
+    const updatedWallets = [...wallets, result.data];
+    const updatedActive = activeWalletPubkey ?? result.data.publicKey;
+    try {
+      await persistWallets(updatedWallets, updatedActive);
+      set({ wallets: updatedWallets, activeWalletPubkey: updatedActive, error: null });
+      return true;
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save wallet' });
+      return false;
+    }
+  },
+
+  renameWallet: async (publicKey: string, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      set({ error: 'Wallet name cannot be empty' });
+      return;
+    }
+
+    const { wallets, activeWalletPubkey } = get();
+    const updatedWallets = wallets.map((w) =>
+      w.publicKey === publicKey ? { ...w, name: trimmedName } : w
+    );
+
+    try {
+      await persistWallets(updatedWallets, activeWalletPubkey);
+      set({ wallets: updatedWallets });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to rename wallet' });
+    }
+  },
+
+  removeWallet: async (publicKey: string) => {
+    const { wallets, activeWalletPubkey } = get();
+    const updatedWallets = wallets.filter((w) => w.publicKey !== publicKey);
+    // Fall back to the first remaining wallet if the active one was removed
+    const updatedActive =
+      activeWalletPubkey === publicKey
+        ? (updatedWallets[0]?.publicKey ?? null)
+        : activeWalletPubkey;
+
+    try {
+      await persistWallets(updatedWallets, updatedActive);
+      set({ wallets: updatedWallets, activeWalletPubkey: updatedActive });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to remove wallet' });
+    }
+  },
+
+  setActiveWallet: async (publicKey: string) => {
+    const { wallets } = get();
+    if (!wallets.some((w) => w.publicKey === publicKey)) {
+      set({ error: 'Wallet not found' });
+      return;
+    }
+
+    try {
+      await SecureStore.setItemAsync(ACTIVE_WALLET_STORAGE_KEY, publicKey);
+      set({ activeWalletPubkey: publicKey });
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to switch wallet' });
+    }
+  },
+
+  getActiveWallet: () => {
+    const { wallets, activeWalletPubkey } = get();
+    return wallets.find((w) => w.publicKey === activeWalletPubkey) ?? null;
+  },
+
+  clearError: () => set({ error: null }),
+}));
@@ -33,6 +33,44 @@ export const SpendingLimitSchema = z.object({
 
 export type SpendingLimit = z.infer<typeof SpendingLimitSchema>;
 
+/**
+ * Amount of one mint, in base units
+ */
+export const MintAmountSchema = z.object({
+  mint: z.string(), // "native" for SOL or token mint pubkey
+  amount: z.number().nonnegative(),
+});
+
+export type MintAmount = z.infer<typeof MintAmountSchema>;
+
+/**
+ * Time-of-day window in which a session may transact
+ * Minutes are counted from midnight in the approver's time zone, fixed by utcOffsetMinutes.
+ * A window whose end is before its start wraps past midnight.
+ */
+export const TimeWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).optional(), // 0 = Sunday; every day if omitted
+  startMinute: z.number().int().min(0).max(1439),
+  endMinute: z.number().int().min(0).max(1440),
+  utcOffsetMinutes: z.number().int().min(-720).max(840),
+});
+
+export type TimeWindow = z.infer<typeof TimeWindowSchema>;
+
+/**
+ * Session policy - rules on top of the per-mint totals in limits
+ * Omitted rules don't restrict anything.
+ */
+export const SessionPolicySchema = z.object({
+  maxPerTransaction: z.array(MintAmountSchema).optional(),
+  dailyCaps: z.array(MintAmountSchema).optional(), // Rolling 24 hour totals
+  allowedDestinations: z.array(z.string()).optional(), // Transfer recipients
+  allowedPrograms: z.array(z.string()).optional(), // Program ids signAndSend may invoke
+  timeWindows: z.array(TimeWindowSchema).optional(), // Any one window must match
+});
+
+export type SessionPolicy = z.infer<typeof SessionPolicySchema>;
+
 /**
  * Wallet - basic wallet info
  */
@@ -49,6 +87,7 @@ export type Wallet = z.infer<typeof WalletSchema>;
  */
 export const StoredWalletSchema = WalletSchema.extend({
   credentialId: z.string(), // Passkey credential ID for signing
+  passkeyPubkey: z.string(), // Compressed P-256 passkey public key (base64)
 });
 
 export type StoredWallet = z.infer<typeof StoredWalletSchema>;
@@ -65,9 +104,14 @@ export type AgentStatus = z.infer<typeof AgentStatusSchema>;
 export const AgentSchema = z.object({
   id: z.string(),
   name: z.string(),
+  walletPubkey: z.string(), // Wallet the agent is paired with
   pairedAt: z.number(), // Unix timestamp in ms
   lastSeen: z.number().nullable(), // Unix timestamp in ms, null if never
   status: AgentStatusSchema,
+  // When the auth secret was issued or last rotated; the secret itself is kept in SecureStore
+  secretUpdatedAt: z.number().nullable().optional(),
+  // When the agent was unpaired; the record and its sessions are kept for audit
+  archivedAt: z.number().nullable().optional(),
 });
 
 export type Agent = z.infer<typeof AgentSchema>;
@@ -90,6 +134,59 @@ export type SessionStatus = z.infer<typeof SessionStatusSchema>;
 export const SpentAmountsSchema = z.record(z.string(), z.number());
 export type SpentAmounts = z.infer<typeof SpentAmountsSchema>;
 
+/**
+ * Session covered by a revocation
+ */
+export const RevokedSessionSchema = z.object({
+  sessionId: z.string(),
+  sessionPubkey: z.string(),
+});
+
+export type RevokedSession = z.infer<typeof RevokedSessionSchema>;
+
+/**
+ * Session revocation payload - what a wallet signs to revoke its sessions
+ * One signature covers a batch, so revoking everything needs one prompt per wallet
+ */
+export const SessionRevocationPayloadSchema = z.object({
+  walletPubkey: z.string(),
+  sessions: z.array(RevokedSessionSchema),
+  agentIds: z.array(z.string()), // Agents whose auth secrets are invalidated as well
+  nonce: z.string(), // Random base64url value, prevents signature replay
+});
+
+export type SessionRevocationPayload = z.infer<typeof SessionRevocationPayloadSchema>;
+
+/**
+ * Revocation progress
+ */
+export const RevocationStatusSchema = z.enum([
+  'pending', // Signed, waiting to reach the server (retried while offline)
+  'submitted', // Revoked server-side, on-chain revocation sent and awaiting confirmation
+  'confirmed', // Session key revoked on-chain
+  'failed', // Rejected by the server or the chain, needs a new attempt
+]);
+export type RevocationStatus = z.infer<typeof RevocationStatusSchema>;
+
+/**
+ * Session revocation - a signed revocation and how far it has got
+ * The signed payload is kept so offline retries need no new passkey prompt
+ */
+export const SessionRevocationSchema = z.object({
+  status: RevocationStatusSchema,
+  requestedAt: z.number(), // Unix timestamp in ms
+  payload: SessionRevocationPayloadSchema,
+  signature: z.string(), // Passkey signature over the canonical payload (base64)
+  authenticatorData: z.string(), // WebAuthn authenticator data (base64)
+  clientDataJSON: z.string(), // WebAuthn client data (base64)
+  transaction: z.string().nullable(), // Base64 on-chain revocation from the server, until sent
+  transactionSignature: z.string().nullable(),
+  attempts: z.number().int().nonnegative(),
+  lastError: z.string().nullable(),
+});
+
+export type SessionRevocation = z.infer<typeof SessionRevocationSchema>;
+
 /**
  * Session - time-limited spending session for an agent
  */
@@ -104,10 +201,55 @@ export const SessionSchema = z.object({
   expiresAt: z.number(), // Unix timestamp in ms
   status: SessionStatusSchema,
   spent: SpentAmountsSchema, // mint -> amount spent (in base units)
+  policy: SessionPolicySchema.optional(),
+  revocation: SessionRevocationSchema.optional(), // Set once the user revokes the session
 });
 
 export type Session = z.infer<typeof SessionSchema>;
 
+/**
+ * Session approval payload - the exact terms a wallet signs when approving a session
+ */
+export const SessionApprovalPayloadSchema = z.object({
+  requestId: z.string(),
+  walletPubkey: z.string(),
+  sessionPubkey: z.string(),
+  limits: z.array(SpendingLimitSchema),
+  durationSeconds: z.number().positive(),
+  expiresAt: z.number(), // Unix timestamp in ms
+  policy: SessionPolicySchema.optional(),
+  nonce: z.string(), // Random base64url value, prevents signature replay
+});
+
+export type SessionApprovalPayload = z.infer<typeof SessionApprovalPayloadSchema>;
+
+/**
+ * Pairing approval payload - what a wallet signs when confirming an agent pairing
+ * The auth secret itself is never signed or logged, only its hash
+ */
+export const PairingApprovalPayloadSchema = z.object({
+  requestId: z.string(),
+  agentId: z.string(),
+  agentName: z.string(),
+  walletPubkey: z.string(),
+  authSecretHash: z.string(), // sha256 of the auth secret (base64)
+  nonce: z.string(), // Random base64url value, prevents signature replay
+});
+
+export type PairingApprovalPayload = z.infer<typeof PairingApprovalPayloadSchema>;
+
+/**
+ * Agent secret payload - what a wallet signs to rotate or invalidate an agent's auth secret
+ */
+export const AgentSecretPayloadSchema = z.object({
+  agentId: z.string(),
+  walletPubkey: z.string(),
+  authSecretHash: z.string().nullable(), // sha256 of the new secret (base64), null to invalidate
+  nonce: z.string(), // Random base64url value, prevents signature replay
+});
+
+export type AgentSecretPayload = z.infer<typeof AgentSecretPayloadSchema>;
+
 /**
  * Transaction type
  */
@@ -150,12 +292,39 @@ export const TokenBalanceSchema = z.object({
   amount: z.number(), // In base units
   decimals: z.number().int().nonnegative(),
   symbol: z.string().nullable(),
+  name: z.string().nullable().default(null),
   uiAmount: z.number(), // Human-readable amount
   logoUri: z.string().nullable(),
+  programId: z.string().nullable().default(null), // Owning token program, null for SOL
+  transferFeeBps: z.number().nullable().default(null), // Token-2022 transfer fee, current epoch
+  nonTransferable: z.boolean().default(false), // Token-2022 non-transferable mint
 });
 
 export type TokenBalance = z.infer<typeof TokenBalanceSchema>;
 
+/**
+ * Where token metadata was resolved from
+ */
+export const TokenMetadataSourceSchema = z.enum([
+  'metaplex', // Metaplex token metadata account
+  'token2022', // Token-2022 metadata extension on the mint
+  'token_list', // Bundled token list
+]);
+export type TokenMetadataSource = z.infer<typeof TokenMetadataSourceSchema>;
+
+/**
+ * Token metadata - display name, symbol and icon for a mint
+ */
+export const TokenMetadataSchema = z.object({
+  mint: z.string(), // "native" for SOL or token mint pubkey
+  name: z.string(),
+  symbol: z.string(),
+  logoUri: z.string().nullable(),
+  source: TokenMetadataSourceSchema,
+});
+
+export type TokenMetadata = z.infer<typeof TokenMetadataSchema>;
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -195,6 +364,67 @@ export const PairingStatusResponseSchema = z.object({
 
 export type PairingStatusResponse = z.infer<typeof PairingStatusResponseSchema>;
 
+/**
+ * Pairing offer response - a code the phone registered for an agent to claim
+ */
+export const PairingOfferResponseSchema = z.object({
+  code: z.string(),
+  expiresAt: z.number(),
+});
+
+export type PairingOfferResponse = z.infer<typeof PairingOfferResponseSchema>;
+
+/**
+ * Pairing request an agent submitted against a phone's code
+ */
+export const PairingAgentRequestSchema = z.object({
+  requestId: z.string(),
+  agentId: z.string(),
+  agentName: z.string(),
+  requestedAt: z.number(), // Unix timestamp in ms
+});
+
+export type PairingAgentRequest = z.infer<typeof PairingAgentRequestSchema>;
+
+/**
+ * Pairing offer status - whether an agent has claimed the code yet
+ */
+export const PairingOfferStatusResponseSchema = z.object({
+  status: z.enum(['waiting', 'requested', 'expired']),
+  request: PairingAgentRequestSchema.optional(),
+});
+
+export type PairingOfferStatusResponse = z.infer<typeof PairingOfferStatusResponseSchema>;
+
+/**
+ * Agent secret update response
+ */
+export const AgentSecretResponseSchema = z.object({
+  agentId: z.string(),
+  status: z.enum(['rotated', 'invalidated']),
+  updatedAt: z.number(), // Unix timestamp in ms
+});
+
+export type AgentSecretResponse = z.infer<typeof AgentSecretResponseSchema>;
+
+/**
+ * Session revoke response
+ * transaction is a fee-payer-signed on-chain revocation, null if the key is already
+ * revoked. The server may batch several session keys into one transaction, in which
+ * case the same transaction is returned for each of them.
+ */
+export const SessionRevokeResponseSchema = z.object({
+  status: z.literal('revoked'),
+  results: z.array(
+    z.object({
+      sessionId: z.string(),
+      transaction: z.string().nullable(),
+    })
+  ),
+});
+
+export type SessionRevokeResponse = z.infer<typeof SessionRevokeResponseSchema>;
+
 /**
  * Session request response
  */
@@ -216,6 +446,16 @@ export const SessionDetailsResponseSchema = z.object({
 
 export type SessionDetailsResponse = z.infer<typeof SessionDetailsResponseSchema>;
 
+/**
+ * Session list response - the server's view of a wallet's sessions
+ * Revocation progress is tracked on the device and never comes from the server
+ */
+export const SessionListResponseSchema = z.object({
+  sessions: z.array(SessionSchema.omit({ revocation: true })),
+});
+
+export type SessionListResponse = z.infer<typeof SessionListResponseSchema>;
+
 /**
  * Transfer response
  */
@@ -247,6 +487,84 @@ export const TransactionHistoryResponseSchema = z.object({
 
 export type TransactionHistoryResponse = z.infer<typeof TransactionHistoryResponseSchema>;
 
+// ============================================================================
+// Wallet Events
+// ============================================================================
+
+/**
+ * Session request waiting for the wallet owner's decision
+ */
+export const PendingSessionRequestSchema = z.object({
+  requestId: z.string(),
+  agentId: z.string(),
+  walletPubkey: z.string(),
+  limits: z.array(SpendingLimitSchema),
+  durationSeconds: z.number().positive(),
+  policy: SessionPolicySchema.optional(),
+  requestedAt: z.number(), // Unix timestamp in ms
+  expiresAt: z.number(), // When the request lapses unanswered (ms)
+});
+
+export type PendingSessionRequest = z.infer<typeof PendingSessionRequestSchema>;
+
+/**
+ * Pending session requests response
+ */
+export const PendingSessionRequestsResponseSchema = z.object({
+  requests: z.array(PendingSessionRequestSchema),
+});
+
+export type PendingSessionRequestsResponse = z.infer<typeof PendingSessionRequestsResponseSchema>;
+
+// Fields every wallet event carries
+const WalletEventBaseSchema = z.object({
+  id: z.string(), // Server event id, used as the resume cursor
+  walletPubkey: z.string(),
+  at: z.number(), // Unix timestamp in ms
+});
+
+/**
+ * Wallet event - pushed over the event stream or returned by the polling fallback
+ */
+export const WalletEventSchema = z.discriminatedUnion('type', [
+  WalletEventBaseSchema.extend({
+    type: z.literal('session_requested'),
+    request: PendingSessionRequestSchema,
+  }),
+  WalletEventBaseSchema.extend({
+    type: z.literal('pairing_requested'),
+    code: z.string(), // Pairing code the agent claimed
+    request: PairingAgentRequestSchema,
+  }),
+  WalletEventBaseSchema.extend({
+    type: z.literal('transaction_executed'),
+    sessionId: z.string(),
+    agentId: z.string(),
+    signature: z.string(),
+    spent: SpentAmountsSchema, // Session totals after the transaction
+  }),
+  WalletEventBaseSchema.extend({
+    type: z.literal('session_exhausted'),
+    sessionId: z.string(),
+  }),
+  WalletEventBaseSchema.extend({
+    type: z.literal('session_expired'),
+    sessionId: z.string(),
+  }),
+]);
+
+export type WalletEvent = z.infer<typeof WalletEventSchema>;
+
+/**
+ * Wallet events response - events after a cursor, oldest first
+ */
+export const WalletEventsResponseSchema = z.object({
+  events: z.array(WalletEventSchema),
+  cursor: z.string().nullable(), // Id of the newest event, null if there are none
+});
+
+export type WalletEventsResponse = z.infer<typeof WalletEventsResponseSchema>;
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -310,14 +628,41 @@ export interface AgentStoreState {
   error: string | null;
 }
 
+/**
+ * Balances for a single wallet, with the last good result kept on refresh failure
+ */
+export interface WalletBalances {
+  balances: TokenBalance[];
+  fetchedAt: number | null; // Unix timestamp in ms of the last successful fetch
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Balance store state, keyed by wallet public key
+ */
+export interface BalanceStoreState {
+  balancesByWallet: Record<string, WalletBalances>;
+}
+
+/**
+ * Token metadata store state, keyed by mint (null when the mint has no metadata)
+ */
+export interface TokenMetadataStoreState {
+  metadataByMint: Record<string, TokenMetadata | null>;
+}
+
 /**
  * Session store state
  */
 export interface SessionStoreState {
   sessions: Session[];
-  pendingRequests: SessionRequestResponse[];
+  pendingRequests: PendingSessionRequest[];
   isLoading: boolean;
+  hasLoaded: boolean; // Set once sessions are read from storage
   error: string | null;
+  lastSyncedAt: Record<string, number>; // walletPubkey -> last successful sync (ms)
+  syncError: string | null;
 }
 
 // ============================================================================
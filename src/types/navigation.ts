@@ -14,12 +14,32 @@ export type RootStackParamList = {
   Main: NavigatorScreenParams<TabParamList>;
 
   // Detail Screens
-  AgentDetail: { agentId: string };
+  AgentDetail: { walletPubkey: string; agentId: string };
   SessionDetail: { sessionId: string };
-  Send: { tokenMint?: string };
+  Send: {
+    tokenMint?: string;
+    // Prefilled from a scanned address or Solana Pay request
+    recipient?: string;
+    amount?: string;
+    label?: string;
+    message?: string;
+    // Solana Pay references and memo, included in the transfer for the merchant
+    reference?: string[];
+    memo?: string;
+    // Solana Pay transaction request link; shows the request instead of the transfer form
+    transactionRequest?: string;
+  };
+  TransactionResult: {
+    signature: string;
+    walletPubkey: string;
+    summary: string; // Shown once confirmed, e.g. "1.5 SOL sent to Ab12...yz89"
+  };
   Receive: undefined;
-  PairAgent: undefined;
+  PairAgent: { code?: string } | undefined;
+  Scan: undefined;
   ApproveSession: { requestId: string };
+  SessionRequests: undefined;
+  RevokeAll: undefined;
 };
 
 /**